@@ -1,11 +1,23 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { LayoutDashboard, Table, Settings, Save, Download, FileSpreadsheet, Printer, LogOut, ChevronDown, FileText, UserPlus, FilePlus, Building, Users, Calculator, PieChart, MapPin, Trophy, Languages, Percent, RefreshCw, Check, Target as TargetIcon, ShieldAlert } from 'lucide-react';
-import { SalaryEntry, SalarySheet, SalaryRow, User, Employee, AccountOpening, Branch, CenterCollectionRecord, Center, CommissionStructure, DEFAULT_COMMISSION_RATES, Target } from './types';
+import { LayoutDashboard, Table, Settings, Save, Download, FileSpreadsheet, Printer, LogOut, ChevronDown, FileText, UserPlus, FilePlus, Building, Users, Calculator, PieChart, MapPin, Trophy, Languages, Percent, RefreshCw, Check, Target as TargetIcon, ShieldAlert, AlertTriangle, Archive, CloudUpload, History, HeartPulse, DatabaseBackup, MonitorSmartphone, KeyRound, LockKeyhole, Smartphone } from 'lucide-react';
+import { SalaryEntry, SalarySheet, SalaryRow, User, Employee, AccountOpening, Branch, Region, CenterCollectionRecord, Center, CommissionStructure, DEFAULT_COMMISSION_RATES, Target, DeactivatableEntity, RecordStatus, AuditEntry, SessionInfo, LoginEvent, LoginLockout, PermissionMatrix, PermissionEntity, PermissionAction, RolePermissions } from './types';
 import { createEmptyEntry, recalculateEntry } from './services/logic';
 import { exportToCSV } from './services/exportService';
 import { translations, Language } from './services/translations';
-import { googleSheetService } from './services/googleSheetService';
+import { dataStore, DataStore, DataTab, DATA_BACKEND } from './services/dataStore';
+import { MemoryDataStore } from './services/memoryDataStore';
+import { Backup, createBackupFiles } from './services/backupService';
+import { saveZip } from './services/pdfGenerator';
+import { findDependents, DependencyData } from './services/dependencyService';
+import { HealthIssue, HealthFix } from './services/dataHealthService';
+import { validateUserChange, isLastSuperAdmin } from './services/userValidation';
+import { RowConflictError, AccessDeniedError, InvalidRecordError, describeError, onAuditLogError } from './services/errors';
+import { generateId, reserveIdsByBranch } from './services/idService';
+import { collectionQueue, queueKey, QueuedCollection } from './services/collectionQueue';
+import { clearOfflineCache } from './services/offline';
+import { DEFAULT_PERMISSIONS, accessFor, canEditPermissions } from './services/permissions';
+import { groupByRegion, groupByZone, regionLabel, zoneLabel } from './services/regions';
 import Dashboard from './components/Dashboard';
 import SalaryTable from './components/SalaryTable';
 import AccountReport from './components/AccountReport';
@@ -19,7 +31,19 @@ import ManageCenters from './components/ManageCenters';
 import Leaderboard from './components/Leaderboard';
 import ManageCommissions from './components/ManageCommissions';
 import ManageTargets from './components/ManageTargets';
+import InactiveRecords, { InactiveRecordSet } from './components/InactiveRecords';
+import AuditLog from './components/AuditLog';
+import DataHealth from './components/DataHealth';
+import BackupRestore, { RestoreTarget } from './components/BackupRestore';
+import ConfirmDeactivateModal from './components/ConfirmDeactivateModal';
+import ConflictModal from './components/ConflictModal';
+import ErrorBanner from './components/ErrorBanner';
 import Login from './components/Login';
+import ChangePassword from './components/ChangePassword';
+import ActiveSessions from './components/ActiveSessions';
+import ManagePermissions from './components/ManagePermissions';
+import LoginSecurity from './components/LoginSecurity';
+import TwoFactorSetup from './components/TwoFactorSetup';
 
 enum View {
   DASHBOARD = 'DASHBOARD',
@@ -35,18 +59,41 @@ enum View {
   MANAGE_TARGETS = 'MANAGE_TARGETS',
   CENTER_CALC = 'CENTER_CALC',
   LEADERBOARD = 'LEADERBOARD',
+  INACTIVE_RECORDS = 'INACTIVE_RECORDS',
+  AUDIT_LOG = 'AUDIT_LOG',
+  DATA_HEALTH = 'DATA_HEALTH',
+  BACKUP = 'BACKUP',
+  SESSIONS = 'SESSIONS',
+  LOGIN_SECURITY = 'LOGIN_SECURITY',
+  PERMISSIONS = 'PERMISSIONS',
+  TWO_FACTOR = 'TWO_FACTOR',
 }
 
-const generateId = () => Math.random().toString(36).substring(2, 9) + Date.now().toString(36);
+const ENTITY_LABELS: Record<DeactivatableEntity, string> = {
+  BRANCH: 'Branch',
+  USER: 'User',
+  EMPLOYEE: 'Employee',
+  CENTER: 'Center',
+  ACCOUNT: 'Account'
+};
+
+// Tabs backing the app-wide state below; salary sheets and entries are loaded on demand
+const APP_TABS: DataTab[] = ['branches', 'regions', 'employees', 'accounts', 'users', 'centers', 'collections', 'commissions', 'targets', 'permissions'];
+
+const ENTITY_TABS: Record<DeactivatableEntity, DataTab> = {
+  BRANCH: 'branches',
+  USER: 'users',
+  EMPLOYEE: 'employees',
+  CENTER: 'centers',
+  ACCOUNT: 'accounts'
+};
 
 const App: React.FC = () => {
   const [loading, setLoading] = useState(false);
   
-  // Auth State
-  const [user, setUser] = useState<User | null>(() => {
-    const saved = sessionStorage.getItem('salary_app_user');
-    return saved ? JSON.parse(saved) : null;
-  });
+  // Auth State: only the backend's session token is kept in the browser; the user is re-read from it on load
+  const [user, setUser] = useState<User | null>(null);
+  const [isResumingSession, setIsResumingSession] = useState(true);
 
   const [language, setLanguage] = useState<Language>('en');
   const t = translations[language];
@@ -55,6 +102,7 @@ const App: React.FC = () => {
   
   // App Data (Loaded from Sheets)
   const [branches, setBranches] = useState<Branch[]>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [accounts, setAccounts] = useState<AccountOpening[]>([]);
   const [users, setUsers] = useState<User[]>([]);
@@ -62,6 +110,12 @@ const App: React.FC = () => {
   const [centerRecords, setCenterRecords] = useState<CenterCollectionRecord[]>([]);
   const [commissionRates, setCommissionRates] = useState<Record<string, CommissionStructure>>(DEFAULT_COMMISSION_RATES);
   const [targets, setTargets] = useState<Target[]>([]);
+  const [permissions, setPermissions] = useState<PermissionMatrix>(DEFAULT_PERMISSIONS);
+
+  // Deposits staged offline (IndexedDB outbox); submitted ones are sent in the background until the backend accepts them
+  const [pendingCollections, setPendingCollections] = useState<QueuedCollection[]>([]);
+  const [collectionSyncError, setCollectionSyncError] = useState<string | null>(null);
+  const isSyncingCollections = useRef(false);
 
   // Salary Sheet State
   const [selectedMonth, setSelectedMonth] = useState<string>(new Date().toISOString().slice(0, 7));
@@ -70,22 +124,45 @@ const App: React.FC = () => {
   const [entries, setEntries] = useState<SalaryEntry[]>([]);
   const [isGenerated, setIsGenerated] = useState<boolean>(false);
   
+  // Soft Delete State
+  const [pendingDeactivation, setPendingDeactivation] = useState<{ entity: DeactivatableEntity; id: string } | null>(null);
+  const [inactiveRecords, setInactiveRecords] = useState<InactiveRecordSet>({ branches: [], users: [], employees: [], centers: [], accounts: [] });
+
+  // Audit Log State (loaded when the view opens)
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+
+  // Active Sessions State (loaded when the view opens)
+  const [activeSessions, setActiveSessions] = useState<SessionInfo[]>([]);
+  const [loginHistory, setLoginHistory] = useState<LoginEvent[]>([]);
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+
+  // Data Health State: every record, inactive ones included, scanned for broken links and duplicates
+  const [healthData, setHealthData] = useState<DependencyData>({ branches: [], users: [], employees: [], centers: [], accounts: [], records: [] });
+
+  // Error bar for failed loads and saves
+  const [appError, setAppError] = useState<string | null>(null);
+
+  // Save Conflict State: a write refused because the row changed since it was loaded
+  const [conflict, setConflict] = useState<{ message: string; retry: () => Promise<unknown> } | null>(null);
+
+  // Salary entry saves still waiting out their debounce, by entry ID
+  const pendingEntrySaves = useRef<Record<string, { timer: ReturnType<typeof setTimeout>; entry: SalaryEntry }>>({});
+  
   const [isBranchDropdownOpen, setIsBranchDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // --- PERMISSION LOGIC ---
-  // System Admin: Only Super Admin can manage users and targets
-  const isSystemAdmin = user?.role === 'SUPER_ADMIN';
-  
-  // Global Ops: Super Admin, Admin, Owner can see all data and perform operations
-  // Auditor is also Global View but Read Only (handled in component logic usually)
-  const isGlobalOps = ['SUPER_ADMIN', 'ADMIN', 'OWNER'].includes(user?.role || '');
-  
-  const isManager = user?.role === 'MANAGER';
+  // Every view and action is offered per the role permission matrix (services/permissions.ts), which
+  // the API server enforces too; until the stored matrix is loaded the built-in defaults apply
+  const access = useMemo(() => user ? accessFor(user, permissions) : null, [user, permissions]);
+  const can = (entity: PermissionEntity, action: PermissionAction) => !!access?.can(entity, action);
+  const seesAllBranches = !!access?.seesAllBranches;
+
+  // Presentation only: field officers get their own figures rather than the branch's
   const isNormalUser = user?.role === 'USER';
-  
-  // Logic for ReadOnly status on Sheet View (default to false for generated sheets)
-  const isSheetReadOnly = false;
+
+  // Deactivated records a user may bring back are those they may deactivate
+  const reactivatableEntities = (Object.keys(ENTITY_TABS) as DeactivatableEntity[]).filter(entity => can(entity, 'DELETE'));
 
   // --- USER DISPLAY TITLE LOGIC ---
   const userRoleDisplay = useMemo(() => {
@@ -94,89 +171,344 @@ const App: React.FC = () => {
     
     if (r === 'SUPER_ADMIN') return 'SUPER ADMIN';
     
-    // High privilege / Global roles
-    if (r === 'ADMIN' || r === 'OWNER' || r === 'AUDITOR') {
+    // Roles that see every branch
+    if (seesAllBranches) {
         return `${r} - ALL BRANCHES`;
     }
 
     // Branch bound roles
     // We attempt to find branch name even if branches aren't fully loaded yet (fallback)
     const branchName = branches.find(b => b.id === user.branch_id)?.name.toUpperCase() || 'UNASSIGNED';
-    
+    const branchCount = access?.branchIds.length || 0;
+
+    if (r === 'AREA_MANAGER') return `AREA MANAGER - ${branchCount} BRANCH${branchCount === 1 ? '' : 'ES'}`;
+    if (r === 'MANAGER' && branchCount > 1) return `BRANCH MANAGER - ${branchName} +${branchCount - 1}`;
     if (r === 'MANAGER') return `BRANCH MANAGER - ${branchName}`;
     if (r === 'USER') return `FIELD OFFICER - ${branchName}`;
     
     return `${(r as string).replace('_', ' ')} - ${branchName}`;
-  }, [user, branches]);
+  }, [user, branches, seesAllBranches, access]);
+
+  // --- ERROR REPORTING ---
+  // Every failed load or save ends up here, so a failure is never mistaken for success
+  const reportError = (message: string, err: unknown) => {
+      console.error(message, err);
+      // An expired session can't be fixed by retrying; go back to the login screen
+      if (err instanceof AccessDeniedError && err.reason === 'SIGNED_OUT') {
+          clearOfflineCache();
+          setUser(null);
+          setAppError(null);
+          alert(describeError(err));
+          return;
+      }
+      setAppError(`${message} ${describeError(err)}`);
+  };
 
   // --- DATA LOADING ---
-  const loadAllData = async () => {
+  // Re-reads only the given tabs (one batched round trip for whatever is not cached).
+  // Mutations pass the tabs they wrote; reload forces fresh copies of every tab.
+  const refreshData = async (tabs: DataTab[], reload = false) => {
     if (!user) return;
     setLoading(true);
     try {
-        const [b, e, a, u, c, cr, comms, t] = await Promise.all([
-            googleSheetService.getBranches(),
-            googleSheetService.getEmployees(),
-            googleSheetService.getAccounts(),
-            googleSheetService.getUsers(),
-            googleSheetService.getCenters(),
-            googleSheetService.getCollections(),
-            googleSheetService.getCommissions(),
-            googleSheetService.getTargets()
-        ]);
-
-        setBranches(b);
-        setEmployees(e);
-        setAccounts(a);
-        setUsers(u);
-        setCenters(c);
-        setCenterRecords(cr);
-        if (Object.keys(comms).length > 0) setCommissionRates(comms);
-        setTargets(t);
+        await dataStore.prefetch(tabs, reload);
+        await Promise.all(tabs.map(async tab => {
+            switch (tab) {
+                case 'branches': return setBranches(await dataStore.getBranches());
+                case 'regions': return setRegions(await dataStore.getRegions());
+                case 'employees': return setEmployees(await dataStore.getEmployees());
+                case 'accounts': return setAccounts(await dataStore.getAccounts());
+                case 'users': return setUsers(await dataStore.getUsers());
+                case 'centers': return setCenters(await dataStore.getCenters());
+                case 'collections': return setCenterRecords(await dataStore.getCollections());
+                case 'commissions': {
+                    const comms = await dataStore.getCommissions();
+                    if (Object.keys(comms).length > 0) setCommissionRates(comms);
+                    return;
+                }
+                case 'targets': return setTargets(await dataStore.getTargets());
+                case 'permissions': return setPermissions(await dataStore.getPermissions());
+            }
+        }));
     } catch (err) {
-        console.error("Failed to load data", err);
-        // Fallback or Toast here
+        reportError("Failed to load data.", err);
     } finally {
         setLoading(false);
     }
   };
 
+  const loadAllData = () => refreshData(APP_TABS, true);
+
+  // Missing or duplicated columns are reported once per sign-in; saves that need those columns will fail
+  const checkSchema = async () => {
+      try {
+          const issues = await dataStore.checkSchema();
+          if (issues.length > 0) setAppError(`The spreadsheet layout needs attention: ${issues.join('; ')}.`);
+      } catch (err) {
+          reportError("Failed to check the spreadsheet layout.", err);
+      }
+  };
+
+  // A change that was saved but is missing from the audit log still succeeded; it is only flagged
+  useEffect(() => onAuditLogError(err => setAppError(describeError(err))), []);
+
   useEffect(() => {
-    if (user) {
-        sessionStorage.setItem('salary_app_user', JSON.stringify(user));
-        loadAllData();
-    } else {
-        sessionStorage.removeItem('salary_app_user');
+    dataStore.resumeSession()
+        .then(setUser)
+        .catch(err => console.error("Failed to resume the session.", err))
+        .finally(() => setIsResumingSession(false));
+  }, []);
+
+  useEffect(() => {
+    // Nothing is loaded until a required password change and two-factor setup are done; the server refuses it anyway
+    if (user && !user.mustChangePassword && !user.mustSetUpTwoFactor) {
+        loadAllData().then(checkSchema).then(() => syncPendingCollections());
     }
+    // The login screen checks credentials on the backend; don't keep the last session's accounts around for it
+    if (!user) setUsers([]);
   }, [user]);
 
-  // Initial Access Token Check
-  useEffect(() => {
-      const token = localStorage.getItem('google_access_token');
-      if (token) googleSheetService.setAccessToken(token);
-  }, []);
+  // --- SAVE CONFLICTS ---
+
+  // Hands a RowConflictError to the conflict dialog; returns false for any other error
+  const showConflict = (err: unknown, retry: () => Promise<unknown>) => {
+      if (!(err instanceof RowConflictError)) return false;
+      setConflict({ message: err.message, retry });
+      return true;
+  };
+
+  // Retry for a refused edit: re-read the record and apply the same changes on top of the stored version
+  const reapplyOnLatest = <T extends { id: string; updatedAt?: string }>(load: () => Promise<T[]>, id: string, save: (latest: T) => Promise<unknown>) => async () => {
+      const latest = (await load()).find(r => r.id === id);
+      if (!latest) throw new RowConflictError('Record', id, 'MISSING');
+      await save(latest);
+  };
+
+  const handleConflictReload = async () => {
+      setConflict(null);
+      await loadAllData();
+  };
+
+  const handleConflictRetry = async () => {
+      if (!conflict) return;
+      const { retry } = conflict;
+      setConflict(null);
+      setLoading(true);
+      try {
+          await retry();
+      } catch (err) {
+          if (!showConflict(err, retry)) {
+              reportError("Failed to save changes.", err);
+          }
+      } finally {
+          await loadAllData();
+      }
+  };
+
+  const handleSignOut = async () => {
+      await Promise.all(flushEntrySaves());
+      try {
+          await dataStore.signOut();
+      } catch (err) {
+          console.error("Failed to end the server session.", err);
+      }
+      // Cached API reads belong to this user; staged deposits stay queued for the next sign-in
+      await clearOfflineCache();
+      setUser(null);
+  };
+
+  // Whatever an earlier session left in the offline cache is not this user's to read
+  const handleLogin = async (signedIn: User) => {
+      await clearOfflineCache();
+      setUser(signedIn);
+  };
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string) => {
+      if (!user) return false;
+      const changed = await dataStore.changePassword(user.id, currentPassword, newPassword);
+      if (changed) setUser({ ...user, mustChangePassword: false });
+      return changed;
+  };
+
+  // --- TWO-FACTOR SIGN-IN ---
+  // Errors are shown by TwoFactorSetup itself
+  const handleEnableTwoFactor = async (secret: string, code: string) => {
+      if (!user) return null;
+      return dataStore.enableTwoFactor(user.id, secret, code);
+  };
+
+  const handleReplaceRecoveryCodes = async () => {
+      if (!user) return null;
+      return dataStore.replaceRecoveryCodes(user.id);
+  };
+
+  const handleDisableTwoFactor = async (currentPassword: string) => {
+      if (!user) return false;
+      const disabled = await dataStore.disableTwoFactor(user.id, currentPassword);
+      if (disabled) setUser({ ...user, twoFactorEnabled: false });
+      return disabled;
+  };
+
+  // Once the new recovery codes are put away; only then is a required setup done, so they are not skipped
+  const handleTwoFactorDone = () => {
+      if (user) setUser({ ...user, twoFactorEnabled: true, mustSetUpTwoFactor: false });
+  };
+
+  // An admin turning off someone else's, e.g. after they lost their phone and their recovery codes
+  const handleResetTwoFactor = async (target: User) => {
+      setLoading(true);
+      try {
+          await dataStore.disableTwoFactor(target.id);
+          await refreshData(['users']);
+      } catch (err) {
+          reportError(`Failed to reset two-factor sign-in for ${target.name}.`, err);
+      } finally {
+          setLoading(false);
+      }
+  };
 
   // --- CRUD HANDLERS (Wrappers around Service) ---
   
   const handleAddBranch = async (data: any) => {
       setLoading(true);
-      await googleSheetService.addBranch({ id: generateId(), ...data, status: 'ACTIVE' });
-      await loadAllData();
+      try {
+          const [id] = await dataStore.reserveIds('BRANCH', 1);
+          await dataStore.addBranch({ ...data, id, code: id, status: 'ACTIVE' });
+          await refreshData(['branches']);
+      } catch (err) {
+          reportError("Failed to add branch.", err);
+      } finally {
+          setLoading(false);
+      }
   };
 
   const handleBulkAddBranches = async (newBranches: { name: string, address?: string, phone?: string }[]) => {
       setLoading(true);
       try {
-          const branchesToAdd = newBranches.map(b => ({
+          const ids = await dataStore.reserveIds('BRANCH', newBranches.length);
+          const branchesToAdd = newBranches.map((b, index) => ({
               ...b,
-              id: generateId(),
+              id: ids[index],
+              code: ids[index],
               status: 'ACTIVE' as const
           }));
-          await googleSheetService.addBranches(branchesToAdd);
-          await loadAllData(); // Force refresh to update UI
+          await dataStore.addBranches(branchesToAdd);
+          await refreshData(['branches']); // Force refresh to update UI
+      } catch (err) {
+          reportError("Failed to save branches.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const handleEditBranch = async (id: string, data: { name: string, address?: string, phone?: string, region_id?: string }) => {
+      setLoading(true);
+      try {
+          const original = branches.find(b => b.id === id);
+          if (!original) {
+              alert("Branch record not found in local state.");
+              return;
+          }
+          await dataStore.updateBranch({ ...original, ...data });
+          await refreshData(['branches']);
+      } catch (err) {
+          if (showConflict(err, reapplyOnLatest(() => dataStore.getBranches(true), id, latest => dataStore.updateBranch({ ...latest, ...data })))) return;
+          reportError("Failed to update branch.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const isRegionNameTaken = (name: string, exceptId?: string) =>
+      regions.some(r => r.id !== exceptId && r.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const handleAddRegion = async (data: { name: string, zone?: string }) => {
+      if (isRegionNameTaken(data.name)) {
+          alert(`There is already a region named ${data.name}.`);
+          return;
+      }
+      setLoading(true);
+      try {
+          const [id] = await dataStore.reserveIds('REGION', 1);
+          await dataStore.addRegion({ ...data, id, status: 'ACTIVE' });
+          await refreshData(['regions']);
+      } catch (err) {
+          reportError("Failed to add region.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const handleEditRegion = async (id: string, data: { name: string, zone?: string }) => {
+      if (isRegionNameTaken(data.name, id)) {
+          alert(`There is already a region named ${data.name}.`);
+          return;
+      }
+      setLoading(true);
+      try {
+          const original = regions.find(r => r.id === id);
+          if (!original) {
+              alert("Region record not found in local state.");
+              return;
+          }
+          await dataStore.updateRegion({ ...original, ...data });
+          await refreshData(['regions']);
+      } catch (err) {
+          if (showConflict(err, reapplyOnLatest(() => dataStore.getRegions(true), id, latest => dataStore.updateRegion({ ...latest, ...data })))) return;
+          reportError("Failed to update region.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  // Only an empty region can go, so no branch is left naming one that is gone
+  const handleDeleteRegion = async (id: string) => {
+      const region = regions.find(r => r.id === id);
+      if (!region) return;
+      setLoading(true);
+      try {
+          // Checked against inactive branches as well, which the loaded list leaves out
+          const inRegion = (await dataStore.getBranches(true)).filter(b => b.region_id === id);
+          if (inRegion.length > 0) {
+              alert(`Cannot delete ${region.name}: move ${inRegion.map(b => b.name).join(', ')} to another region first.`);
+              return;
+          }
+          if (!confirm(`Delete the region ${region.name}?`)) return;
+          await dataStore.setRegionStatus(region, 'INACTIVE');
+          await refreshData(['regions']);
+      } catch (err) {
+          reportError("Failed to delete region.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const handleUpdateRates = async (newRates: Record<string, CommissionStructure>): Promise<boolean> => {
+      const removed = Object.keys(commissionRates).filter(type => !newRates[type]);
+      const inUse = removed.filter(type => employees.some(e => e.commission_type === type));
+      if (inUse.length > 0) {
+          alert(`Cannot remove commission type(s) ${inUse.join(', ')}: still assigned to active employees.`);
+          return false;
+      }
+
+      setLoading(true);
+      try {
+          // Unsaved rates (built-in defaults) are written too, otherwise they vanish once the tab has any rows
+          const changed = Object.values(newRates).filter(rate => {
+              const current = commissionRates[rate.typeCode];
+              return !current || !current.rowIndex || current.own !== rate.own || current.office !== rate.office;
+          });
+          for (const rate of changed) {
+              await dataStore.saveCommission(rate);
+          }
+          for (const type of removed) {
+              await dataStore.deactivateCommission(commissionRates[type]);
+          }
+          await refreshData(['commissions']);
+          return true;
       } catch (err) {
-          console.error("Bulk add branches failed", err);
-          alert("Failed to save branches.");
+          reportError("Failed to save commission rates.", err);
+          return false;
       } finally {
           setLoading(false);
       }
@@ -184,8 +516,15 @@ const App: React.FC = () => {
 
   const handleAddEmployee = async (data: any) => {
       setLoading(true);
-      await googleSheetService.addEmployee({ ...data, id: data.id || generateId(), status: 'ACTIVE' });
-      await loadAllData();
+      try {
+          const id = data.id || (await dataStore.reserveIds('EMPLOYEE', 1, data.branch_id))[0];
+          await dataStore.addEmployee({ ...data, id, status: 'ACTIVE' });
+          await refreshData(['employees']);
+      } catch (err) {
+          reportError("Failed to add employee.", err);
+      } finally {
+          setLoading(false);
+      }
   };
 
   const handleEditEmployee = async (id: string, data: Partial<Employee>) => {
@@ -203,11 +542,11 @@ const App: React.FC = () => {
               ...data
           };
           
-          await googleSheetService.updateEmployee(updatedEmployee);
-          await loadAllData(); // Refresh to see changes
+          await dataStore.updateEmployee(updatedEmployee);
+          await refreshData(['employees']); // Refresh to see changes
       } catch (err) {
-          console.error("Update failed", err);
-          alert("Failed to update employee.");
+          if (showConflict(err, reapplyOnLatest(() => dataStore.getEmployees(true), id, latest => dataStore.updateEmployee({ ...latest, ...data, updatedAt: latest.updatedAt })))) return;
+          reportError("Failed to update employee.", err);
       } finally {
           setLoading(false);
       }
@@ -216,16 +555,18 @@ const App: React.FC = () => {
   const handleBulkAddEmployees = async (newEmployees: Employee[]) => {
       setLoading(true);
       try {
+          // Rows imported without an ID get the next code of their branch
+          const unnumbered = newEmployees.filter(e => !e.id);
+          const ids = await reserveIdsByBranch(dataStore, 'EMPLOYEE', unnumbered.map(e => e.branch_id));
           const employeesToAdd = newEmployees.map(e => ({
               ...e,
-              id: e.id || generateId(),
+              id: e.id || ids[unnumbered.indexOf(e)],
               status: 'ACTIVE' as const
           }));
-          await googleSheetService.addEmployees(employeesToAdd);
-          await loadAllData();
+          await dataStore.addEmployees(employeesToAdd);
+          await refreshData(['employees']);
       } catch (err) {
-          console.error("Bulk add failed", err);
-          alert("Failed to save employees.");
+          reportError("Failed to save employees.", err);
       } finally {
           setLoading(false);
       }
@@ -234,25 +575,31 @@ const App: React.FC = () => {
   const handleAddAccount = async (data: any) => {
       // Legacy single add - mostly replaced by bulk flow now
       setLoading(true);
-      await googleSheetService.addAccount({ ...data, id: Date.now(), status: 'ACTIVE' });
-      await loadAllData();
+      try {
+          const [id] = await dataStore.reserveIds('ACCOUNT', 1);
+          await dataStore.addAccount({ ...data, id: Number(id), status: 'ACTIVE' });
+          await refreshData(['accounts']);
+      } catch (err) {
+          reportError("Failed to add account.", err);
+      } finally {
+          setLoading(false);
+      }
   };
 
   const handleBulkAddAccounts = async (newAccounts: Omit<AccountOpening, 'id'>[]) => {
       setLoading(true);
       try {
-          // Generate IDs sequentially for stability
-          const now = Date.now();
+          // One reservation for the whole batch, so concurrent imports never hand out the same ID
+          const ids = await dataStore.reserveIds('ACCOUNT', newAccounts.length);
           const accountsToAdd = newAccounts.map((acc, index) => ({
               ...acc,
-              id: now + index,
+              id: Number(ids[index]),
               status: 'ACTIVE' as const
           }));
-          await googleSheetService.addAccounts(accountsToAdd);
-          await loadAllData();
+          await dataStore.addAccounts(accountsToAdd);
+          await refreshData(['accounts']);
       } catch (err) {
-          console.error("Bulk account add failed", err);
-          alert("Failed to save accounts transaction. Please try again.");
+          reportError("Failed to save accounts transaction.", err);
       } finally {
           setLoading(false);
       }
@@ -260,24 +607,83 @@ const App: React.FC = () => {
 
   const handleAddUser = async (data: any) => {
       setLoading(true);
-      await googleSheetService.addUser({ ...data, id: generateId(), status: 'ACTIVE' });
-      await loadAllData();
+      try {
+          const allUsers = await dataStore.getUsers(true);
+          const error = validateUserChange(allUsers, data);
+          if (error) {
+              alert(error);
+              return;
+          }
+          await dataStore.addUser({ ...data, id: generateId(), status: 'ACTIVE' });
+          await refreshData(['users']);
+      } catch (err) {
+          reportError("Failed to add user.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const handleEditUser = async (id: string, data: Partial<User>) => {
+      setLoading(true);
+      try {
+          // Validate against the live table so inactive rows and other admins' edits are considered
+          const allUsers = await dataStore.getUsers(true);
+          const original = allUsers.find(u => u.id === id);
+          if (!original) {
+              alert("User record not found.");
+              return;
+          }
+
+          const updatedUser: User = {
+              ...original,
+              ...data,
+              // A blank password field keeps the existing password
+              password: data.password || original.password
+          };
+
+          const error = validateUserChange(allUsers, updatedUser, id);
+          if (error) {
+              alert(error);
+              return;
+          }
+
+          await dataStore.updateUser(updatedUser);
+          // Keep the signed-in session in sync when editing yourself
+          if (id === user?.id) setUser({ ...user, ...updatedUser });
+          await refreshData(['users']);
+      } catch (err) {
+          const retry = async () => {
+              const allUsers = await dataStore.getUsers(true);
+              const latest = allUsers.find(u => u.id === id);
+              if (!latest) throw new RowConflictError('User', id, 'MISSING');
+              const rebased: User = { ...latest, ...data, password: data.password || latest.password, updatedAt: latest.updatedAt };
+              const error = validateUserChange(allUsers, rebased, id);
+              if (error) throw new Error(error);
+              await dataStore.updateUser(rebased);
+          };
+          if (showConflict(err, retry)) return;
+          reportError("Failed to update user.", err);
+      } finally {
+          setLoading(false);
+      }
   };
 
   const handleAddCenter = async (data: any, silent = false) => {
       if (!silent) setLoading(true);
       
-      const newCenter = { ...data, id: data.id || generateId(), status: 'ACTIVE' };
-      
-      // Optimistic update for responsiveness
-      setCenters(prev => [...prev, newCenter]);
+      // Optimistic update for responsiveness, under a temporary ID until the real one is reserved
+      const tempId = data.id || generateId();
+      setCenters(prev => [...prev, { ...data, id: tempId, status: 'ACTIVE' }]);
 
       try {
-          await googleSheetService.addCenter(newCenter);
-          if (!silent) await loadAllData();
+          const id = data.id || (await dataStore.reserveIds('CENTER', 1, data.branchId))[0];
+          await dataStore.addCenter({ ...data, id, status: 'ACTIVE' });
+          setCenters(prev => prev.map(c => c.id === tempId ? { ...c, id } : c));
+          if (!silent) await refreshData(['centers']);
       } catch (err) {
-          console.error("Failed to add center", err);
-          if (!silent) alert("Failed to add center to database. Please retry.");
+          // Undo the optimistic entry so the list does not show a center that was never saved
+          setCenters(prev => prev.filter(c => c.id !== tempId));
+          reportError("Failed to add center to database.", err);
       } finally {
           if (!silent) setLoading(false);
       }
@@ -292,11 +698,11 @@ const App: React.FC = () => {
               return;
           }
           const updated: Center = { ...original, ...data };
-          await googleSheetService.updateCenter(updated);
-          await loadAllData();
+          await dataStore.updateCenter(updated);
+          await refreshData(['centers']);
       } catch (err) {
-          console.error("Failed to update center", err);
-          alert("Failed to update center. Check console/logs.");
+          if (showConflict(err, reapplyOnLatest(() => dataStore.getCenters(true), id, latest => dataStore.updateCenter({ ...latest, ...data, updatedAt: latest.updatedAt })))) return;
+          reportError("Failed to update center.", err);
       } finally {
           setLoading(false);
       }
@@ -305,19 +711,159 @@ const App: React.FC = () => {
   // Singular add - kept for compatibility
   const handleAddCenterRecord = async (data: any) => {
       setLoading(true);
-      await googleSheetService.addCollections([{ id: generateId(), createdAt: new Date().toISOString(), ...data }]);
-      await loadAllData();
+      try {
+          await dataStore.addCollections([{ id: generateId(), createdAt: new Date().toISOString(), ...data }]);
+          await refreshData(['collections']);
+      } catch (err) {
+          reportError("Failed to save collection record.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  // --- OFFLINE COLLECTION QUEUE ---
+  // Staged deposits live in IndexedDB as drafts until Final Submit, then until the backend accepts them.
+  // Each keeps its ID through every retry and addCollections skips IDs it already stored, so a resend never duplicates rows.
+
+  // Adds new entries to the outbox, or replaces the ones with the same key
+  const saveStaged = async (entries: QueuedCollection[]) => {
+      const changed = new Map(entries.map(e => [e.key, e]));
+      setPendingCollections(prev => [...entries.filter(e => !prev.some(p => p.key === e.key)), ...prev.map(p => changed.get(p.key) || p)]);
+      try {
+          await collectionQueue.put(entries);
+      } catch (err) {
+          reportError("Failed to save staged deposits on this device.", err);
+      }
+  };
+
+  const handleStageCollections = async (data: Omit<CenterCollectionRecord, 'id' | 'createdAt' | 'status'>[]) => {
+      if (!user) return;
+      await saveStaged(data.map(d => {
+          const record: CenterCollectionRecord = { ...d, id: generateId(), createdAt: new Date().toISOString(), status: 'PENDING' };
+          return { key: queueKey(user.id, record.id), userId: user.id, record, version: 1, submitted: false };
+      }));
+  };
+
+  // Drafts and deposits the backend refused can still be changed (an edit makes them a draft again);
+  // a submitted one may already be on its way
+  const handleUpdateStagedCollection = async (record: CenterCollectionRecord) => {
+      const entry = pendingCollections.find(e => e.record.id === record.id);
+      if (!entry || (entry.submitted && !entry.error)) return;
+      await saveStaged([{ ...entry, record, version: entry.version + 1, submitted: false, error: undefined }]);
+  };
+
+  const handleRemoveStagedCollection = async (id: string) => {
+      const entry = pendingCollections.find(e => e.record.id === id);
+      if (!entry || (entry.submitted && !entry.error)) return;
+      setPendingCollections(prev => prev.filter(e => e.key !== entry.key));
+      try {
+          await collectionQueue.remove([entry.key]);
+      } catch (err) {
+          reportError("Failed to save staged deposits on this device.", err);
+      }
   };
 
-  // Bulk add handler for sync
-  const handleBulkAddCenterRecords = async (records: CenterCollectionRecord[]) => {
+  // Final Submit: the drafts join the retry queue and are sent right away
+  const handleSubmitStagedCollections = async () => {
+      const drafts = pendingCollections.filter(e => !e.submitted);
+      if (drafts.length > 0) await saveStaged(drafts.map(e => ({ ...e, version: e.version + 1, submitted: true })));
+      return syncPendingCollections(true);
+  };
+
+  // The backend said no to the data itself, so sending it again unchanged would only fail again
+  const isRejection = (err: unknown) =>
+      err instanceof InvalidRecordError || (err instanceof AccessDeniedError && err.reason === 'FORBIDDEN');
+
+  // Sends what was submitted; background retries only flag a failure, a manual submit reports it.
+  // A refused batch is resent record by record, so one bad deposit is set aside instead of holding up the rest.
+  // Returns true once nothing submitted is left waiting.
+  const syncPendingCollections = async (manual = false) => {
+      if (!user || isSyncingCollections.current) return false;
+      isSyncingCollections.current = true;
+      try {
+          const queued = (await collectionQueue.list(user.id)).filter(e => e.submitted && !e.error);
+          if (queued.length === 0) return true;
+          const send = async (batch: QueuedCollection[]) => {
+              try {
+                  await dataStore.addCollections(batch.map(e => ({ ...e.record, status: 'ACTIVE' })));
+                  await collectionQueue.removeSent(batch);
+              } catch (err) {
+                  if (!isRejection(err)) throw err;
+                  if (batch.length > 1) {
+                      for (const entry of batch) await send([entry]);
+                  } else {
+                      await collectionQueue.reject(batch[0], describeError(err));
+                  }
+              }
+          };
+          await send(queued);
+          setCollectionSyncError(null);
+          await refreshData(['collections']);
+          return true;
+      } catch (err) {
+          if (manual) reportError("Failed to sync staged deposits. They are kept on this device and will be retried.", err);
+          setCollectionSyncError(describeError(err));
+          return false;
+      } finally {
+          isSyncingCollections.current = false;
+          const entries = await collectionQueue.list(user.id).catch(() => null);
+          if (entries) setPendingCollections(entries);
+      }
+  };
+
+  // Load whatever this user left in the outbox on an earlier visit
+  useEffect(() => {
+      setPendingCollections([]);
+      setCollectionSyncError(null);
+      if (!user) return;
+      collectionQueue.list(user.id)
+          .then(setPendingCollections)
+          .catch(err => console.error("Failed to read staged deposits on this device.", err));
+  }, [user?.id]);
+
+  // Retry submitted deposits while signed in: when the browser comes back online, and every 30 seconds
+  const queuedCollectionCount = pendingCollections.filter(e => e.submitted && !e.error).length;
+  const rejectedCollectionCount = pendingCollections.filter(e => e.error).length;
+  useEffect(() => {
+      if (!user || queuedCollectionCount === 0) return;
+      const retry = () => { syncPendingCollections(); };
+      const interval = setInterval(retry, 30_000);
+      window.addEventListener('online', retry);
+      return () => {
+          clearInterval(interval);
+          window.removeEventListener('online', retry);
+      };
+  }, [user, queuedCollectionCount]);
+
+  const handleEditCenterRecord = async (id: string, data: Partial<CenterCollectionRecord>, reason: string) => {
       setLoading(true);
       try {
-          await googleSheetService.addCollections(records);
-          await loadAllData();
+          const original = centerRecords.find(r => r.id === id);
+          if (!original) {
+              alert("Collection record not found in local state.");
+              return;
+          }
+          await dataStore.updateCollection({ ...original, ...data, id }, reason);
+          await refreshData(['collections']);
       } catch (err) {
-          console.error("Bulk sync failed", err);
-          alert("Failed to sync records to Google Sheets. Please check connection.");
+          reportError("Failed to update collection record.", err);
+      } finally {
+          setLoading(false);
+      }
+  };
+
+  const handleDeleteCenterRecord = async (id: string) => {
+      setLoading(true);
+      try {
+          const original = centerRecords.find(r => r.id === id);
+          if (!original) {
+              alert("Collection record not found in local state.");
+              return;
+          }
+          await dataStore.deleteCollection(original);
+          await refreshData(['collections']);
+      } catch (err) {
+          reportError("Failed to delete collection record.", err);
       } finally {
           setLoading(false);
       }
@@ -326,105 +872,543 @@ const App: React.FC = () => {
   const handleSaveTarget = async (target: Target) => {
       setLoading(true);
       try {
-          await googleSheetService.saveTarget(target);
-          await loadAllData();
+          await dataStore.saveTarget(target);
+          await refreshData(['targets']);
       } catch (err) {
-          console.error("Failed to save target", err);
-          alert("Failed to save target.");
+          const retry = reapplyOnLatest(() => dataStore.getTargets(), target.id, latest =>
+              dataStore.saveTarget({ ...latest, collectionTarget: target.collectionTarget, accountTarget: target.accountTarget })
+          );
+          if (showConflict(err, retry)) return;
+          reportError("Failed to save target.", err);
       } finally {
           setLoading(false);
       }
   };
 
+  // --- SOFT DELETE / REACTIVATE ---
+
+  const findRecord = (entity: DeactivatableEntity, id: string, source: InactiveRecordSet) => {
+    switch (entity) {
+      case 'BRANCH': return source.branches.find(b => b.id === id);
+      case 'USER': return source.users.find(u => u.id === id);
+      case 'EMPLOYEE': return source.employees.find(e => e.id === id);
+      case 'CENTER': return source.centers.find(c => c.id === id);
+      case 'ACCOUNT': return source.accounts.find(a => String(a.id) === id);
+    }
+  };
+
+  const recordName = (entity: DeactivatableEntity, record: any): string => {
+    switch (entity) {
+      case 'BRANCH': return record.name;
+      case 'USER': return `${record.name} (@${record.username})`;
+      case 'EMPLOYEE': return `${record.name} (${record.id})`;
+      case 'CENTER': return `${record.centerName} (#${record.centerCode})`;
+      case 'ACCOUNT': return record.account_code;
+    }
+  };
+
+  const setRecordStatus = (entity: DeactivatableEntity, record: any, status: RecordStatus) => {
+    switch (entity) {
+      case 'BRANCH': return dataStore.setBranchStatus(record, status);
+      case 'USER': return dataStore.setUserStatus(record, status);
+      case 'EMPLOYEE': return dataStore.setEmployeeStatus(record, status);
+      case 'CENTER': return dataStore.setCenterStatus(record, status);
+      case 'ACCOUNT': return dataStore.setAccountStatus(record, status);
+    }
+  };
+
+  const requestDeactivate = (entity: DeactivatableEntity, id: string | number) => {
+    if (entity === 'USER' && id === user?.id) {
+        alert("You cannot deactivate your own account.");
+        return;
+    }
+    if (entity === 'USER' && isLastSuperAdmin(users, String(id))) {
+        alert("This is the last active Super Admin and cannot be deactivated.");
+        return;
+    }
+    setPendingDeactivation({ entity, id: String(id) });
+  };
+
+  const handleConfirmDeactivate = async () => {
+    if (!pendingDeactivation) return;
+    const { entity, id } = pendingDeactivation;
+    const record = findRecord(entity, id, { branches, users, employees, centers, accounts });
+    setPendingDeactivation(null);
+    if (!record) {
+        alert(`${ENTITY_LABELS[entity]} record not found in local state.`);
+        return;
+    }
+
+    setLoading(true);
+    try {
+        await setRecordStatus(entity, record, 'INACTIVE');
+        await refreshData([ENTITY_TABS[entity]]);
+    } catch (err) {
+        reportError(`Failed to deactivate ${ENTITY_LABELS[entity].toLowerCase()}.`, err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const loadInactiveRecords = async () => {
+    setLoading(true);
+    try {
+        const [b, u, e, c, a] = await Promise.all([
+            dataStore.getBranches(true),
+            can('USER', 'DELETE') ? dataStore.getUsers(true) : Promise.resolve([]),
+            dataStore.getEmployees(true),
+            dataStore.getCenters(true),
+            dataStore.getAccounts(true)
+        ]);
+        const inactive = (r: { status?: string }) => r.status === 'INACTIVE';
+        setInactiveRecords({
+            branches: b.filter(inactive),
+            users: u.filter(inactive),
+            employees: e.filter(inactive),
+            centers: c.filter(inactive),
+            accounts: a.filter(inactive)
+        });
+    } catch (err) {
+        reportError("Failed to load inactive records.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const handleReactivate = async (entity: DeactivatableEntity, id: string) => {
+    const record = findRecord(entity, id, inactiveRecords);
+    if (!record) return;
+    setLoading(true);
+    try {
+        await setRecordStatus(entity, record, 'ACTIVE');
+        await Promise.all([refreshData([ENTITY_TABS[entity]]), loadInactiveRecords()]);
+    } catch (err) {
+        reportError(`Failed to reactivate ${ENTITY_LABELS[entity].toLowerCase()}.`, err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (currentView === View.INACTIVE_RECORDS && user) loadInactiveRecords();
+  }, [currentView]);
+
+  // --- AUDIT LOG ---
+  // Always re-read: other users' changes land in the log too
+  const loadAuditLog = async () => {
+    setLoading(true);
+    try {
+        await dataStore.prefetch(['auditLog'], true);
+        setAuditEntries(await dataStore.getAuditLog());
+    } catch (err) {
+        reportError("Failed to load the audit log.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (currentView === View.AUDIT_LOG && user) loadAuditLog();
+  }, [currentView]);
+
+  // --- ACTIVE SESSIONS ---
+  const loadSessions = async () => {
+    setLoading(true);
+    try {
+        setActiveSessions(await dataStore.getSessions());
+    } catch (err) {
+        reportError("Failed to load the active sessions.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (currentView === View.SESSIONS && user) loadSessions();
+  }, [currentView]);
+
+  const handleRevokeSession = async (session: SessionInfo) => {
+    try {
+        await dataStore.revokeSession(session.id);
+    } catch (err) {
+        reportError("Failed to revoke the session.", err);
+    }
+    await loadSessions();
+  };
+
+  // --- LOGIN SECURITY ---
+  const loadLoginSecurity = async () => {
+    setLoading(true);
+    try {
+        const [history, locked] = await Promise.all([dataStore.getLoginHistory(), dataStore.getLockouts()]);
+        setLoginHistory(history);
+        setLockouts(locked);
+    } catch (err) {
+        reportError("Failed to load the login history.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (currentView === View.LOGIN_SECURITY && user) loadLoginSecurity();
+  }, [currentView]);
+
+  const handleUnlockLogin = async (lockout: LoginLockout) => {
+    try {
+        await dataStore.unlockLogin(lockout.username);
+    } catch (err) {
+        reportError(`Failed to unlock ${lockout.username}.`, err);
+    }
+    await loadLoginSecurity();
+  };
+
+  // --- ROLE PERMISSIONS ---
+  const handleSavePermissions = async (rows: RolePermissions[]) => {
+    setLoading(true);
+    try {
+        await dataStore.savePermissions(rows);
+        await refreshData(['permissions']);
+        return true;
+    } catch (err) {
+        // Someone else saved the matrix meanwhile; a retry stores these choices over theirs
+        const retry = () => dataStore.savePermissions(rows.map(({ rowIndex, updatedAt, ...row }) => row));
+        if (!showConflict(err, retry)) reportError("Failed to save role permissions.", err);
+        return false;
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  // --- DATA HEALTH ---
+  const loadHealthData = async () => {
+    setLoading(true);
+    try {
+        await dataStore.prefetch(['branches', 'users', 'employees', 'centers', 'accounts', 'collections'], true);
+        const [b, u, e, c, a, r] = await Promise.all([
+            dataStore.getBranches(true),
+            can('USER', 'EDIT') ? dataStore.getUsers(true) : Promise.resolve([]),
+            dataStore.getEmployees(true),
+            dataStore.getCenters(true),
+            dataStore.getAccounts(true),
+            dataStore.getCollections()
+        ]);
+        setHealthData({ branches: b, users: u, employees: e, centers: c, accounts: a, records: r });
+    } catch (err) {
+        reportError("Failed to scan data health.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  // Applies one guided fix; value is the branch or employee picked, or which duplicate to deactivate
+  const handleHealthFix = async (issue: HealthIssue, fix: HealthFix, value?: string) => {
+    const recordId = fix.action === 'DEACTIVATE' && value ? value : issue.recordId;
+    setLoading(true);
+    try {
+        if (issue.entity === 'COLLECTION') {
+            const record = healthData.records.find(r => r.id === recordId);
+            if (!record) {
+                alert("Collection record not found. Rescan and try again.");
+                return;
+            }
+            if (fix.action === 'CREATE_CENTER') {
+                const [id] = await dataStore.reserveIds('CENTER', 1, record.branchId);
+                await dataStore.addCenter({
+                    id,
+                    centerCode: record.centerCode,
+                    centerName: `Center ${record.centerCode}`,
+                    branchId: record.branchId,
+                    assignedEmployeeId: record.employeeId,
+                    type: record.type,
+                    status: 'ACTIVE'
+                });
+            } else {
+                const change = fix.action === 'SET_BRANCH' ? { branchId: value! } : { employeeId: value! };
+                await dataStore.updateCollection({ ...record, ...change }, `Data Health repair: ${issue.problem}`);
+            }
+            await Promise.all([refreshData(['collections', 'centers']), loadHealthData()]);
+            return;
+        }
+
+        const record: any = findRecord(issue.entity, recordId, healthData);
+        if (!record) {
+            alert(`${ENTITY_LABELS[issue.entity]} record not found. Rescan and try again.`);
+            return;
+        }
+        switch (fix.action) {
+            case 'DEACTIVATE':
+                if (issue.entity === 'USER' && (record.id === user?.id || isLastSuperAdmin(healthData.users, record.id))) {
+                    alert("You cannot deactivate your own account or the last active Super Admin.");
+                    return;
+                }
+                await setRecordStatus(issue.entity, record, 'INACTIVE');
+                break;
+            case 'SET_BRANCH':
+                if (issue.entity === 'EMPLOYEE') await dataStore.updateEmployee({ ...record, branch_id: value! });
+                if (issue.entity === 'USER') await dataStore.updateUser({ ...record, branch_id: value! });
+                if (issue.entity === 'CENTER') await dataStore.updateCenter({ ...record, branchId: value! });
+                break;
+            case 'SET_EMPLOYEE':
+                await dataStore.updateCenter({ ...record, assignedEmployeeId: value! });
+                break;
+            case 'UNLINK_EMPLOYEE':
+                await dataStore.updateUser({ ...record, employee_id: undefined });
+                break;
+            case 'UNASSIGN_BRANCH':
+                await dataStore.updateUser({ ...record, branch_ids: (record.branch_ids || []).filter((id: string) => id !== value) });
+                break;
+        }
+        await Promise.all([refreshData([ENTITY_TABS[issue.entity]]), loadHealthData()]);
+    } catch (err) {
+        reportError("Failed to repair the record.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (currentView === View.DATA_HEALTH && user) loadHealthData();
+  }, [currentView]);
+
+  // --- BACKUP & RESTORE ---
+  // With the API backend a backup can also be restored into this browser's IndexedDB, for use with REACT_APP_DATA_BACKEND=local
+  const restoreTargets: { value: RestoreTarget; label: string }[] = DATA_BACKEND === 'api'
+    ? [{ value: 'SPREADSHEET', label: 'Spreadsheet (must be empty)' }, { value: 'LOCAL', label: 'This browser\'s local storage' }]
+    : [{ value: 'LOCAL', label: 'This browser\'s local storage' }];
+
+  const restoreStore = (target: RestoreTarget): DataStore => target === 'LOCAL' && DATA_BACKEND !== 'local' ? new MemoryDataStore() : dataStore;
+
+  const handleDownloadBackup = async () => {
+    setLoading(true);
+    try {
+        const tables = await dataStore.exportTables();
+        await saveZip(createBackupFiles(tables, user?.username || ''), `Salary_Backup_${new Date().toISOString().slice(0, 10)}`);
+    } catch (err) {
+        reportError("Failed to create the backup.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const loadRestoreTarget = async (target: RestoreTarget) => {
+    try {
+        return await restoreStore(target).exportTables();
+    } catch (err) {
+        reportError("Failed to read the current data.", err);
+        return null;
+    }
+  };
+
+  const handleRestoreBackup = async (backup: Backup, target: RestoreTarget) => {
+    setLoading(true);
+    try {
+        const store = restoreStore(target);
+        await store.restoreTables(backup.tables);
+        if (store === dataStore) {
+            await loadAllData();
+            alert("Backup restored.");
+        } else {
+            alert("Backup restored into this browser's local storage. Start the app with REACT_APP_DATA_BACKEND=local to work with it.");
+        }
+        return true;
+    } catch (err) {
+        reportError("Failed to restore the backup.", err);
+        return false;
+    } finally {
+        setLoading(false);
+    }
+  };
+
   // UI Filtering
+  // The branches the user works with: every branch, or the ones they are assigned to
+  const assignedBranches = useMemo(() => {
+    if (seesAllBranches) return branches;
+    return branches.filter(b => !!access?.branchIds.includes(b.id));
+  }, [branches, access, seesAllBranches]);
+
+  // Regions of the branches above (those without one left out), for picking a whole region or zone at once
+  const regionZones = useMemo(() => groupByZone(groupByRegion(assignedBranches, regions).filter(group => group.region)), [assignedBranches, regions]);
+
   const visibleBranches = useMemo(() => {
-    if (isGlobalOps) {
-        // If branches are selected, filter for dashboard, otherwise show all
-        return selectedBranchIds.length > 0 
-            ? branches.filter(b => selectedBranchIds.includes(b.id)) 
-            : branches;
-    }
-    if ((isManager || isNormalUser) && user?.branch_id) return branches.filter(b => b.id === user.branch_id);
-    return [];
-  }, [branches, user, isGlobalOps, isManager, isNormalUser, selectedBranchIds]);
+    // If branches are selected, filter for dashboard, otherwise show all of them
+    const selected = assignedBranches.filter(b => selectedBranchIds.includes(b.id));
+    return selected.length > 0 ? selected : assignedBranches;
+  }, [assignedBranches, selectedBranchIds]);
 
   const visibleEmployees = useMemo(() => {
+    if (!access) return [];
     if (isNormalUser && user?.employee_id) return employees.filter(e => e.id === user.employee_id);
-    if (isGlobalOps) return employees;
-    if (isManager && user?.branch_id) return employees.filter(e => e.branch_id === user.branch_id);
-    return [];
-  }, [employees, user, isGlobalOps, isManager, isNormalUser]);
+    return employees.filter(e => access.canSee('EMPLOYEE', e.branch_id, e.id));
+  }, [employees, user, access, isNormalUser]);
 
   const visibleAccounts = useMemo(() => {
-    if (isGlobalOps) return accounts;
-    if (isManager && user?.branch_id) return accounts.filter(a => a.branch_id === user.branch_id);
+    if (!access) return [];
     if (isNormalUser && user?.employee_id) return accounts.filter(a => a.opened_by_employee_id === user.employee_id);
-    return [];
-  }, [accounts, user, isGlobalOps, isManager, isNormalUser]);
+    return accounts.filter(a => access.canSee('ACCOUNT', a.branch_id, a.opened_by_employee_id));
+  }, [accounts, user, access, isNormalUser]);
   
   const visibleCenters = useMemo(() => {
-      if (isGlobalOps) return centers;
-      if ((isManager || isNormalUser) && user?.branch_id) return centers.filter(c => c.branchId === user.branch_id);
-      return [];
-  }, [centers, user, isGlobalOps, isManager, isNormalUser]);
+      if (!access) return [];
+      return centers.filter(c => access.inScope(c.branchId));
+  }, [centers, access]);
 
   // Generation Logic
-  const handleGenerate = () => {
-    if (isNormalUser) { alert("Access Denied."); return; }
+  const handleGenerate = async () => {
+    if (!can('SALARY', 'VIEW')) { alert("Access Denied."); return; }
 
     let targetBranches = selectedBranchIds;
-    if (isManager && user?.branch_id) {
-       targetBranches = [user.branch_id];
+    if (!seesAllBranches) {
+       // Users covering several branches may pick among them; with none picked, the sheet covers all of them
+       const assigned = access?.branchIds || [];
+       const picked = selectedBranchIds.filter(id => assigned.includes(id));
+       targetBranches = picked.length > 0 ? picked : assigned;
        setSelectedBranchIds(targetBranches);
     }
 
     if (targetBranches.length === 0) { alert("Please select at least one branch."); return; }
 
-    const newSheet: SalarySheet = {
-      id: generateId(),
-      month: selectedMonth,
-      branch_ids: targetBranches,
-      created_at: new Date().toISOString()
-    };
+    setLoading(true);
+    try {
+        // Reopen a saved sheet for the same month and branch set instead of starting a blank one
+        const branchKey = [...targetBranches].sort().join(',');
+        const savedSheets = await dataStore.getSalarySheets();
+        let sheet = savedSheets.find(s => s.month === selectedMonth && [...s.branch_ids].sort().join(',') === branchKey);
+        let savedEntries: SalaryEntry[] = [];
+
+        if (sheet) {
+            savedEntries = await dataStore.getSalaryEntries(sheet.id);
+        } else if (!can('SALARY', 'CREATE')) {
+            alert("No salary sheet has been saved for this month and branch selection yet.");
+            return;
+        } else {
+            sheet = {
+              id: generateId(),
+              month: selectedMonth,
+              branch_ids: targetBranches,
+              created_at: new Date().toISOString()
+            };
+            await dataStore.addSalarySheet(sheet);
+        }
 
-    const targetEmployees = employees.filter(e => targetBranches.includes(e.branch_id));
-    
-    const newEntries = targetEmployees.map(emp => {
-        return recalculateEntry(
-          createEmptyEntry(newSheet.id, emp.id, emp.base_salary, emp.commission_type), 
-          emp.base_salary,
-          commissionRates
-        );
-    });
+        // Employees without a saved entry (new sheet or hired after it was created) get a fresh one
+        const sheetId = sheet.id;
+        const targetEmployees = employees.filter(e => targetBranches.includes(e.branch_id));
+        const missingEntries = targetEmployees
+          .filter(emp => !savedEntries.some(e => e.employee_id === emp.id))
+          .map(emp => recalculateEntry(
+            createEmptyEntry(sheetId, emp.id, emp.base_salary, emp.commission_type), 
+            emp.base_salary,
+            commissionRates
+          ));
+
+        if (missingEntries.length > 0 && can('SALARY', 'CREATE')) {
+            await dataStore.addSalaryEntries(missingEntries);
+            // Reload so appended rows carry their rowIndex for later updates
+            savedEntries = await dataStore.getSalaryEntries(sheetId);
+        }
+
+        setCurrentSheet(sheet);
+        setEntries(savedEntries);
+        setIsGenerated(true);
+        setCurrentView(View.SHEET);
+    } catch (err) {
+        reportError("Failed to load or save the salary sheet.", err);
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const saveEntry = async (entry: SalaryEntry) => {
+    try {
+        await dataStore.updateSalaryEntry(entry);
+    } catch (err) {
+        reportError(`Failed to save salary entry for ${entry.employee_id}.`, err);
+    }
+  };
 
-    setCurrentSheet(newSheet);
-    setEntries(newEntries);
-    setIsGenerated(true);
-    setCurrentView(View.SHEET);
+  // Sends every save still waiting out its debounce right away
+  const flushEntrySaves = () => {
+    const pending = Object.values(pendingEntrySaves.current);
+    pendingEntrySaves.current = {};
+    return pending.map(({ timer, entry }) => {
+        clearTimeout(timer);
+        return saveEntry(entry);
+    });
   };
 
   const handleUpdateRow = (updatedEntry: SalaryEntry) => {
     setEntries(prev => prev.map(e => e.id === updatedEntry.id ? updatedEntry : e));
+
+    // Debounce per entry so typing into a cell does not write on every keystroke
+    const waiting = pendingEntrySaves.current[updatedEntry.id];
+    if (waiting) clearTimeout(waiting.timer);
+    pendingEntrySaves.current[updatedEntry.id] = {
+        entry: updatedEntry,
+        timer: setTimeout(() => {
+            delete pendingEntrySaves.current[updatedEntry.id];
+            saveEntry(updatedEntry);
+        }, 800)
+    };
   };
 
-  const handleAccountScanned = (code: string) => {
+  // Edits still waiting are sent when another sheet is opened and when the app goes away
+  useEffect(() => () => { flushEntrySaves(); }, [currentSheet?.id]);
+
+  useEffect(() => {
+    const onBeforeUnload = (event: BeforeUnloadEvent) => {
+        // Asking the user to confirm leaving gives the saves time to reach the backend
+        if (flushEntrySaves().length > 0) event.preventDefault();
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, []);
+
+  const handleAccountScanned = async (code: string) => {
     const normalizedCode = code.trim().toLowerCase();
+    const scanned = accounts.find(acc => acc.account_code.toLowerCase() === normalizedCode);
+    if (!scanned) return;
+
+    const sheetId = currentSheet ? currentSheet.id : null;
     setAccounts(prev => prev.map(acc => {
-      if (acc.account_code.toLowerCase() === normalizedCode) {
+      if (acc.id === scanned.id) {
         return {
           ...acc,
           is_counted: true,
           counted_month: selectedMonth,
-          salary_sheet_id: currentSheet ? currentSheet.id : null
+          salary_sheet_id: sheetId
         };
       }
       return acc;
     }));
+
+    try {
+        await dataStore.markAccountCounted(scanned, selectedMonth, sheetId);
+    } catch (err) {
+        reportError(`Account ${scanned.account_code} was counted locally but could not be saved. Sync and retry.`, err);
+    }
+  };
+
+  const handleUncountAccount = async (id: number, reason: string) => {
+    const original = accounts.find(a => a.id === id);
+    if (!original) {
+        alert("Account record not found in local state.");
+        return;
+    }
+    setLoading(true);
+    try {
+        await dataStore.uncountAccount(original, reason);
+        await refreshData(['accounts']);
+    } catch (err) {
+        reportError("Failed to revert counted account.", err);
+    } finally {
+        setLoading(false);
+    }
   };
 
   // Grid Calculation
   const gridRows: SalaryRow[] = useMemo(() => {
-    if (isNormalUser) return [];
+    if (!access?.can('SALARY', 'VIEW')) return [];
 
     // --- CALCULATE BRANCH TOTALS ---
     const branchTotals: Record<string, number> = {};
@@ -461,7 +1445,7 @@ const App: React.FC = () => {
     return entries.map(entry => {
       const employee = employees.find(e => e.id === entry.employee_id);
       if (!employee) return null;
-      if (isManager && user?.branch_id && employee.branch_id !== user.branch_id) return null;
+      if (!access.inScope(employee.branch_id, employee.id)) return null;
 
       const branch = branches.find(b => b.id === employee.branch_id) || { id: 'unknown', name: 'Unknown' } as Branch;
 
@@ -529,7 +1513,7 @@ const App: React.FC = () => {
 
       return { ...calculatedEntry, employee, branch };
     }).filter((row): row is SalaryRow => row !== null);
-  }, [entries, employees, branches, isManager, isNormalUser, user, centerRecords, commissionRates, selectedMonth, centers]); 
+  }, [entries, employees, branches, access, user, centerRecords, commissionRates, selectedMonth, centers]); 
 
   const toggleBranch = (id: string) => {
     setSelectedBranchIds(prev => 
@@ -537,6 +1521,16 @@ const App: React.FC = () => {
     );
   };
 
+  // A region or zone: selects its branches, or clears them when all of them are selected already
+  const toggleBranchGroup = (group: Branch[]) => {
+    const ids = group.map(b => b.id);
+    setSelectedBranchIds(prev => ids.every(id => prev.includes(id))
+      ? prev.filter(id => !ids.includes(id))
+      : [...new Set([...prev, ...ids])]);
+  };
+
+  const isGroupSelected = (group: Branch[]) => group.every(b => selectedBranchIds.includes(b.id));
+
   // Close dropdown logic
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -548,13 +1542,41 @@ const App: React.FC = () => {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  if (isResumingSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <RefreshCw className="animate-spin text-blue-600" size={32} />
+      </div>
+    );
+  }
+
   if (!user) {
-    return <Login onLogin={setUser} users={users} />; 
+    return <Login onLogin={handleLogin} />;
+  }
+
+  if (user.mustChangePassword) {
+    return <ChangePassword user={user} onChangePassword={handleChangePassword} onSignOut={handleSignOut} />;
+  }
+
+  const twoFactorSetup = (
+    <TwoFactorSetup
+      user={user}
+      required={!!user.mustSetUpTwoFactor || !!permissions[user.role]?.requireTwoFactor}
+      onEnable={handleEnableTwoFactor}
+      onReplaceCodes={handleReplaceRecoveryCodes}
+      onDisable={handleDisableTwoFactor}
+      onDone={handleTwoFactorDone}
+      onSignOut={handleSignOut}
+    />
+  );
+
+  if (user.mustSetUpTwoFactor) {
+    return twoFactorSetup;
   }
 
   // --- ACCESS CONTROLLED VIEWS ---
-  // Block access to System Users if not SUPER_ADMIN
-  if (currentView === View.MANAGE_USERS && !isSystemAdmin) {
+  // Block access to System Users without permission to edit them
+  if (currentView === View.MANAGE_USERS && !can('USER', 'EDIT')) {
       return (
           <div className="min-h-screen flex items-center justify-center bg-slate-50 flex-col gap-4">
               <ShieldAlert size={48} className="text-red-500" />
@@ -567,8 +1589,8 @@ const App: React.FC = () => {
       );
   }
 
-  // Block access to Targets if not SUPER_ADMIN
-  if (currentView === View.MANAGE_TARGETS && !isSystemAdmin) {
+  // Block access to Targets without permission to set them
+  if (currentView === View.MANAGE_TARGETS && !can('TARGET', 'EDIT')) {
       return (
           <div className="min-h-screen flex items-center justify-center bg-slate-50 flex-col gap-4">
               <ShieldAlert size={48} className="text-red-500" />
@@ -607,7 +1629,7 @@ const App: React.FC = () => {
             <LayoutDashboard size={20} /> <span>Dashboard</span>
           </button>
           
-          {!isNormalUser && (
+          {can('SALARY', 'VIEW') && (
             <button onClick={() => setCurrentView(View.SHEET)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.SHEET ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
                 <Table size={20} /> <span>Salary Sheets</span>
             </button>
@@ -632,7 +1654,7 @@ const App: React.FC = () => {
           <div className="pt-4 mt-2 border-t border-slate-800">
             <div className="text-xs font-semibold text-slate-500 uppercase px-4 py-2">Management</div>
             
-            {!isNormalUser && (
+            {can('EMPLOYEE', 'CREATE') && (
                 <button onClick={() => setCurrentView(View.ADD_EMPLOYEE)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.ADD_EMPLOYEE ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
                     <UserPlus size={20} /> <span>Add Employee</span>
                 </button>
@@ -642,36 +1664,75 @@ const App: React.FC = () => {
               <FilePlus size={20} /> <span>Add Account</span>
             </button>
 
-            {isGlobalOps && (
-              <>
+            {can('BRANCH', 'EDIT') && (
                 <button onClick={() => setCurrentView(View.MANAGE_BRANCHES)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.MANAGE_BRANCHES ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
                   <Building size={20} /> <span>Branches</span>
                 </button>
-                {/* Only SUPER ADMIN sees User Management */}
-                {isSystemAdmin && (
-                    <button onClick={() => setCurrentView(View.MANAGE_USERS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.MANAGE_USERS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
-                        <Users size={20} /> <span>System Users</span>
-                    </button>
-                )}
+            )}
+            {can('USER', 'EDIT') && (
+                <button onClick={() => setCurrentView(View.MANAGE_USERS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.MANAGE_USERS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <Users size={20} /> <span>System Users</span>
+                </button>
+            )}
+            {can('CENTER', 'EDIT') && (
                 <button onClick={() => setCurrentView(View.MANAGE_CENTERS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.MANAGE_CENTERS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
                   <MapPin size={20} /> <span>Center Mgmt</span>
                 </button>
-                {/* Only SUPER ADMIN sees Targets Management */}
-                {isSystemAdmin && (
-                    <button onClick={() => setCurrentView(View.MANAGE_TARGETS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.MANAGE_TARGETS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
-                      <TargetIcon size={20} /> <span>Manage Targets</span>
-                    </button>
-                )}
+            )}
+            {can('TARGET', 'EDIT') && (
+                <button onClick={() => setCurrentView(View.MANAGE_TARGETS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.MANAGE_TARGETS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <TargetIcon size={20} /> <span>Manage Targets</span>
+                </button>
+            )}
+            {can('COMMISSION', 'EDIT') && (
                 <button onClick={() => setCurrentView(View.MANAGE_COMMISSIONS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.MANAGE_COMMISSIONS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
                   <Percent size={20} /> <span>Commission Setup</span>
                 </button>
-              </>
+            )}
+            {reactivatableEntities.length > 0 && (
+                <button onClick={() => setCurrentView(View.INACTIVE_RECORDS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.INACTIVE_RECORDS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <Archive size={20} /> <span>Inactive Records</span>
+                </button>
+            )}
+            {can('DATA_HEALTH', 'VIEW') && (
+                <button onClick={() => setCurrentView(View.DATA_HEALTH)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.DATA_HEALTH ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <HeartPulse size={20} /> <span>Data Health</span>
+                </button>
+            )}
+            {can('BACKUP', 'VIEW') && (
+                <button onClick={() => setCurrentView(View.BACKUP)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.BACKUP ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <DatabaseBackup size={20} /> <span>Backup &amp; Restore</span>
+                </button>
+            )}
+            {can('SESSION', 'VIEW') && (
+                <button onClick={() => setCurrentView(View.SESSIONS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.SESSIONS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <MonitorSmartphone size={20} /> <span>Active Sessions</span>
+                </button>
+            )}
+            {can('LOGIN', 'VIEW') && (
+                <button onClick={() => setCurrentView(View.LOGIN_SECURITY)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.LOGIN_SECURITY ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <LockKeyhole size={20} /> <span>Login Security</span>
+                </button>
+            )}
+            {canEditPermissions(user) && (
+                <button onClick={() => setCurrentView(View.PERMISSIONS)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.PERMISSIONS ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <KeyRound size={20} /> <span>Role Permissions</span>
+                </button>
+            )}
+
+            {can('AUDIT_LOG', 'VIEW') && (
+                <button onClick={() => setCurrentView(View.AUDIT_LOG)} className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg transition-all ${currentView === View.AUDIT_LOG ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}>
+                  <History size={20} /> <span>Audit Log</span>
+                </button>
             )}
           </div>
         </nav>
 
-        <div className="p-4 border-t border-slate-800 space-y-4 mt-auto">
-            <button onClick={() => { setUser(null); sessionStorage.removeItem('salary_app_user'); }} className="w-full flex items-center space-x-2 px-4 py-2 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800 transition-colors text-sm font-medium">
+        <div className="p-4 border-t border-slate-800 space-y-2 mt-auto">
+            <button onClick={() => setCurrentView(View.TWO_FACTOR)} className={`w-full flex items-center space-x-2 px-4 py-2 rounded transition-colors text-sm font-medium ${currentView === View.TWO_FACTOR ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}>
+              <Smartphone size={16} /> <span>Two-Factor Sign-in</span>
+            </button>
+            <button onClick={handleSignOut} className="w-full flex items-center space-x-2 px-4 py-2 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800 transition-colors text-sm font-medium">
               <LogOut size={16} /> <span>Sign Out</span>
             </button>
         </div>
@@ -703,15 +1764,37 @@ const App: React.FC = () => {
             {currentView === View.CENTER_CALC && 'Center Quick Calculation'}
             {currentView === View.LEADERBOARD && 'Performance Leaderboard'}
             {currentView === View.MANAGE_COMMISSIONS && 'Commission Rates Setup'}
+            {currentView === View.INACTIVE_RECORDS && 'Inactive Records'}
+            {currentView === View.AUDIT_LOG && 'Audit Log'}
+            {currentView === View.DATA_HEALTH && 'Data Health'}
+            {currentView === View.BACKUP && 'Backup & Restore'}
+            {currentView === View.SESSIONS && 'Active Sessions'}
+            {currentView === View.LOGIN_SECURITY && 'Login Security'}
+            {currentView === View.PERMISSIONS && 'Role Permissions'}
+            {currentView === View.TWO_FACTOR && 'Two-Factor Sign-in'}
           </h2>
           
           <div className="flex items-center space-x-4">
              <button onClick={loadAllData} className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors" title="Sync Data">
                  <RefreshCw size={18} />
              </button>
+
+             {queuedCollectionCount > 0 && (
+                <button onClick={() => syncPendingCollections(true)} className={`flex items-center space-x-1.5 border px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${collectionSyncError ? 'bg-red-50 border-red-200 text-red-700 hover:bg-red-100' : 'bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100'}`} title={collectionSyncError ? `Last attempt failed: ${collectionSyncError} Click to send now.` : "Submitted deposits saved on this device, waiting to be sent. Click to send now."}>
+                    <CloudUpload size={14} />
+                    <span>{queuedCollectionCount} Pending Sync</span>
+                </button>
+             )}
+
+             {rejectedCollectionCount > 0 && (
+                <button onClick={() => setCurrentView(View.CENTER_CALC)} className="flex items-center space-x-1.5 bg-red-50 border border-red-200 text-red-700 px-3 py-1.5 rounded-full text-xs font-bold hover:bg-red-100 transition-colors" title="Deposits the server refused. Open the Center Calculator to fix or delete them.">
+                    <AlertTriangle size={14} />
+                    <span>{rejectedCollectionCount} Rejected</span>
+                </button>
+             )}
              
-             {/* Branch Picker for Global Admins */}
-             {(currentView === View.SHEET || currentView === View.DASHBOARD || currentView === View.LEADERBOARD) && isGlobalOps && (
+             {/* Branch Picker for roles that see every branch, and users covering several */}
+             {(currentView === View.SHEET || currentView === View.DASHBOARD || currentView === View.LEADERBOARD) && assignedBranches.length > 1 && (
                 <div className="relative" ref={dropdownRef}>
                   <button
                     onClick={() => setIsBranchDropdownOpen(!isBranchDropdownOpen)}
@@ -721,7 +1804,7 @@ const App: React.FC = () => {
                     <span>
                       {selectedBranchIds.length === 0 
                         ? 'Select Branches' 
-                        : selectedBranchIds.length === branches.length 
+                        : selectedBranchIds.length === assignedBranches.length 
                           ? 'All Branches' 
                           : `${selectedBranchIds.length} Selected`}
                     </span>
@@ -734,7 +1817,7 @@ const App: React.FC = () => {
                         <span className="text-xs font-bold text-slate-500 uppercase">Filter Branches</span>
                         <div className="flex gap-2">
                           <button 
-                            onClick={() => setSelectedBranchIds(branches.map(b => b.id))}
+                            onClick={() => setSelectedBranchIds(assignedBranches.map(b => b.id))}
                             className="text-[10px] text-blue-600 font-bold hover:underline"
                           >
                             All
@@ -747,8 +1830,36 @@ const App: React.FC = () => {
                           </button>
                         </div>
                       </div>
+                      {regionZones.length > 0 && (
+                        <div className="p-2 border-b border-slate-100 space-y-2">
+                          {regionZones.map(({ zone, groups }) => {
+                            const zoneBranches = groups.flatMap(group => group.branches);
+                            return (
+                              <div key={zone ?? ''}>
+                                <button
+                                  onClick={() => toggleBranchGroup(zoneBranches)}
+                                  className={`text-[10px] font-bold uppercase hover:underline ${isGroupSelected(zoneBranches) ? 'text-blue-600' : 'text-slate-400'}`}
+                                >
+                                  {zoneLabel(zone)}
+                                </button>
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {groups.map(group => (
+                                    <button
+                                      key={group.region!.id}
+                                      onClick={() => toggleBranchGroup(group.branches)}
+                                      className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${isGroupSelected(group.branches) ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                                    >
+                                      {regionLabel(group.region)}
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
                       <div className="max-h-60 overflow-y-auto p-2">
-                        {branches.length > 0 ? branches.map(branch => (
+                        {assignedBranches.length > 0 ? assignedBranches.map(branch => (
                           <div 
                              key={branch.id} 
                              onClick={() => toggleBranch(branch.id)}
@@ -784,12 +1895,15 @@ const App: React.FC = () => {
           </div>
         </header>
 
+        {appError && <ErrorBanner message={appError} onDismiss={() => setAppError(null)} />}
+
         {/* Content Area - Only Render if Data Loaded or Loading */}
         <div className="flex-1 overflow-auto p-6 bg-slate-50 relative">
           
           {currentView === View.DASHBOARD && (
             <Dashboard 
                 branches={visibleBranches} 
+                regions={regions}
                 employees={visibleEmployees} 
                 activeRows={gridRows} 
                 accounts={visibleAccounts} 
@@ -802,18 +1916,18 @@ const App: React.FC = () => {
           )}
 
           {currentView === View.LEADERBOARD && (
-            <Leaderboard rows={gridRows} branches={visibleBranches} month={selectedMonth} accounts={visibleAccounts} />
+            <Leaderboard rows={gridRows} branches={visibleBranches} regions={regions} month={selectedMonth} accounts={visibleAccounts} />
           )}
 
           {currentView === View.REPORT && (
-            <AccountReport accounts={visibleAccounts} employees={visibleEmployees} branches={visibleBranches} onEdit={() => {}} onDelete={() => {}} userRole={user.role} />
+            <AccountReport accounts={visibleAccounts} employees={visibleEmployees} branches={visibleBranches} onEdit={() => {}} onDelete={(id) => requestDeactivate('ACCOUNT', id)} onUncount={handleUncountAccount} canEdit={can('ACCOUNT', 'EDIT')} canDelete={can('ACCOUNT', 'DELETE')} canUncount={can('ACCOUNT', 'APPROVE')} />
           )}
 
           {currentView === View.CENTER_REPORT && (
-            <CenterReport records={centerRecords} branches={visibleBranches} employees={visibleEmployees} centers={visibleCenters} />
+            <CenterReport records={centerRecords} branches={visibleBranches} regions={regions} employees={visibleEmployees} centers={visibleCenters} />
           )}
 
-          {currentView === View.ADD_EMPLOYEE && !isNormalUser && (
+          {currentView === View.ADD_EMPLOYEE && can('EMPLOYEE', 'CREATE') && (
             <AddEmployeeForm 
                 branches={visibleBranches} 
                 existingEmployees={visibleEmployees} 
@@ -821,8 +1935,9 @@ const App: React.FC = () => {
                 onSave={handleAddEmployee} 
                 onBulkSave={handleBulkAddEmployees} 
                 onEdit={handleEditEmployee}
-                onDelete={() => {}} 
-                userRole={user.role} 
+                onDelete={(id) => requestDeactivate('EMPLOYEE', id)} 
+                canEdit={can('EMPLOYEE', 'EDIT')} 
+                canDelete={can('EMPLOYEE', 'DELETE')} 
             />
           )}
           
@@ -840,27 +1955,33 @@ const App: React.FC = () => {
              <CenterCalculation 
                 records={centerRecords} 
                 onAddRecord={handleAddCenterRecord} 
-                onEditRecord={() => {}} 
-                onDeleteRecord={() => {}} 
+                onEditRecord={handleEditCenterRecord} 
+                onDeleteRecord={handleDeleteCenterRecord} 
                 branches={branches} // Pass ALL branches to allow floating staff to select where they are collecting
                 employees={isNormalUser ? visibleEmployees : employees} // Admins/Managers see all employees, Users see self
                 currentUser={user} 
                 centers={centers} // Pass ALL centers to allow global lookup in CenterCalculation
-                // @ts-ignore
-                onBulkAddRecords={handleBulkAddCenterRecords}
+                pendingRecords={pendingCollections}
+                onStageRecords={handleStageCollections}
+                onUpdateStagedRecord={handleUpdateStagedCollection}
+                onRemoveStagedRecord={handleRemoveStagedCollection}
+                onSyncPending={handleSubmitStagedCollections}
                 onCreateCenter={(c) => handleAddCenter(c, true)}
+                readOnly={!can('COLLECTION', 'CREATE')}
+                canEditRecords={can('COLLECTION', 'EDIT')}
+                canDeleteRecords={can('COLLECTION', 'DELETE')}
              />
           )}
 
-          {currentView === View.MANAGE_BRANCHES && isGlobalOps && (
-            <ManageBranches branches={branches} onAdd={handleAddBranch} onEdit={() => {}} onDelete={() => {}} onBulkAdd={handleBulkAddBranches} />
+          {currentView === View.MANAGE_BRANCHES && can('BRANCH', 'EDIT') && (
+            <ManageBranches branches={branches} regions={regions} onAdd={handleAddBranch} onEdit={handleEditBranch} onDelete={(id) => requestDeactivate('BRANCH', id)} onBulkAdd={handleBulkAddBranches} onAddRegion={handleAddRegion} onEditRegion={handleEditRegion} onDeleteRegion={handleDeleteRegion} />
           )}
 
-          {currentView === View.MANAGE_USERS && isSystemAdmin && (
-            <ManageUsers users={users} branches={branches} employees={employees} onAddUser={handleAddUser} onEditUser={() => {}} onDeleteUser={() => {}} />
+          {currentView === View.MANAGE_USERS && can('USER', 'EDIT') && (
+            <ManageUsers users={users} branches={branches} employees={employees} onAddUser={handleAddUser} onEditUser={handleEditUser} onDeleteUser={(id) => requestDeactivate('USER', id)} onResetTwoFactor={handleResetTwoFactor} />
           )}
 
-          {currentView === View.MANAGE_CENTERS && isGlobalOps && (
+          {currentView === View.MANAGE_CENTERS && can('CENTER', 'EDIT') && (
             <ManageCenters 
                 centers={centers} 
                 branches={branches} 
@@ -868,28 +1989,63 @@ const App: React.FC = () => {
                 records={centerRecords.filter(r => r.createdAt.startsWith(selectedMonth))} // Filter records by global month for the report
                 onAdd={handleAddCenter} 
                 onEdit={handleEditCenter} 
-                onDelete={() => {}} 
+                onDelete={(id) => requestDeactivate('CENTER', id)} 
                 onBulkAdd={() => {}} 
             />
           )}
 
-          {currentView === View.MANAGE_TARGETS && isSystemAdmin && (
+          {currentView === View.MANAGE_TARGETS && can('TARGET', 'EDIT') && (
             <ManageTargets 
-                branches={branches} 
-                employees={employees} 
+                branches={assignedBranches} 
+                employees={employees.filter(e => !!access?.inScope(e.branch_id))} 
                 targets={targets} 
                 onSaveTarget={handleSaveTarget}
             />
           )}
 
-          {currentView === View.MANAGE_COMMISSIONS && isGlobalOps && (
-            <ManageCommissions rates={commissionRates} onUpdateRates={() => {}} />
+          {currentView === View.MANAGE_COMMISSIONS && can('COMMISSION', 'EDIT') && (
+            <ManageCommissions rates={commissionRates} employees={employees} onUpdateRates={handleUpdateRates} />
           )}
 
-          {currentView === View.SHEET && !isNormalUser && (
+          {currentView === View.INACTIVE_RECORDS && reactivatableEntities.length > 0 && (
+            <InactiveRecords 
+                records={inactiveRecords} 
+                branches={branches} 
+                entities={reactivatableEntities} 
+                onReactivate={handleReactivate} 
+            />
+          )}
+
+          {currentView === View.AUDIT_LOG && can('AUDIT_LOG', 'VIEW') && (
+            <AuditLog entries={auditEntries} users={users} onRefresh={loadAuditLog} />
+          )}
+
+          {currentView === View.DATA_HEALTH && can('DATA_HEALTH', 'VIEW') && (
+            <DataHealth data={healthData} onRefresh={loadHealthData} onFix={handleHealthFix} />
+          )}
+
+          {currentView === View.BACKUP && can('BACKUP', 'VIEW') && (
+            <BackupRestore targets={restoreTargets} onBackup={handleDownloadBackup} onLoadTarget={loadRestoreTarget} onRestore={handleRestoreBackup} canRestore={can('BACKUP', 'CREATE')} />
+          )}
+
+          {currentView === View.SESSIONS && can('SESSION', 'VIEW') && (
+            <ActiveSessions sessions={activeSessions} users={users} branches={branches} onRefresh={loadSessions} onRevoke={handleRevokeSession} canRevoke={can('SESSION', 'DELETE')} />
+          )}
+
+          {currentView === View.LOGIN_SECURITY && can('LOGIN', 'VIEW') && (
+            <LoginSecurity history={loginHistory} lockouts={lockouts} users={users} onRefresh={loadLoginSecurity} onUnlock={handleUnlockLogin} canUnlock={can('LOGIN', 'EDIT')} />
+          )}
+
+          {currentView === View.TWO_FACTOR && twoFactorSetup}
+
+          {currentView === View.PERMISSIONS && canEditPermissions(user) && (
+            <ManagePermissions permissions={permissions} onSave={handleSavePermissions} />
+          )}
+
+          {currentView === View.SHEET && can('SALARY', 'VIEW') && (
             <div className="h-full flex flex-col space-y-4">
               {isGenerated ? (
-                 <SalaryTable rows={gridRows} accounts={visibleAccounts} commissionRates={commissionRates} onUpdateRow={handleUpdateRow} onAccountScanned={handleAccountScanned} readOnly={isSheetReadOnly} month={selectedMonth} />
+                 <SalaryTable rows={gridRows} accounts={visibleAccounts} commissionRates={commissionRates} onUpdateRow={handleUpdateRow} onAccountScanned={handleAccountScanned} readOnly={!can('SALARY', 'EDIT')} month={selectedMonth} />
               ) : (
                  <div className="h-full flex flex-col items-center justify-center text-slate-400 bg-white rounded-xl border border-dashed border-slate-300">
                      <p>Select month and click Generate</p>
@@ -900,6 +2056,29 @@ const App: React.FC = () => {
 
         </div>
       </main>
+
+      {pendingDeactivation && (() => {
+          const { entity, id } = pendingDeactivation;
+          const record = findRecord(entity, id, { branches, users, employees, centers, accounts });
+          return (
+            <ConfirmDeactivateModal 
+                entityLabel={ENTITY_LABELS[entity]} 
+                recordName={record ? recordName(entity, record) : id} 
+                dependents={findDependents(entity, id, { branches, users, employees, centers, accounts, records: centerRecords })} 
+                onConfirm={handleConfirmDeactivate} 
+                onCancel={() => setPendingDeactivation(null)} 
+            />
+          );
+      })()}
+
+      {conflict && (
+          <ConflictModal 
+              message={conflict.message} 
+              onReload={handleConflictReload} 
+              onRetry={handleConflictRetry} 
+              onClose={() => setConflict(null)} 
+          />
+      )}
     </div>
   );
 };
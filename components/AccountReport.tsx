@@ -1,8 +1,8 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { AccountOpening, Branch, Employee, UserRole } from '../types';
+import { AccountOpening, Branch, Employee } from '../types';
 import { exportAccountsToCSV, exportAccountDetails } from '../services/exportService';
-import { Download, Search, Edit2, Trash2, X, Save, AlertTriangle, FileDown, CheckCircle, Users, Wallet, Clock, AlertCircle, Coins, BadgeCheck, Timer, User, UserCheck } from 'lucide-react';
+import { Download, Search, Edit2, Trash2, X, Save, AlertTriangle, FileDown, CheckCircle, Users, Wallet, Clock, AlertCircle, Coins, BadgeCheck, Timer, User, UserCheck, RotateCcw } from 'lucide-react';
 
 interface AccountReportProps {
   accounts: AccountOpening[];
@@ -10,10 +10,13 @@ interface AccountReportProps {
   branches: Branch[];
   onEdit: (id: number, data: Partial<AccountOpening>) => void;
   onDelete: (id: number) => void;
-  userRole: UserRole;
+  onUncount?: (id: number, reason: string) => void;
+  canEdit: boolean;
+  canDelete: boolean;
+  canUncount: boolean; // Reverting a counted account
 }
 
-const AccountReport: React.FC<AccountReportProps> = ({ accounts, employees, branches, onEdit, onDelete, userRole }) => {
+const AccountReport: React.FC<AccountReportProps> = ({ accounts, employees, branches, onEdit, onDelete, onUncount, canEdit, canDelete, canUncount: mayUncount }) => {
   const [selectedMonth, setSelectedMonth] = useState<string>('');
   const [selectedBranchId, setSelectedBranchId] = useState<string>('all');
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('all');
@@ -22,13 +25,15 @@ const AccountReport: React.FC<AccountReportProps> = ({ accounts, employees, bran
   // Editing State
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<Partial<AccountOpening>>({});
+
+  // Un-count State
+  const [uncountingId, setUncountingId] = useState<number | null>(null);
+  const [uncountReason, setUncountReason] = useState('');
   
   // Feedback State
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
-  // Role Checks
-  const canEdit = ['SUPER_ADMIN', 'ADMIN', 'OWNER', 'MANAGER'].includes(userRole);
-  const canDelete = ['SUPER_ADMIN', 'ADMIN', 'OWNER'].includes(userRole); // Managers usually can't delete history
+  const canUncount = !!onUncount && mayUncount;
 
   useEffect(() => {
     if (successMessage) {
@@ -119,10 +124,17 @@ const AccountReport: React.FC<AccountReportProps> = ({ accounts, employees, bran
 
   const handleDelete = (id: number) => {
     if (!canDelete) return;
-    if (confirm("Are you sure you want to delete this account record?")) {
-        onDelete(id);
-        setSuccessMessage("Account record deleted successfully.");
-    }
+    // Confirmation (with dependent records) is handled by the app shell
+    onDelete(id);
+  };
+
+  const handleUncountSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canUncount || !uncountingId || !uncountReason.trim()) return;
+    onUncount!(uncountingId, uncountReason.trim());
+    setUncountingId(null);
+    setUncountReason('');
+    setSuccessMessage("Account reverted to uncounted.");
   };
 
   const startEdit = (acc: AccountOpening) => {
@@ -196,6 +208,8 @@ const AccountReport: React.FC<AccountReportProps> = ({ accounts, employees, bran
     );
   };
 
+  const uncountingAccount = uncountingId ? accounts.find(a => a.id === uncountingId) : undefined;
+
   const isEditingCounted = editingId ? accounts.find(a => a.id === editingId)?.is_counted : false;
 
   return (
@@ -430,6 +444,15 @@ const AccountReport: React.FC<AccountReportProps> = ({ accounts, employees, bran
                                >
                                   <FileDown size={16} />
                                </button>
+                               {canUncount && acc.is_counted && (
+                                 <button 
+                                    onClick={() => { setUncountingId(acc.id); setUncountReason(''); }}
+                                    className="p-1.5 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded transition-colors"
+                                    title="Un-count Account"
+                                 >
+                                     <RotateCcw size={16} />
+                                 </button>
+                               )}
                                {canEdit && (
                                  <button 
                                     onClick={() => startEdit(acc)}
@@ -472,6 +495,60 @@ const AccountReport: React.FC<AccountReportProps> = ({ accounts, employees, bran
         </div>
       </div>
 
+       {/* Un-count Modal */}
+       {uncountingAccount && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+                <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                    <h3 className="text-lg font-bold text-slate-800">Un-count Account</h3>
+                    <button onClick={() => setUncountingId(null)} className="text-slate-400 hover:text-slate-600 transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <form onSubmit={handleUncountSubmit} className="p-6 space-y-4">
+                    <div className="bg-amber-50 border border-amber-200 text-amber-800 p-3 rounded-lg text-xs flex gap-2 items-start">
+                        <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                        <p>
+                            Account <span className="font-mono font-bold">{uncountingAccount.account_code}</span> was counted in {uncountingAccount.counted_month || 'a past sheet'}. 
+                            Reverting makes it scannable again but will NOT remove the book from that salary sheet.
+                        </p>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label className="text-sm font-semibold text-slate-700">Reason *</label>
+                        <textarea 
+                            required
+                            autoFocus
+                            rows={3}
+                            className="w-full border border-slate-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-amber-500 outline-none text-sm"
+                            value={uncountReason}
+                            onChange={e => setUncountReason(e.target.value)}
+                            placeholder="e.g. Scanned against the wrong employee"
+                        />
+                    </div>
+
+                    <div className="pt-2 flex space-x-3">
+                        <button 
+                            type="button" 
+                            onClick={() => setUncountingId(null)}
+                            className="flex-1 px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 font-medium text-sm transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button 
+                            type="submit"
+                            disabled={!uncountReason.trim()}
+                            className="flex-1 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 font-medium text-sm shadow-sm transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <RotateCcw size={16} /> Un-count
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+      )}
+
        {/* Edit Modal */}
        {editingId && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Branch, SessionInfo, User } from '../types';
+import { MonitorSmartphone, RefreshCw, LogOut } from 'lucide-react';
+import { assignedBranchIds } from '../services/permissions';
+
+interface ActiveSessionsProps {
+  sessions: SessionInfo[];
+  users: User[]; // For names; sessions keep only the user ID
+  branches: Branch[];
+  onRefresh: () => void;
+  onRevoke: (session: SessionInfo) => void;
+  canRevoke: boolean;
+}
+
+// A rough browser name is enough to tell a user's sessions apart
+export const describeClient = (client?: string) => {
+  if (!client) return 'Unknown';
+  const browser = ['Edg', 'OPR', 'Chrome', 'Firefox', 'Safari'].find(name => client.includes(`${name}/`));
+  const system = ['Android', 'iPhone', 'iPad', 'Windows', 'Mac OS', 'Linux'].find(name => client.includes(name));
+  return [browser === 'Edg' ? 'Edge' : browser === 'OPR' ? 'Opera' : browser, system].filter(Boolean).join(' on ') || client.slice(0, 40);
+};
+
+const ActiveSessions: React.FC<ActiveSessionsProps> = ({ sessions, users, branches, onRefresh, onRevoke, canRevoke }) => {
+  const userFor = (id: string) => users.find(u => u.id === id);
+
+  const handleRevoke = (session: SessionInfo) => {
+    const name = userFor(session.userId)?.name || session.userId;
+    if (!confirm(`Sign ${name} out of this session? Their next action will take them back to the login screen.`)) return;
+    onRevoke(session);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto h-full flex flex-col">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+        <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-slate-200 p-2 rounded-lg text-slate-600">
+              <MonitorSmartphone size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Active Sessions</h2>
+              <p className="text-sm text-slate-500">Everyone signed in right now. A session ends after a period without activity, or at the latest some hours after sign-in.</p>
+            </div>
+          </div>
+          <button onClick={onRefresh} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors">
+            <RefreshCw size={14} /> Refresh
+          </button>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar flex-1">
+          {sessions.length > 0 ? (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white sticky top-0 shadow-sm z-10 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="p-3 font-semibold">User</th>
+                  <th className="p-3 font-semibold">Branch</th>
+                  <th className="p-3 font-semibold">Browser</th>
+                  <th className="p-3 font-semibold">Signed In</th>
+                  <th className="p-3 font-semibold">Last Active</th>
+                  <th className="p-3 font-semibold">Expires</th>
+                  <th className="p-3 font-semibold text-right">Action</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {sessions.map(session => {
+                  const sessionUser = userFor(session.userId);
+                  return (
+                    <tr key={session.id} className="hover:bg-slate-50 transition-colors">
+                      <td className="p-3">
+                        <div className="font-medium text-slate-700">{sessionUser?.name || session.userId}</div>
+                        <div className="text-[10px] text-slate-400">{sessionUser ? `@${sessionUser.username} - ${sessionUser.role}` : 'Unknown user'}</div>
+                      </td>
+                      <td className="p-3 text-slate-600">{(sessionUser ? assignedBranchIds(sessionUser) : []).map(id => branches.find(b => b.id === id)?.name || id).join(', ') || '-'}</td>
+                      <td className="p-3 text-slate-600" title={session.client}>{describeClient(session.client)}</td>
+                      <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(session.createdAt).toLocaleString()}</td>
+                      <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(session.lastSeenAt).toLocaleString()}</td>
+                      <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(session.expiresAt).toLocaleString()}</td>
+                      <td className="p-3 text-right">
+                        {session.current ? (
+                          <span className="text-[10px] px-2 py-0.5 rounded-full font-bold bg-emerald-50 text-emerald-700">This session</span>
+                        ) : canRevoke && (
+                          <button onClick={() => handleRevoke(session)} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border text-red-700 bg-red-50 border-red-200 hover:bg-red-100 transition-colors">
+                            <LogOut size={12} /> Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <div className="m-6 text-center py-10 text-slate-400 italic border-2 border-dashed border-slate-200 rounded-lg">
+              No one is signed in.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { Branch, Employee, UserRole, CommissionType, CommissionStructure } from '../types';
+import { Branch, Employee, CommissionType, CommissionStructure } from '../types';
 import { Save, UserPlus, FileSpreadsheet, Upload, CheckCircle, AlertCircle, List, Search, Edit2, Trash2, X, Hash, Download } from 'lucide-react';
 import { parseEmployeesCSV } from '../services/importService';
 
@@ -12,7 +12,8 @@ interface AddEmployeeFormProps {
   onBulkSave: (employees: Employee[]) => void;
   onEdit: (id: string, data: Partial<Employee>) => void;
   onDelete: (id: string) => void;
-  userRole: UserRole;
+  canEdit: boolean;
+  canDelete: boolean;
 }
 
 const PREDEFINED_DESIGNATIONS = [
@@ -24,7 +25,7 @@ const PREDEFINED_DESIGNATIONS = [
   "Finance"
 ];
 
-const AddEmployeeForm: React.FC<AddEmployeeFormProps> = ({ branches, existingEmployees, commissionRates, onSave, onBulkSave, onEdit, onDelete, userRole }) => {
+const AddEmployeeForm: React.FC<AddEmployeeFormProps> = ({ branches, existingEmployees, commissionRates, onSave, onBulkSave, onEdit, onDelete, canEdit, canDelete }) => {
   const [mode, setMode] = useState<'SINGLE' | 'BULK' | 'LIST'>('SINGLE');
 
   // Single Mode State
@@ -61,9 +62,6 @@ const AddEmployeeForm: React.FC<AddEmployeeFormProps> = ({ branches, existingEmp
     commission_type: string;
   }>({ name: '', branch_id: '', base_salary: 0, commission_type: 'A' });
 
-  const canEdit = ['SUPER_ADMIN', 'ADMIN', 'OWNER', 'MANAGER'].includes(userRole);
-  const canDelete = ['SUPER_ADMIN', 'ADMIN', 'OWNER', 'MANAGER'].includes(userRole);
-
   // Ensure commission type defaults to a valid one if 'A' doesn't exist
   useEffect(() => {
       const types = Object.keys(commissionRates);
@@ -208,9 +206,8 @@ const AddEmployeeForm: React.FC<AddEmployeeFormProps> = ({ branches, existingEmp
       
       if(!canDelete) return;
       
-      if (window.confirm("Are you sure you want to delete this employee? This action cannot be undone.")) {
-        onDelete(id);
-      }
+      // Confirmation (with dependent records) is handled by the app shell
+      onDelete(id);
   };
 
   const filteredEmployees = useMemo(() => {
@@ -407,10 +404,10 @@ const AddEmployeeForm: React.FC<AddEmployeeFormProps> = ({ branches, existingEmp
                             <h4 className="text-sm font-semibold text-blue-800 mb-2">Instructions</h4>
                             <p className="text-xs text-blue-700 mb-2">
                                 Upload a CSV file containing Employee data. The <strong>Branch</strong> must match an existing branch name exactly.
-                                The <strong>Employee ID</strong> must be unique.
+                                The <strong>Employee ID</strong> must be unique; leave it blank to get the branch's next code (e.g. BR01-EMP-0042).
                             </p>
                             <p className="text-xs text-slate-500 font-mono bg-white p-2 rounded border border-blue-200">
-                                Required Headers: ID, Name, Designation, Branch, Salary, Commission Type
+                                Required Headers: Name, Designation, Branch, Salary (optional: ID, Commission Type)
                             </p>
                         </div>
                         <button 
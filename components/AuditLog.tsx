@@ -0,0 +1,201 @@
+import React, { useState, useMemo } from 'react';
+import { AuditEntry, AuditEntity, User } from '../types';
+import { History, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface AuditLogProps {
+  entries: AuditEntry[];
+  users: User[]; // For names; entries keep only the user ID
+  onRefresh: () => void;
+}
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  USER: 'System User',
+  BRANCH: 'Branch',
+  REGION: 'Region',
+  EMPLOYEE: 'Employee',
+  ACCOUNT: 'Account',
+  COLLECTION: 'Collection',
+  CENTER: 'Center',
+  COMMISSION: 'Commission',
+  TARGET: 'Target',
+  SALARY_SHEET: 'Salary Sheet',
+  SALARY_ENTRY: 'Salary Entry',
+  PERMISSION: 'Permission',
+  LOGIN: 'Sign-in Lockout'
+};
+
+const ACTION_STYLES: Record<string, string> = {
+  CREATE: 'bg-emerald-50 text-emerald-700',
+  UPDATE: 'bg-blue-50 text-blue-700',
+  DEACTIVATE: 'bg-red-50 text-red-700',
+  DELETE: 'bg-red-50 text-red-700',
+  REACTIVATE: 'bg-emerald-50 text-emerald-700',
+  COUNT: 'bg-amber-50 text-amber-700',
+  UNCOUNT: 'bg-amber-50 text-amber-700',
+  UNLOCK: 'bg-emerald-50 text-emerald-700'
+};
+
+const parseSnapshot = (json: string): Record<string, unknown> => {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return { value: json };
+  }
+};
+
+const formatValue = (value: unknown) => value === undefined || value === null || value === '' ? '-' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Field-by-field comparison; for creations and deletions every field of the one snapshot is listed
+const changedFields = (entry: AuditEntry) => {
+  const before = parseSnapshot(entry.before);
+  const after = parseSnapshot(entry.after);
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys
+    .filter(key => !entry.before || !entry.after || JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ key, before: before[key], after: after[key] }));
+};
+
+const AuditLog: React.FC<AuditLogProps> = ({ entries, users, onRefresh }) => {
+  const [userFilter, setUserFilter] = useState('');
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const userName = (id: string) => id === 'SYSTEM' ? 'System' : users.find(u => u.id === id)?.name || id;
+
+  // Everyone who appears in the log, including users deactivated since
+  const userOptions = useMemo(() => Array.from(new Set(entries.map(e => e.userId))), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    return entries
+      .filter(e => !userFilter || e.userId === userFilter)
+      .filter(e => !entityFilter || e.entity === entityFilter)
+      .filter(e => !fromDate || e.timestamp.slice(0, 10) >= fromDate)
+      .filter(e => !toDate || e.timestamp.slice(0, 10) <= toDate)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }, [entries, userFilter, entityFilter, fromDate, toDate]);
+
+  return (
+    <div className="max-w-6xl mx-auto h-full flex flex-col">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+        <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-slate-200 p-2 rounded-lg text-slate-600">
+              <History size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Audit Log</h2>
+              <p className="text-sm text-slate-500">Every change to the data: who made it, when, and the record before and after.</p>
+            </div>
+          </div>
+          <button onClick={onRefresh} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors">
+            <RefreshCw size={14} /> Refresh
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">User</label>
+            <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white">
+              <option value="">All Users</option>
+              {userOptions.map(id => <option key={id} value={id}>{userName(id)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Entity</label>
+            <select value={entityFilter} onChange={e => setEntityFilter(e.target.value as AuditEntity | '')} className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white">
+              <option value="">All Entities</option>
+              {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map(entity => <option key={entity} value={entity}>{ENTITY_LABELS[entity]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">From</label>
+            <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="w-full p-2 border border-slate-300 rounded-lg text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">To</label>
+            <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className="w-full p-2 border border-slate-300 rounded-lg text-sm" />
+          </div>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar flex-1">
+          {filteredEntries.length > 0 ? (
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white sticky top-0 shadow-sm z-10 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="p-3 font-semibold w-8"></th>
+                  <th className="p-3 font-semibold">Time</th>
+                  <th className="p-3 font-semibold">User</th>
+                  <th className="p-3 font-semibold">Entity</th>
+                  <th className="p-3 font-semibold">Action</th>
+                  <th className="p-3 font-semibold">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {filteredEntries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const fields = changedFields(entry);
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr onClick={() => setExpandedId(isExpanded ? null : entry.id)} className="hover:bg-slate-50 transition-colors cursor-pointer">
+                        <td className="p-3 text-slate-400">{isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}</td>
+                        <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                        <td className="p-3">
+                          <div className="font-medium text-slate-700">{userName(entry.userId)}</div>
+                          <div className="text-[10px] text-slate-400">{entry.role}</div>
+                        </td>
+                        <td className="p-3">
+                          <div className="font-medium text-slate-700">{ENTITY_LABELS[entry.entity] || entry.entity}</div>
+                          <div className="text-[10px] text-slate-400 font-mono">{entry.entityId}</div>
+                        </td>
+                        <td className="p-3">
+                          <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${ACTION_STYLES[entry.action] || 'bg-slate-100 text-slate-600'}`}>{entry.action}</span>
+                        </td>
+                        <td className="p-3 text-xs text-slate-500">
+                          {entry.action === 'CREATE' ? 'New record' : `${fields.length} field${fields.length === 1 ? '' : 's'}`}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-slate-50">
+                          <td></td>
+                          <td colSpan={5} className="p-3">
+                            <table className="w-full text-xs">
+                              <thead className="text-slate-400 uppercase">
+                                <tr>
+                                  <th className="py-1 pr-4 font-semibold text-left">Field</th>
+                                  <th className="py-1 pr-4 font-semibold text-left">Before</th>
+                                  <th className="py-1 font-semibold text-left">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {fields.map(field => (
+                                  <tr key={field.key} className="align-top">
+                                    <td className="py-1 pr-4 font-mono text-slate-600">{field.key}</td>
+                                    <td className="py-1 pr-4 text-red-700 break-all">{formatValue(field.before)}</td>
+                                    <td className="py-1 text-emerald-700 break-all">{formatValue(field.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <div className="m-6 text-center py-10 text-slate-400 italic border-2 border-dashed border-slate-200 rounded-lg">
+              No changes match these filters.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { DatabaseBackup, Download, ArchiveRestore, Upload, AlertTriangle } from 'lucide-react';
+import type { DataTables, TableName } from '../services/tableDataStore';
+import { Backup, readBackupArchive, diffTables, hasData } from '../services/backupService';
+
+// Where a backup can be restored to: the spreadsheet behind the API server, or this browser's local storage
+export type RestoreTarget = 'SPREADSHEET' | 'LOCAL';
+
+interface BackupRestoreProps {
+  targets: { value: RestoreTarget; label: string }[];
+  onBackup: () => void;
+  onLoadTarget: (target: RestoreTarget) => Promise<DataTables | null>;
+  onRestore: (backup: Backup, target: RestoreTarget) => Promise<boolean>;
+  canRestore: boolean;
+}
+
+const TABLE_LABELS: Record<TableName, string> = {
+  users: 'System Users',
+  branches: 'Branches',
+  employees: 'Employees',
+  commissions: 'Commission Types',
+  centers: 'Centers',
+  accounts: 'Accounts',
+  collections: 'Collections',
+  targets: 'Targets',
+  salarySheets: 'Salary Sheets',
+  salaryEntries: 'Salary Entries',
+  auditLog: 'Audit Log',
+  counters: 'ID Counters',
+  permissions: 'Role Permissions',
+  loginHistory: 'Login History',
+  regions: 'Regions'
+};
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ targets, onBackup, onLoadTarget, onRestore, canRestore }) => {
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [target, setTarget] = useState<RestoreTarget>(targets[0].value);
+  const [current, setCurrent] = useState<DataTables | null>(null);
+
+  // The preview compares the backup with what the chosen target holds right now
+  useEffect(() => {
+    if (!backup) return;
+    setCurrent(null);
+    onLoadTarget(target).then(setCurrent);
+  }, [backup, target]);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setBackup(await readBackupArchive(file));
+      setFileName(file.name);
+    } catch (err) {
+      setBackup(null);
+      alert(err instanceof Error ? err.message : 'The backup could not be read.');
+    }
+  };
+
+  const diffs = backup && current ? diffTables(backup.tables, current) : [];
+  const targetHasData = !!current && hasData(current);
+  // Sheets are shared with every other user, so a restore there never overwrites anything
+  const isBlocked = target === 'SPREADSHEET' && targetHasData;
+
+  const handleRestore = async () => {
+    if (!backup || !current || isBlocked) return;
+    const warning = targetHasData
+      ? 'Everything currently stored in this browser\'s local storage will be replaced by the backup. Continue?'
+      : `Restore the backup of ${new Date(backup.manifest.createdAt).toLocaleString()}?`;
+    if (!confirm(warning)) return;
+    if (await onRestore(backup, target)) {
+      setBackup(null);
+      setCurrent(null);
+      setFileName('');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-slate-200 p-2 rounded-lg text-slate-600">
+              <DatabaseBackup size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Backup</h2>
+              <p className="text-sm text-slate-500">Download every table, deactivated records and the audit log included, as one ZIP archive.</p>
+            </div>
+          </div>
+          <button onClick={onBackup} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors">
+            <Download size={16} /> Download Backup
+          </button>
+        </div>
+        <p className="px-6 py-3 text-xs text-amber-700 bg-amber-50">
+          The archive contains every user's password hash. Keep it somewhere only administrators can reach.
+        </p>
+      </div>
+
+      {canRestore && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center space-x-3">
+            <div className="bg-slate-200 p-2 rounded-lg text-slate-600">
+              <ArchiveRestore size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Restore</h2>
+              <p className="text-sm text-slate-500">Load a backup into an empty spreadsheet, or into this browser's local storage.</p>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Backup File</label>
+                <label className="flex items-center gap-2 p-2 border border-dashed border-slate-300 rounded-lg text-sm text-slate-600 cursor-pointer hover:bg-slate-50">
+                  <Upload size={16} /> {fileName || 'Choose a .zip backup'}
+                  <input type="file" accept=".zip" onChange={handleFileUpload} className="hidden" />
+                </label>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Restore To</label>
+                <select value={target} onChange={e => setTarget(e.target.value as RestoreTarget)} className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white">
+                  {targets.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+              </div>
+            </div>
+
+            {backup && (
+              <>
+                <div className="text-sm text-slate-600">
+                  Backup of <strong>{new Date(backup.manifest.createdAt).toLocaleString()}</strong> by <strong>{backup.manifest.createdBy}</strong> (format {backup.manifest.version})
+                </div>
+
+                {current ? (
+                  <table className="w-full text-left text-sm">
+                    <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                      <tr>
+                        <th className="p-2 font-semibold">Table</th>
+                        <th className="p-2 font-semibold text-right">In Backup</th>
+                        <th className="p-2 font-semibold text-right">Stored Now</th>
+                        <th className="p-2 font-semibold text-right">New</th>
+                        <th className="p-2 font-semibold text-right">Changed</th>
+                        <th className="p-2 font-semibold text-right">Removed</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {diffs.map(diff => (
+                        <tr key={diff.table}>
+                          <td className="p-2 font-medium text-slate-700">{TABLE_LABELS[diff.table]}</td>
+                          <td className="p-2 text-right">{diff.backupRows}</td>
+                          <td className="p-2 text-right text-slate-500">{diff.currentRows}</td>
+                          <td className="p-2 text-right text-emerald-700">{diff.added || '-'}</td>
+                          <td className="p-2 text-right text-blue-700">{diff.changed || '-'}</td>
+                          <td className="p-2 text-right text-red-700">{diff.removed || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="text-center py-6 text-slate-400 italic">Reading the current data...</div>
+                )}
+
+                {isBlocked && (
+                  <div className="flex items-start gap-2 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+                    <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                    The spreadsheet already holds data. Point the API server at a new, empty spreadsheet (GOOGLE_SHEET_ID) to restore there, or restore into local storage.
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleRestore}
+                    disabled={!current || isBlocked}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <ArchiveRestore size={16} /> Restore Backup
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -1,24 +1,30 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { CenterCollectionRecord, Branch, Employee, User, Center } from '../types';
+import type { QueuedCollection } from '../services/collectionQueue';
 import { Calculator, Plus, Save, DollarSign, RefreshCw, Archive, ArrowRight, Lock, Building, User as UserIcon, Edit2, Trash2, X, AlertTriangle, ShieldCheck, Calendar, MapPin, CreditCard, CloudUpload, Clock } from 'lucide-react';
 
 interface CenterCalculationProps {
   records: CenterCollectionRecord[];
   onAddRecord: (record: Omit<CenterCollectionRecord, 'id' | 'createdAt'>) => void;
-  onEditRecord: (id: string, record: Partial<CenterCollectionRecord>) => void;
+  onEditRecord: (id: string, record: Partial<CenterCollectionRecord>, reason: string) => void;
   onDeleteRecord: (id: string) => void;
   branches: Branch[];
   employees: Employee[];
   currentUser: User;
   centers: Center[];
-  onBulkAddRecords?: (records: CenterCollectionRecord[]) => Promise<void>;
+  pendingRecords?: QueuedCollection[]; // Held on this device: drafts, submitted ones waiting to be sent, and ones the backend refused
+  onStageRecords?: (records: Omit<CenterCollectionRecord, 'id' | 'createdAt' | 'status'>[]) => void;
+  onUpdateStagedRecord?: (record: CenterCollectionRecord) => void;
+  onRemoveStagedRecord?: (id: string) => void;
+  onSyncPending?: () => Promise<boolean>; // Final Submit: queues the drafts and sends them
   onCreateCenter?: (center: Omit<Center, 'id'>) => void;
   readOnly?: boolean;
+  canEditRecords?: boolean; // Synced deposits; drafts and refused ones belong to this device and can always be changed
+  canDeleteRecords?: boolean;
 }
 
-const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRecord, onEditRecord, onDeleteRecord, branches, employees, currentUser, centers, onBulkAddRecords, onCreateCenter, readOnly = false }) => {
-  const isAdmin = !readOnly && ['SUPER_ADMIN', 'ADMIN', 'OWNER', 'MANAGER'].includes(currentUser.role);
+const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRecord, onEditRecord, onDeleteRecord, branches, employees, currentUser, centers, pendingRecords = [], onStageRecords, onUpdateStagedRecord, onRemoveStagedRecord, onSyncPending, onCreateCenter, readOnly = false, canEditRecords = false, canDeleteRecords = false }) => {
   const isNormalUser = currentUser.role === 'USER';
 
   // --- STATE ---
@@ -44,9 +50,9 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
   // Edit Modal State
   const [editingRecord, setEditingRecord] = useState<CenterCollectionRecord | null>(null);
   const [editAdminOverride, setEditAdminOverride] = useState(false);
+  const [editReason, setEditReason] = useState('');
   
-  // Staging State (Pending Sync)
-  const [stagedRecords, setStagedRecords] = useState<CenterCollectionRecord[]>([]);
+  // Staging State (Pending Sync); the staged records themselves are kept by App in the offline queue
   const [isSyncing, setIsSyncing] = useState(false);
   
   // Refs for Focus Management
@@ -72,8 +78,15 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
 
   // Merge Staged Records with Synced Records for Display
   const allRecords = useMemo(() => {
-      return [...stagedRecords, ...records];
-  }, [records, stagedRecords]);
+      return [...pendingRecords.map(e => e.record), ...records];
+  }, [records, pendingRecords]);
+
+  const pendingById = useMemo(() => new Map(pendingRecords.map(e => [e.record.id, e])), [pendingRecords]);
+  const draftCount = pendingRecords.filter(e => !e.submitted).length;
+  const rejectedCount = pendingRecords.filter(e => e.error).length;
+
+  // Once submitted, a deposit may already be on its way, so only drafts and refused ones can be changed
+  const isChangeable = (entry?: QueuedCollection) => !!entry && (!entry.submitted || !!entry.error);
 
   // Filter Records by Month
   const filteredRecords = useMemo(() => {
@@ -229,42 +242,15 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
     // Determine Type dynamically
     const type = getCenterType(code, targetBranchId, targetEmployeeId);
     
-    const timestamp = new Date().toISOString();
-    const tempIdPrefix = `temp_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
-    const newRecords: CenterCollectionRecord[] = [];
-
-    // Savings Record
-    if (amount > 0) {
-        newRecords.push({
-            id: `${tempIdPrefix}_S`,
-            createdAt: timestamp,
-            branchId: targetBranchId, // STRICT USE
-            employeeId: targetEmployeeId, // STRICT USE
-            centerCode: code,
-            amount: amount,
-            loanAmount: 0,
-            type: type,
-            status: 'PENDING'
-        });
-    }
-
-    // Loan Record
-    if (loanAmount > 0) {
-        newRecords.push({
-            id: `${tempIdPrefix}_L`,
-            createdAt: timestamp,
-            branchId: targetBranchId, // STRICT USE
-            employeeId: targetEmployeeId, // STRICT USE
-            centerCode: code,
-            amount: 0, 
-            loanAmount: loanAmount, 
-            type: type,
-            status: 'PENDING'
-        });
-    }
-
-    // Update Local State
-    setStagedRecords(prev => [...newRecords, ...prev]);
+    // One staged record per deposit; the backend writes its Savings and Loan rows under the same ID
+    onStageRecords?.([{
+        branchId: targetBranchId, // STRICT USE
+        employeeId: targetEmployeeId, // STRICT USE
+        centerCode: code,
+        amount: amount,
+        loanAmount: loanAmount,
+        type: type
+    }]);
 
     // Reset Entry Fields
     setAmountInput('');
@@ -276,14 +262,10 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
 
   const handleFinalSubmit = async () => {
       if (readOnly) return;
-      if (!onBulkAddRecords || stagedRecords.length === 0) return;
+      if (!onSyncPending || draftCount === 0) return;
       setIsSyncing(true);
       try {
-        await onBulkAddRecords(stagedRecords);
-        setStagedRecords([]);
-      } catch (error) {
-        console.error("Sync failed", error);
-        alert("Failed to sync records. Please try again.");
+        await onSyncPending();
       } finally {
         setIsSyncing(false);
       }
@@ -291,9 +273,10 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
 
   // --- EDIT ACTIONS ---
   const handleEditClick = (record: CenterCollectionRecord) => {
-    if (!isAdmin || readOnly) return;
+    if (readOnly || (record.status === 'PENDING' ? !isChangeable(pendingById.get(record.id)) : !canEditRecords)) return;
     setEditingRecord(record);
     setEditAdminOverride(false);
+    setEditReason('');
   };
 
   const handleUpdateRecord = (e: React.FormEvent) => {
@@ -304,9 +287,13 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
     const type = getCenterType(editingRecord.centerCode, editingRecord.branchId, editingRecord.employeeId);
     
     if (editingRecord.status === 'PENDING') {
-        setStagedRecords(prev => prev.map(r => r.id === editingRecord.id ? { ...editingRecord, type } : r));
+        onUpdateStagedRecord?.({ ...editingRecord, type });
     } else {
-        onEditRecord(editingRecord.id, { ...editingRecord, type });
+        if (!editReason.trim()) {
+            alert("Please enter a reason for changing a synced record.");
+            return;
+        }
+        onEditRecord(editingRecord.id, { ...editingRecord, type }, editReason.trim());
     }
     setEditingRecord(null);
   };
@@ -314,11 +301,11 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
   const handleDeleteClick = (id: string, isPending: boolean) => {
     if (readOnly) return;
     if (isPending) {
-        setStagedRecords(prev => prev.filter(r => r.id !== id));
+        onRemoveStagedRecord?.(id);
         return;
     }
     
-    if (!isAdmin) return;
+    if (!canDeleteRecords) return;
     if (confirm("Are you sure you want to delete this deposit entry?")) {
         onDeleteRecord(id);
     }
@@ -656,7 +643,7 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                         </button>
 
                         {/* SYNC BUTTON */}
-                        {stagedRecords.length > 0 && (
+                        {draftCount > 0 && (
                             <button 
                                     type="button"
                                     onClick={handleFinalSubmit}
@@ -668,7 +655,7 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                                 ) : (
                                     <CloudUpload size={18} />
                                 )}
-                                <span>Final Submit ({stagedRecords.length} Pending)</span>
+                                <span>Final Submit ({draftCount} {draftCount === 1 ? 'Draft' : 'Drafts'})</span>
                             </button>
                         )}
 
@@ -747,12 +734,17 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                     <Archive size={14} /> Entries
                  </h4>
                  <div className="flex items-center gap-3">
-                    {stagedRecords.length > 0 && (
+                    {pendingRecords.length > 0 && (
                         <span className="text-[10px] bg-amber-100 text-amber-700 border border-amber-200 px-2 py-0.5 rounded flex items-center gap-1 font-bold animate-pulse">
-                            <Clock size={10} /> {stagedRecords.length} Pending Sync
+                            <Clock size={10} /> {pendingRecords.length} Pending Sync
                         </span>
                     )}
-                    {isAdmin && !readOnly && (
+                    {rejectedCount > 0 && (
+                        <span className="text-[10px] bg-red-100 text-red-700 border border-red-200 px-2 py-0.5 rounded flex items-center gap-1 font-bold" title="The server refused these deposits. Edit them to try again, or delete them.">
+                            <AlertTriangle size={10} /> {rejectedCount} Rejected
+                        </span>
+                    )}
+                    {(canEditRecords || canDeleteRecords) && !readOnly && (
                         <span className="text-[10px] bg-slate-200 text-slate-600 px-2 py-0.5 rounded flex items-center gap-1">
                             <ShieldCheck size={10} /> Admin Access
                         </span>
@@ -776,6 +768,7 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                        <tbody className="divide-y divide-slate-100">
                           {recentRecords.map(r => {
                              const isPending = r.status === 'PENDING';
+                             const pending = pendingById.get(r.id);
                              return (
                                  <tr key={r.id} className={`hover:bg-slate-50 transition-colors group ${isPending ? 'bg-amber-50/50' : ''}`}>
                                     <td className="p-3">
@@ -797,7 +790,11 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                                         {r.loanAmount && r.loanAmount > 0 ? `৳${r.loanAmount.toLocaleString()}` : '-'}
                                     </td>
                                     <td className="p-3 text-center">
-                                        {isPending ? (
+                                        {pending?.error ? (
+                                            <span className="text-[10px] text-red-600 bg-red-100 px-2 py-0.5 rounded-full font-bold" title={pending.error}>Rejected</span>
+                                        ) : pending?.submitted ? (
+                                            <span className="text-[10px] text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full font-bold">Queued</span>
+                                        ) : isPending ? (
                                             <span className="text-[10px] text-amber-600 bg-amber-100 px-2 py-0.5 rounded-full font-bold">Draft</span>
                                         ) : (
                                             <span className="text-[10px] text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full font-bold">Synced</span>
@@ -805,12 +802,12 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                                     </td>
                                     <td className="p-3 text-right">
                                         <div className="flex items-center justify-end space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                            {isAdmin && !readOnly && !isPending && (
+                                            {!readOnly && (isPending ? isChangeable(pending) : canEditRecords) && (
                                                 <button onClick={() => handleEditClick(r)} className="p-1.5 text-slate-400 hover:text-blue-600 bg-white hover:bg-blue-50 rounded border border-slate-200 transition-colors shadow-sm" title="Edit">
                                                     <Edit2 size={14} />
                                                 </button>
                                             )}
-                                            {!readOnly && (isAdmin || isPending) && (
+                                            {!readOnly && (isPending ? isChangeable(pending) : canDeleteRecords) && (
                                                 <button onClick={() => handleDeleteClick(r.id, isPending)} className="p-1.5 text-slate-400 hover:text-red-600 bg-white hover:bg-red-50 rounded border border-slate-200 transition-colors shadow-sm" title="Delete">
                                                     <Trash2 size={14} />
                                                 </button>
@@ -840,7 +837,11 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
         </div> {/* CLOSE GRID */}
 
       {/* Edit Modal */}
-      {editingRecord && (
+      {editingRecord && (() => {
+        const isSynced = editingRecord.status !== 'PENDING';
+        const isLocked = isSynced && !editAdminOverride;
+        const rejection = pendingById.get(editingRecord.id)?.error;
+        return (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
             <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm overflow-hidden animate-in zoom-in-95 duration-200">
                 <div className="px-5 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
@@ -851,7 +852,7 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                 </div>
                 <form onSubmit={handleUpdateRecord} className="p-5 space-y-4">
                     {/* Admin Override Warning */}
-                    {!editingRecord.status && !editAdminOverride && (
+                    {isLocked && (
                        <div className="text-xs bg-amber-50 border border-amber-100 p-3 rounded text-amber-800 flex gap-2">
                            <AlertTriangle size={16} className="shrink-0" />
                            <div>
@@ -864,7 +865,17 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                        </div>
                     )}
 
-                    <div className={`space-y-4 transition-opacity ${(!editingRecord.status && !editAdminOverride) ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
+                    {rejection && (
+                       <div className="text-xs bg-red-50 border border-red-100 p-3 rounded text-red-800 flex gap-2">
+                           <AlertTriangle size={16} className="shrink-0" />
+                           <div>
+                               <p className="font-bold mb-1">Refused by the Server</p>
+                               <p>{rejection} Saving your changes makes this a draft again; send it with Final Submit.</p>
+                           </div>
+                       </div>
+                    )}
+
+                    <div className={`space-y-4 transition-opacity ${isLocked ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
                         <div>
                             <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Savings Amount</label>
                             <input 
@@ -892,16 +903,32 @@ const CenterCalculation: React.FC<CenterCalculationProps> = ({ records, onAddRec
                                 className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none font-mono"
                             />
                         </div>
+                        {isSynced && (
+                            <div>
+                                <label className="text-xs font-bold text-slate-500 uppercase mb-1 block">Reason for Change <span className="text-red-500">*</span></label>
+                                <textarea 
+                                    value={editReason} 
+                                    onChange={e => setEditReason(e.target.value)}
+                                    rows={2}
+                                    placeholder="e.g. Wrong amount entered at the center"
+                                    className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+                                />
+                                {editingRecord.editReason && (
+                                    <p className="text-[10px] text-slate-400 mt-1">Last change: {editingRecord.editReason}</p>
+                                )}
+                            </div>
+                        )}
                     </div>
 
                     <div className="flex justify-end gap-2 pt-2">
                         <button type="button" onClick={() => setEditingRecord(null)} className="px-4 py-2 border border-slate-200 rounded-lg text-slate-600 hover:bg-slate-50 text-sm font-medium">Cancel</button>
-                        <button type="submit" disabled={!editingRecord.status && !editAdminOverride} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium shadow-sm disabled:opacity-50">Save Changes</button>
+                        <button type="submit" disabled={isLocked || (isSynced && !editReason.trim())} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium shadow-sm disabled:opacity-50">Save Changes</button>
                     </div>
                 </form>
             </div>
         </div>
-      )}
+        );
+      })()}
 
     </div>
   );
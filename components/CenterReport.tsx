@@ -1,20 +1,35 @@
 
 import React, { useState, useMemo } from 'react';
-import { CenterCollectionRecord, Branch, Employee, Center } from '../types';
+import { CenterCollectionRecord, Branch, Region, Employee, Center } from '../types';
 import { Calendar, Building, User, Filter, Trophy, TrendingUp, MapPin } from 'lucide-react';
+import { groupByRegion } from '../services/regions';
 
 interface CenterReportProps {
   records: CenterCollectionRecord[];
   branches: Branch[];
+  regions?: Region[];
   employees: Employee[];
   centers?: Center[];
 }
 
-const CenterReport: React.FC<CenterReportProps> = ({ records, branches, employees, centers = [] }) => {
+// Branch filter values that stand for every branch of a region
+const REGION_PREFIX = 'region:';
+
+const CenterReport: React.FC<CenterReportProps> = ({ records, branches, regions = [], employees, centers = [] }) => {
   const [selectedMonth, setSelectedMonth] = useState<string>(new Date().toISOString().slice(0, 7));
   const [selectedBranchId, setSelectedBranchId] = useState<string>('all');
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('all');
 
+  const regionGroups = useMemo(() => groupByRegion(branches, regions).filter(group => group.region), [branches, regions]);
+
+  // The branches the filter stands for: one, a region's, or all of them (null)
+  const filterBranchIds = useMemo(() => {
+      if (selectedBranchId === 'all') return null;
+      if (!selectedBranchId.startsWith(REGION_PREFIX)) return [selectedBranchId];
+      const group = regionGroups.find(g => g.region!.id === selectedBranchId.slice(REGION_PREFIX.length));
+      return group ? group.branches.map(b => b.id) : [];
+  }, [selectedBranchId, regionGroups]);
+
   // "Hydrate" records to reflect current master data (handles moved centers)
   // This fixes the issue where a center moved to a new branch (e.g. Madaripur -> Chilarchar)
   // would hide historical records created under the old branch.
@@ -54,12 +69,12 @@ const CenterReport: React.FC<CenterReportProps> = ({ records, branches, employee
       // Note: We don't strictly check employee visibility here as effectiveRecords might map to any emp
       
       // 3. User Selection Filters
-      if (selectedBranchId !== 'all' && r.branchId !== selectedBranchId) return false;
+      if (filterBranchIds && !filterBranchIds.includes(r.branchId)) return false;
       if (selectedEmployeeId !== 'all' && r.employeeId !== selectedEmployeeId) return false;
 
       return true;
     });
-  }, [effectiveRecords, selectedMonth, selectedBranchId, selectedEmployeeId, branches]);
+  }, [effectiveRecords, selectedMonth, filterBranchIds, selectedEmployeeId, branches]);
 
   // Aggregation: Group by Center + Employee
   const aggregatedData = useMemo(() => {
@@ -166,9 +181,9 @@ const CenterReport: React.FC<CenterReportProps> = ({ records, branches, employee
 
   // Dropdown Options
   const visibleEmployees = useMemo(() => {
-    if (selectedBranchId === 'all') return employees;
-    return employees.filter(e => e.branch_id === selectedBranchId);
-  }, [employees, selectedBranchId]);
+    if (!filterBranchIds) return employees;
+    return employees.filter(e => filterBranchIds.includes(e.branch_id));
+  }, [employees, filterBranchIds]);
 
   return (
     <div className="h-full flex flex-col space-y-4">
@@ -199,7 +214,20 @@ const CenterReport: React.FC<CenterReportProps> = ({ records, branches, employee
                     className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white"
                  >
                     <option value="all">All Branches</option>
-                    {branches.map(b => (
+                    {regionGroups.length > 0 && (
+                        <optgroup label="Regions">
+                            {regionGroups.map(group => (
+                                <option key={group.region!.id} value={`${REGION_PREFIX}${group.region!.id}`}>
+                                    {group.region!.zone ? `${group.region!.name} (${group.region!.zone})` : group.region!.name}
+                                </option>
+                            ))}
+                        </optgroup>
+                    )}
+                    {regionGroups.length > 0 ? (
+                        <optgroup label="Branches">
+                            {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                        </optgroup>
+                    ) : branches.map(b => (
                         <option key={b.id} value={b.id}>{b.name}</option>
                     ))}
                  </select>
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { KeyRound, LogOut } from 'lucide-react';
+import { describeError } from '../services/errors';
+import { MIN_PASSWORD_LENGTH, validateNewPassword } from '../services/userValidation';
+
+interface ChangePasswordProps {
+  user: User;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  onSignOut: () => void;
+}
+
+const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-slate-800";
+
+// Shown instead of the app while the signed-in user must replace their password (the default admin's, for one)
+const ChangePassword: React.FC<ChangePasswordProps> = ({ user, onChangePassword, onSignOut }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const problem = validateNewPassword(newPassword, currentPassword);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('The new passwords do not match.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (!(await onChangePassword(currentPassword, newPassword))) {
+        setError('The current password is incorrect.');
+      }
+    } catch (err) {
+      console.error(err);
+      setError(`Connection Error: ${describeError(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 p-8">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+        <div className="mb-8">
+          <div className="mb-4 inline-block p-3 bg-blue-50 rounded-2xl text-blue-600">
+            <KeyRound size={28} />
+          </div>
+          <h2 className="text-2xl font-bold text-slate-900">Choose a New Password</h2>
+          <p className="text-slate-500 mt-2 text-sm">
+            Signed in as <strong>{user.username}</strong>. This account still uses its initial password; pick a new one of at least {MIN_PASSWORD_LENGTH} characters to continue.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {error && (
+            <div className="bg-red-50 text-red-600 text-sm p-4 rounded-xl border border-red-100">{error}</div>
+          )}
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-700">Current Password</label>
+            <input type="password" required value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-700">New Password</label>
+            <input type="password" required value={newPassword} onChange={e => setNewPassword(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-semibold text-slate-700">Confirm New Password</label>
+            <input type="password" required value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className={inputClass} />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl shadow-lg shadow-blue-500/30 transition-all disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Saving...' : 'Change Password'}
+          </button>
+          <button type="button" onClick={onSignOut} className="w-full flex items-center justify-center gap-2 text-sm font-medium text-slate-500 hover:text-slate-800">
+            <LogOut size={16} /> Sign Out
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassword;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AlertTriangle, X, Ban } from 'lucide-react';
+import { DependentGroup } from '../services/dependencyService';
+
+interface ConfirmDeactivateModalProps {
+  entityLabel: string;
+  recordName: string;
+  dependents: DependentGroup[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MAX_ITEMS_SHOWN = 8;
+
+const ConfirmDeactivateModal: React.FC<ConfirmDeactivateModalProps> = ({ entityLabel, recordName, dependents, onConfirm, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[70] flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800">Deactivate {entityLabel}</h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            <span className="font-bold text-slate-800">{recordName}</span> will be marked inactive and hidden from all screens.
+            It can be restored later from the Inactive Records view.
+          </p>
+
+          {dependents.length > 0 ? (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3 max-h-72 overflow-y-auto custom-scrollbar">
+              <div className="flex items-center gap-2 text-amber-800 text-xs font-bold uppercase">
+                <AlertTriangle size={14} /> Dependent records still active
+              </div>
+              {dependents.map(group => (
+                <div key={group.label}>
+                  <p className="text-xs font-semibold text-amber-900 mb-1">{group.label} ({group.items.length})</p>
+                  <ul className="text-xs text-amber-800 space-y-0.5 pl-4 list-disc">
+                    {group.items.slice(0, MAX_ITEMS_SHOWN).map((item, i) => <li key={i}>{item}</li>)}
+                    {group.items.length > MAX_ITEMS_SHOWN && (
+                      <li className="italic">and {group.items.length - MAX_ITEMS_SHOWN} more</li>
+                    )}
+                  </ul>
+                </div>
+              ))}
+              <p className="text-[11px] text-amber-700">These records are not changed. Reassign or deactivate them separately.</p>
+            </div>
+          ) : (
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs text-slate-500">
+              No active records depend on this {entityLabel.toLowerCase()}.
+            </div>
+          )}
+
+          <div className="pt-2 flex space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 font-medium text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={onConfirm}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium text-sm shadow-sm transition-colors flex items-center justify-center gap-2"
+            >
+              <Ban size={16} /> Deactivate
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDeactivateModal;
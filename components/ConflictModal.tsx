@@ -0,0 +1,56 @@
+import React from 'react';
+import { AlertTriangle, X, RefreshCw, RotateCcw } from 'lucide-react';
+
+interface ConflictModalProps {
+  message: string;
+  onReload: () => void;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const ConflictModal: React.FC<ConflictModalProps> = ({ message, onReload, onRetry, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[70] flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800">Save Conflict</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800 flex gap-3">
+            <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+            <div>
+              <p className="font-bold mb-1">Your change was not saved</p>
+              <p>{message}</p>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Reload to see the latest data and discard your change, or reload and re-apply your change on top of the latest version.
+          </p>
+
+          <div className="pt-2 flex space-x-3">
+            <button
+              type="button"
+              onClick={onReload}
+              className="flex-1 px-4 py-2 border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 font-medium text-sm transition-colors flex items-center justify-center gap-2"
+            >
+              <RefreshCw size={16} /> Reload
+            </button>
+            <button
+              type="button"
+              onClick={onRetry}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm shadow-sm transition-colors flex items-center justify-center gap-2"
+            >
+              <RotateCcw size={16} /> Reload and Retry
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictModal;
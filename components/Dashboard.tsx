@@ -1,12 +1,14 @@
 
 import React, { useMemo, useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Branch, SalaryRow, AccountOpening, Employee, Target, CenterCollectionRecord } from '../types';
-import { Users, Building, TrendingUp, FilePlus2, Trophy, Percent, Medal, Crown, Target as TargetIcon, AlertTriangle, Calendar, ChevronDown, ChevronUp, Filter, CheckCircle } from 'lucide-react';
+import { Branch, Region, SalaryRow, AccountOpening, Employee, Target, CenterCollectionRecord } from '../types';
+import { Users, Building, TrendingUp, FilePlus2, Trophy, Percent, Medal, Crown, Target as TargetIcon, AlertTriangle, Calendar, ChevronDown, ChevronUp, Filter, CheckCircle, Layers } from 'lucide-react';
 import { translations, Language } from '../services/translations';
+import { groupByRegion, groupByZone, regionLabel, zoneLabel } from '../services/regions';
 
 interface DashboardProps {
   branches: Branch[];
+  regions?: Region[];
   employees: Employee[];
   activeRows: SalaryRow[];
   accounts: AccountOpening[];
@@ -62,7 +64,7 @@ const StatCard: React.FC<{ title: string; value: string | number; icon: React.Re
   </div>
 );
 
-const Dashboard: React.FC<DashboardProps> = ({ branches, employees, activeRows, accounts, month, language, centerRecords = [], targets = [], currentUser }) => {
+const Dashboard: React.FC<DashboardProps> = ({ branches, regions = [], employees, activeRows, accounts, month, language, centerRecords = [], targets = [], currentUser }) => {
   const t = translations[language];
   const [expandedBranch, setExpandedBranch] = useState<string | null>(null);
   const [showAtRiskOnly, setShowAtRiskOnly] = useState(false);
@@ -134,6 +136,31 @@ const Dashboard: React.FC<DashboardProps> = ({ branches, employees, activeRows,
       });
   }, [branches, employeeStats]);
 
+  // 2b. Region and Zone Roll-ups: the branch figures above added up, once branches have regions
+  const regionStats = useMemo(() => {
+      const addUp = (stats: typeof branchStats) => {
+          const totalTarget = stats.reduce((sum, b) => sum + b.totalTarget, 0);
+          const totalCollected = stats.reduce((sum, b) => sum + b.totalCollected, 0);
+          return {
+              branchCount: stats.length,
+              totalTarget,
+              totalCollected,
+              progress: totalTarget > 0 ? (totalCollected / totalTarget) * 100 : 0,
+              totalAccTarget: stats.reduce((sum, b) => sum + b.totalAccTarget, 0),
+              totalAccOpened: stats.reduce((sum, b) => sum + b.totalAccOpened, 0),
+              atRiskCount: stats.reduce((sum, b) => sum + b.atRiskCount, 0)
+          };
+      };
+      const groups = groupByRegion(branches, regions);
+      if (!groups.some(group => group.region)) return [];
+      const statsOf = (groupBranches: Branch[]) => branchStats.filter(stat => groupBranches.includes(stat.branch));
+      return groupByZone(groups).map(({ zone, groups: zoneGroups }) => ({
+          zone,
+          ...addUp(statsOf(zoneGroups.flatMap(group => group.branches))),
+          regions: zoneGroups.map(group => ({ region: group.region, ...addUp(statsOf(group.branches)) }))
+      }));
+  }, [branches, regions, branchStats]);
+
   // 3. User Specific Stats
   const myStats = useMemo(() => {
       if (currentUser?.role !== 'USER') return null;
@@ -354,8 +381,8 @@ const Dashboard: React.FC<DashboardProps> = ({ branches, employees, activeRows,
 
   // 2. MANAGER VIEW
   const renderManagerView = () => {
-      // Filter for current manager's branch
-      const myBranchStats = branchStats.find(b => b.branch.id === currentUser?.branch_id);
+      // The one branch shown: the manager's own, or the one picked among the branches they cover
+      const myBranchStats = branchStats.length === 1 ? branchStats[0] : branchStats.find(b => b.branch.id === currentUser?.branch_id);
       
       if (!myBranchStats) return <div className="text-center p-8 text-slate-400">Branch data not found.</div>;
 
@@ -452,9 +479,113 @@ const Dashboard: React.FC<DashboardProps> = ({ branches, employees, activeRows,
       );
   };
 
-  // 3. ADMIN / SUPER ADMIN / OWNER VIEW
+  // 3. AREA VIEW: the branches a user covers, added up, above the same branch cards admins get
+  const renderAreaView = () => {
+      const totalTarget = branchStats.reduce((sum, b) => sum + b.totalTarget, 0);
+      const totalCollected = branchStats.reduce((sum, b) => sum + b.totalCollected, 0);
+      const progress = totalTarget > 0 ? (totalCollected / totalTarget) * 100 : 0;
+      const atRiskCount = branchStats.reduce((sum, b) => sum + b.atRiskCount, 0);
+      const behind = [...branchStats].filter(b => b.totalTarget > 0).sort((a, b) => a.progress - b.progress)[0];
+
+      return (
+          <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+                      <p className="text-xs font-bold text-slate-400 uppercase">Area Target ({branchStats.length} Branches)</p>
+                      <p className="text-xl font-bold text-slate-800 mt-1">৳{totalTarget.toLocaleString()}</p>
+                  </div>
+                  <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+                      <p className="text-xs font-bold text-slate-400 uppercase">Total Collection</p>
+                      <p className="text-xl font-bold text-emerald-600 mt-1">৳{totalCollected.toLocaleString()}</p>
+                  </div>
+                  <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+                      <p className="text-xs font-bold text-slate-400 uppercase">Avg Achievement</p>
+                      <p className={`text-xl font-bold mt-1 ${totalTarget > 0 ? (progress >= 80 ? 'text-emerald-600' : 'text-amber-600') : 'text-slate-400'}`}>
+                          {totalTarget > 0 ? progress.toFixed(1) + '%' : 'N/A'}
+                      </p>
+                      {behind && <p className="text-[10px] text-slate-400 mt-1">Furthest behind: {behind.branch.name} ({behind.progress.toFixed(0)}%)</p>}
+                  </div>
+                  <div className="bg-rose-50 p-4 rounded-xl border border-rose-100 shadow-sm">
+                      <p className="text-xs font-bold text-rose-400 uppercase flex items-center gap-1">
+                          <AlertTriangle size={12} /> At Risk Staff
+                      </p>
+                      <p className="text-xl font-bold text-rose-700 mt-1">{atRiskCount}</p>
+                  </div>
+              </div>
+              {renderAdminView()}
+          </div>
+      );
+  };
+
+  // Zone rows with their regions under them; zones are only shown when some region has one
+  const renderRegionRollup = () => {
+      const showZones = regionStats.some(zoneStat => zoneStat.regions.some(stat => stat.region?.zone));
+      const progressCell = (stat: { totalTarget: number; progress: number }) => (
+          <td className="p-3">
+              <div className="flex items-center gap-2 justify-end">
+                  <div className="h-1.5 w-20 bg-slate-100 rounded-full overflow-hidden">
+                      <div className={`h-full rounded-full ${stat.totalTarget > 0 ? getProgressColor(stat.progress) : 'bg-slate-300'}`} style={{ width: `${stat.totalTarget > 0 ? Math.min(100, stat.progress) : 0}%` }}></div>
+                  </div>
+                  <span className="w-12 text-right text-xs font-bold text-slate-600">{stat.totalTarget > 0 ? `${stat.progress.toFixed(0)}%` : '-'}</span>
+              </div>
+          </td>
+      );
+
+      return (
+          <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+              <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex items-center gap-2">
+                  <Layers size={18} className="text-slate-400" />
+                  <h4 className="font-bold text-slate-800">Regional Roll-up</h4>
+              </div>
+              <table className="w-full text-sm">
+                  <thead>
+                      <tr className="text-[10px] text-slate-400 uppercase border-b border-slate-100">
+                          <th className="text-left p-3">Region</th>
+                          <th className="text-right p-3">Branches</th>
+                          <th className="text-right p-3">Collection</th>
+                          <th className="text-right p-3">Target</th>
+                          <th className="text-right p-3">Achievement</th>
+                          <th className="text-right p-3">Accounts</th>
+                          <th className="text-right p-3">At Risk</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                      {regionStats.map(zoneStat => (
+                          <React.Fragment key={zoneStat.zone ?? ''}>
+                              {showZones && (
+                                  <tr className="bg-slate-50 font-bold text-slate-700">
+                                      <td className="p-3 text-xs uppercase">{zoneLabel(zoneStat.zone)}</td>
+                                      <td className="p-3 text-right">{zoneStat.branchCount}</td>
+                                      <td className="p-3 text-right">৳{zoneStat.totalCollected.toLocaleString()}</td>
+                                      <td className="p-3 text-right">৳{zoneStat.totalTarget.toLocaleString()}</td>
+                                      {progressCell(zoneStat)}
+                                      <td className="p-3 text-right">{zoneStat.totalAccOpened} / {zoneStat.totalAccTarget}</td>
+                                      <td className="p-3 text-right text-rose-600">{zoneStat.atRiskCount || '-'}</td>
+                                  </tr>
+                              )}
+                              {zoneStat.regions.map(stat => (
+                                  <tr key={stat.region?.id || ''} className="text-slate-600">
+                                      <td className={`p-3 font-medium text-slate-800 ${showZones ? 'pl-6' : ''}`}>{regionLabel(stat.region)}</td>
+                                      <td className="p-3 text-right">{stat.branchCount}</td>
+                                      <td className="p-3 text-right font-medium text-slate-800">৳{stat.totalCollected.toLocaleString()}</td>
+                                      <td className="p-3 text-right">৳{stat.totalTarget.toLocaleString()}</td>
+                                      {progressCell(stat)}
+                                      <td className="p-3 text-right">{stat.totalAccOpened} / {stat.totalAccTarget}</td>
+                                      <td className="p-3 text-right text-rose-600">{stat.atRiskCount || '-'}</td>
+                                  </tr>
+                              ))}
+                          </React.Fragment>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
+      );
+  };
+
+  // 4. ADMIN / SUPER ADMIN / OWNER VIEW
   const renderAdminView = () => (
       <div className="space-y-6">
+          {regionStats.length > 0 && renderRegionRollup()}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {branchStats.map(stat => (
                   <div key={stat.branch.id} className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow">
@@ -557,8 +688,8 @@ const Dashboard: React.FC<DashboardProps> = ({ branches, employees, activeRows,
       {/* --- TARGET DASHBOARD SECTION (NEW) --- */}
       <div className="mb-8">
           {currentUser?.role === 'USER' && renderFieldOfficerView()}
-          {currentUser?.role === 'MANAGER' && renderManagerView()}
-          {['SUPER_ADMIN', 'ADMIN', 'OWNER'].includes(currentUser?.role || '') && renderAdminView()}
+          {['MANAGER', 'AREA_MANAGER'].includes(currentUser?.role || '') && (branchStats.length > 1 ? renderAreaView() : renderManagerView())}
+          {['SUPER_ADMIN', 'ADMIN', 'OWNER', 'AUDITOR'].includes(currentUser?.role || '') && renderAdminView()}
       </div>
 
       {/* Month Label for context */}
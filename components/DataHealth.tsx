@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import { HeartPulse, RefreshCw, Link2Off, Copy, CheckCircle2, Wrench } from 'lucide-react';
+import type { DependencyData } from '../services/dependencyService';
+import { scanDataHealth, HealthEntity, HealthFix, HealthIssue, HealthIssueKind } from '../services/dataHealthService';
+
+interface DataHealthProps {
+  data: DependencyData; // Every record, inactive ones included
+  onRefresh: () => void;
+  onFix: (issue: HealthIssue, fix: HealthFix, value?: string) => void;
+}
+
+const ENTITY_LABELS: Record<HealthEntity, string> = {
+  BRANCH: 'Branch',
+  USER: 'System User',
+  EMPLOYEE: 'Employee',
+  CENTER: 'Center',
+  ACCOUNT: 'Account',
+  COLLECTION: 'Collection'
+};
+
+const KIND_TABS: { kind: HealthIssueKind; label: string; icon: React.ElementType }[] = [
+  { kind: 'ORPHAN', label: 'Broken Links', icon: Link2Off },
+  { kind: 'DUPLICATE', label: 'Duplicates', icon: Copy }
+];
+
+const FixControl: React.FC<{ issue: HealthIssue; fix: HealthFix; onFix: DataHealthProps['onFix'] }> = ({ issue, fix, onFix }) => {
+  const [value, setValue] = useState('');
+  const needsChoice = !!fix.options;
+  const isDestructive = fix.action === 'DEACTIVATE';
+
+  const apply = () => {
+    if (needsChoice && !value) {
+      alert("Please choose an option first.");
+      return;
+    }
+    const target = fix.options?.find(o => o.value === value)?.label || issue.recordName;
+    if (isDestructive && !confirm(`Deactivate ${target}? It can be reactivated from Inactive Records.`)) return;
+    onFix(issue, fix, value || undefined);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {needsChoice && (
+        <select value={value} onChange={e => setValue(e.target.value)} className="p-1.5 border border-slate-300 rounded-lg text-xs bg-white max-w-[220px]">
+          <option value="">{fix.options!.length > 0 ? 'Select...' : 'No candidates'}</option>
+          {fix.options!.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      )}
+      <button
+        onClick={apply}
+        className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors whitespace-nowrap ${isDestructive ? 'text-red-700 bg-red-50 border-red-200 hover:bg-red-100' : 'text-blue-700 bg-blue-50 border-blue-200 hover:bg-blue-100'}`}
+      >
+        <Wrench size={12} /> {fix.label}
+      </button>
+    </div>
+  );
+};
+
+const DataHealth: React.FC<DataHealthProps> = ({ data, onRefresh, onFix }) => {
+  const [activeKind, setActiveKind] = useState<HealthIssueKind>('ORPHAN');
+  const [entityFilter, setEntityFilter] = useState<HealthEntity | ''>('');
+
+  const issues = useMemo(() => scanDataHealth(data), [data]);
+
+  const visibleIssues = issues
+    .filter(i => i.kind === activeKind)
+    .filter(i => !entityFilter || i.entity === entityFilter);
+
+  return (
+    <div className="max-w-6xl mx-auto h-full flex flex-col">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+        <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-slate-200 p-2 rounded-lg text-slate-600">
+              <HeartPulse size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Data Health</h2>
+              <p className="text-sm text-slate-500">Records pointing at missing or deactivated data, and codes stored more than once.</p>
+            </div>
+          </div>
+          <button onClick={onRefresh} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors">
+            <RefreshCw size={14} /> Rescan
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex items-end justify-between border-b border-slate-100">
+          <div className="flex gap-2">
+            {KIND_TABS.map(({ kind, label, icon: Icon }) => (
+              <button
+                key={kind}
+                onClick={() => setActiveKind(kind)}
+                className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${activeKind === kind ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-500 hover:text-slate-800'}`}
+              >
+                <Icon size={16} /> {label}
+                <span className="text-[10px] bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded-full font-bold">{issues.filter(i => i.kind === kind).length}</span>
+              </button>
+            ))}
+          </div>
+          <select value={entityFilter} onChange={e => setEntityFilter(e.target.value as HealthEntity | '')} className="mb-2 p-1.5 border border-slate-300 rounded-lg text-sm bg-white">
+            <option value="">All Entities</option>
+            {(Object.keys(ENTITY_LABELS) as HealthEntity[]).map(entity => <option key={entity} value={entity}>{ENTITY_LABELS[entity]}</option>)}
+          </select>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar flex-1">
+          <div className="grid grid-cols-1 gap-3">
+            {visibleIssues.map(issue => (
+              <div key={issue.key} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-white border border-slate-200 rounded-lg hover:border-slate-300 transition-all">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] px-2 py-0.5 rounded-full font-bold bg-slate-100 text-slate-600">{ENTITY_LABELS[issue.entity]}</span>
+                    <h4 className="font-semibold text-slate-700">{issue.recordName}</h4>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">{issue.problem}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {issue.fixes.map(fix => <FixControl key={fix.action} issue={issue} fix={fix} onFix={onFix} />)}
+                </div>
+              </div>
+            ))}
+
+            {visibleIssues.length === 0 && (
+              <div className="flex flex-col items-center gap-2 text-center py-10 text-slate-400 italic border-2 border-dashed border-slate-200 rounded-lg">
+                <CheckCircle2 size={24} className="text-emerald-400" />
+                No {activeKind === 'ORPHAN' ? 'broken links' : 'duplicates'} found.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataHealth;
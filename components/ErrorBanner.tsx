@@ -0,0 +1,22 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface ErrorBannerProps {
+  message: string;
+  onDismiss: () => void;
+}
+
+// App-wide bar for failed loads and saves, shown under the header until dismissed
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onDismiss }) => {
+  return (
+    <div role="alert" className="bg-red-50 border-b border-red-200 px-6 py-3 flex items-start gap-3 text-sm text-red-800 no-print animate-in fade-in slide-in-from-top-2">
+      <AlertTriangle size={18} className="shrink-0 mt-0.5 text-red-600" />
+      <p className="flex-1 font-medium">{message}</p>
+      <button onClick={onDismiss} className="text-red-400 hover:text-red-600 transition-colors" title="Dismiss">
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Branch, Employee, User, AccountOpening, Center, DeactivatableEntity } from '../types';
+import { Archive, RotateCcw, Building, Users, UserCheck, MapPin, FileText } from 'lucide-react';
+
+export interface InactiveRecordSet {
+  branches: Branch[];
+  users: User[];
+  employees: Employee[];
+  centers: Center[];
+  accounts: AccountOpening[];
+}
+
+interface InactiveRecordsProps {
+  records: InactiveRecordSet;
+  branches: Branch[]; // Active branches, for name lookup
+  entities: DeactivatableEntity[]; // The kinds of record the user may reactivate
+  onReactivate: (entity: DeactivatableEntity, id: string) => void;
+}
+
+const TABS: { entity: DeactivatableEntity; label: string; icon: React.ElementType }[] = [
+  { entity: 'BRANCH', label: 'Branches', icon: Building },
+  { entity: 'EMPLOYEE', label: 'Employees', icon: UserCheck },
+  { entity: 'CENTER', label: 'Centers', icon: MapPin },
+  { entity: 'ACCOUNT', label: 'Accounts', icon: FileText },
+  { entity: 'USER', label: 'Users', icon: Users }
+];
+
+const InactiveRecords: React.FC<InactiveRecordsProps> = ({ records, branches, entities, onReactivate }) => {
+  const [activeTab, setActiveTab] = useState<DeactivatableEntity>(entities[0] || 'BRANCH');
+
+  const branchName = (id?: string) => branches.find(b => b.id === id)?.name || records.branches.find(b => b.id === id)?.name || 'Unknown';
+
+  const rows: { id: string; title: string; subtitle: string }[] = (() => {
+    switch (activeTab) {
+      case 'BRANCH':
+        return records.branches.map(b => ({ id: b.id, title: b.name, subtitle: b.address || '-' }));
+      case 'EMPLOYEE':
+        return records.employees.map(e => ({ id: e.id, title: `${e.name} (${e.id})`, subtitle: `${e.designation} • ${branchName(e.branch_id)}` }));
+      case 'CENTER':
+        return records.centers.map(c => ({ id: c.id, title: `${c.centerName} (#${c.centerCode})`, subtitle: branchName(c.branchId) }));
+      case 'ACCOUNT':
+        return records.accounts.map(a => ({ id: String(a.id), title: a.account_code, subtitle: `${a.opening_date} • ${branchName(a.branch_id)}` }));
+      case 'USER':
+        return records.users.map(u => ({ id: u.id, title: `${u.name} (@${u.username})`, subtitle: u.role }));
+    }
+  })();
+
+  const visibleTabs = TABS.filter(tab => entities.includes(tab.entity));
+
+  return (
+    <div className="max-w-5xl mx-auto h-full flex flex-col">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+        <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-slate-200 p-2 rounded-lg text-slate-600">
+              <Archive size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Inactive Records</h2>
+              <p className="text-sm text-slate-500">Deactivated records are hidden everywhere else. Reactivate to restore them.</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 pt-4 flex gap-2 border-b border-slate-100">
+          {visibleTabs.map(({ entity, label, icon: Icon }) => {
+            const count = entity === 'BRANCH' ? records.branches.length
+              : entity === 'EMPLOYEE' ? records.employees.length
+              : entity === 'CENTER' ? records.centers.length
+              : entity === 'ACCOUNT' ? records.accounts.length
+              : records.users.length;
+            return (
+              <button
+                key={entity}
+                onClick={() => setActiveTab(entity)}
+                className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${activeTab === entity ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-500 hover:text-slate-800'}`}
+              >
+                <Icon size={16} /> {label}
+                <span className="text-[10px] bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded-full font-bold">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar flex-1">
+          <div className="grid grid-cols-1 gap-3">
+            {rows.map(row => (
+              <div key={row.id} className="flex items-center justify-between p-4 bg-white border border-slate-200 rounded-lg hover:border-slate-300 transition-all">
+                <div>
+                  <h4 className="font-semibold text-slate-700">{row.title}</h4>
+                  <p className="text-xs text-slate-500 mt-0.5">{row.subtitle}</p>
+                </div>
+                <button
+                  onClick={() => onReactivate(activeTab, row.id)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-lg hover:bg-emerald-100 transition-colors"
+                >
+                  <RotateCcw size={14} /> Reactivate
+                </button>
+              </div>
+            ))}
+
+            {rows.length === 0 && (
+              <div className="text-center py-10 text-slate-400 italic border-2 border-dashed border-slate-200 rounded-lg">
+                No inactive records.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InactiveRecords;
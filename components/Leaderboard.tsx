@@ -1,11 +1,13 @@
 
 import React, { useMemo } from 'react';
-import { SalaryRow, Branch, AccountOpening } from '../types';
-import { Trophy, Medal, Crown, TrendingUp, Award, Building2, MapPin, Star, CreditCard, UserPlus } from 'lucide-react';
+import { SalaryRow, Branch, Region, AccountOpening } from '../types';
+import { Trophy, Medal, Crown, TrendingUp, Award, Building2, MapPin, Star, CreditCard, UserPlus, Layers } from 'lucide-react';
+import { groupByRegion, groupByZone, regionLabel, zoneLabel } from '../services/regions';
 
 interface LeaderboardProps {
   rows: SalaryRow[];
   branches: Branch[];
+  regions?: Region[];
   month: string;
   accounts: AccountOpening[];
 }
@@ -70,7 +72,7 @@ const EmployeeCard: React.FC<{ row: SalaryRow; rank: number; compact?: boolean }
   );
 };
 
-const Leaderboard: React.FC<LeaderboardProps> = ({ rows, branches, month, accounts }) => {
+const Leaderboard: React.FC<LeaderboardProps> = ({ rows, branches, regions = [], month, accounts }) => {
   
   // Sort Logic
   const sortPerformance = (a: SalaryRow, b: SalaryRow) => {
@@ -107,6 +109,33 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ rows, branches, month, accoun
       }).sort((a, b) => b.totalCollection - a.totalCollection); // Rank branches by total collection
   }, [rows, branches]);
 
+  // 2b. Region and Zone Standings (once branches have regions)
+  const regionStandings = useMemo(() => {
+      const groups = groupByRegion(branches, regions);
+      if (!groups.some(group => group.region)) return { regions: [], zones: [] };
+      const rowsOf = (groupBranches: Branch[]) => rows.filter(r => groupBranches.some(b => b.id === r.branch.id));
+      const total = (groupRows: SalaryRow[]) => groupRows.reduce((sum, r) => sum + r.total_collection, 0);
+
+      const regionStats = groups.map(group => {
+          const groupRows = rowsOf(group.branches);
+          return {
+              region: group.region,
+              branchCount: group.branches.length,
+              employeeCount: groupRows.length,
+              totalCollection: total(groupRows),
+              topPerformer: [...groupRows].sort(sortPerformance)[0] as SalaryRow | undefined
+          };
+      }).sort((a, b) => b.totalCollection - a.totalCollection);
+
+      // Zones only mean something when some region has one
+      const zones = groups.some(group => group.region?.zone)
+          ? groupByZone(groups)
+              .map(({ zone, groups: zoneGroups }) => ({ zone, totalCollection: total(rowsOf(zoneGroups.flatMap(group => group.branches))) }))
+              .sort((a, b) => b.totalCollection - a.totalCollection)
+          : [];
+      return { regions: regionStats, zones };
+  }, [rows, branches, regions]);
+
   // 3. Category Leaders
   const categoryLeaders = useMemo(() => {
       // Highest Loan Collection
@@ -223,7 +252,66 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ rows, branches, month, accoun
            </div>
        </div>
 
-       {/* Section 2: Branch Wise Breakdown */}
+       {/* Section 2: Region Standings */}
+       {regionStandings.regions.length > 0 && (
+           <div className="space-y-6 pt-6 border-t border-slate-200">
+               <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                   <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                       <Layers className="text-emerald-500" /> Region Rankings
+                   </h3>
+                   {regionStandings.zones.length > 0 && (
+                       <div className="flex flex-wrap gap-2">
+                           {regionStandings.zones.map((zone, idx) => (
+                               <span key={zone.zone ?? ''} className={`text-xs font-medium px-2 py-1 rounded border ${idx === 0 ? 'bg-yellow-50 text-yellow-700 border-yellow-200' : 'bg-white text-slate-500 border-slate-200'}`}>
+                                   {zoneLabel(zone.zone)}: <span className="font-bold">৳{zone.totalCollection.toLocaleString()}</span>
+                               </span>
+                           ))}
+                       </div>
+                   )}
+               </div>
+
+               <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+                   <table className="w-full text-sm">
+                       <thead className="bg-slate-50">
+                           <tr className="text-[10px] text-slate-400 uppercase">
+                               <th className="text-left p-3">Rank</th>
+                               <th className="text-left p-3">Region</th>
+                               <th className="text-right p-3">Branches</th>
+                               <th className="text-right p-3">Staff</th>
+                               <th className="text-right p-3">Total Collection</th>
+                               <th className="text-right p-3">Avg / Staff</th>
+                               <th className="text-left p-3">Top Performer</th>
+                           </tr>
+                       </thead>
+                       <tbody className="divide-y divide-slate-100">
+                           {regionStandings.regions.map((stats, idx) => (
+                               <tr key={stats.region?.id || ''} className={idx === 0 ? 'bg-yellow-50/50' : ''}>
+                                   <td className="p-3 font-bold text-slate-500">#{idx + 1}</td>
+                                   <td className="p-3">
+                                       <p className="font-bold text-slate-800">{regionLabel(stats.region)}</p>
+                                       {stats.region?.zone && <p className="text-[10px] text-slate-400">{stats.region.zone}</p>}
+                                   </td>
+                                   <td className="p-3 text-right text-slate-600">{stats.branchCount}</td>
+                                   <td className="p-3 text-right text-slate-600">{stats.employeeCount}</td>
+                                   <td className="p-3 text-right font-bold text-slate-700">৳{stats.totalCollection.toLocaleString()}</td>
+                                   <td className="p-3 text-right text-slate-600">৳{Math.round(stats.employeeCount ? stats.totalCollection / stats.employeeCount : 0).toLocaleString()}</td>
+                                   <td className="p-3">
+                                       {stats.topPerformer ? (
+                                           <>
+                                               <p className="font-medium text-slate-800">{stats.topPerformer.employee.name}</p>
+                                               <p className="text-[10px] text-slate-400">{stats.topPerformer.branch.name}</p>
+                                           </>
+                                       ) : <span className="text-slate-400">-</span>}
+                                   </td>
+                               </tr>
+                           ))}
+                       </tbody>
+                   </table>
+               </div>
+           </div>
+       )}
+
+       {/* Section 3: Branch Wise Breakdown */}
        <div className="space-y-6 pt-6 border-t border-slate-200">
            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                <Building2 className="text-blue-500" /> Branch Rankings
@@ -282,7 +370,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ rows, branches, month, accoun
            </div>
        </div>
 
-       {/* Section 3: Category Champions */}
+       {/* Section 4: Category Champions */}
        <div className="space-y-6 pt-6 border-t border-slate-200">
            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                <Award className="text-indigo-500" /> Category Leaders
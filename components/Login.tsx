@@ -1,17 +1,20 @@
 
 import React, { useState } from 'react';
 import { User } from '../types';
-import { Lock, User as UserIcon, ArrowRight, ShieldCheck, Building2 } from 'lucide-react';
-import { googleSheetService } from '../services/googleSheetService';
+import { Lock, User as UserIcon, ArrowRight, ShieldCheck, Building2, Smartphone } from 'lucide-react';
+import { dataStore } from '../services/dataStore';
+import { AccessDeniedError, describeError } from '../services/errors';
 
 interface LoginProps {
   onLogin: (user: User) => void;
-  users?: User[]; 
 }
 
 const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  // Asked for once the password is right for an account with two-factor sign-in; the password is sent again with it
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -21,31 +24,37 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setLoading(true);
 
     try {
-        // Strict Authentication: Fetch Users from Service
-        const users = await googleSheetService.getUsers();
-        
-        if (users.length === 0) {
-             setError("Database is empty or connection failed. Please ensure SystemUsers sheet is populated.");
-             setLoading(false);
-             return;
-        }
-
-        const user = users.find(u => u.username === username);
-        
-        // Simple password check (In production, use hashing)
-        if (user && user.password === password) {
+        // Credentials are checked by the data backend (the API server, or the local store)
+        const user = await dataStore.authenticate(username, password, needsCode ? code : undefined);
+        if (user) {
             onLogin(user);
         } else {
-            setError('Invalid username or password.');
+            setError(needsCode ? 'Invalid code. Check your authenticator app and try again.' : 'Invalid username or password.');
+            setCode('');
         }
     } catch (err) {
+        if (err instanceof AccessDeniedError && err.reason === 'SECOND_FACTOR') {
+            setNeedsCode(true);
+            return;
+        }
+        if (err instanceof AccessDeniedError && err.reason === 'LOCKED_OUT') {
+            setError(err.message);
+            return;
+        }
         console.error(err);
-        setError("Connection Error: Unable to reach Google Sheets database.");
+        setError(`Connection Error: ${describeError(err)}`);
     } finally {
         setLoading(false);
     }
   };
 
+  const handleBack = () => {
+    setNeedsCode(false);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex bg-slate-50">
       
@@ -79,8 +88,10 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         <div className="max-w-md w-full bg-white lg:bg-transparent lg:shadow-none rounded-2xl shadow-xl p-8 lg:p-0">
           
           <div className="text-center lg:text-left mb-10">
-            <h2 className="text-3xl font-bold text-slate-900">Welcome Back</h2>
-            <p className="text-slate-500 mt-2">Please sign in to access your dashboard.</p>
+            <h2 className="text-3xl font-bold text-slate-900">{needsCode ? 'Two-Factor Sign-in' : 'Welcome Back'}</h2>
+            <p className="text-slate-500 mt-2">
+              {needsCode ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.' : 'Please sign in to access your dashboard.'}
+            </p>
           </div>
           
           <form onSubmit={handleSubmit} className="space-y-6">
@@ -90,41 +101,68 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
               </div>
             )}
             
-            <div className="space-y-2">
-              <label className="text-sm font-semibold text-slate-700">Username</label>
-              <div className="relative group">
-                <div className="absolute left-0 top-0 bottom-0 w-10 flex items-center justify-center text-slate-400 group-focus-within:text-blue-600 transition-colors">
-                  <UserIcon size={20} />
+            {needsCode ? (
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-700">Code</label>
+                <div className="relative group">
+                  <div className="absolute left-0 top-0 bottom-0 w-10 flex items-center justify-center text-slate-400 group-focus-within:text-blue-600 transition-colors">
+                    <Smartphone size={20} />
+                  </div>
+                  <input 
+                    type="text" 
+                    required
+                    autoFocus
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-mono tracking-widest text-slate-800 placeholder:text-slate-400"
+                    placeholder="123456"
+                  />
                 </div>
-                <input 
-                  type="text" 
-                  required
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-slate-800 placeholder:text-slate-400"
-                  placeholder="Enter your username"
-                />
+                <button type="button" onClick={handleBack} className="text-sm text-slate-500 hover:text-blue-600 font-medium">
+                  Use a different account
+                </button>
               </div>
-            </div>
-
-            <div className="space-y-2">
-              <div className="flex justify-between">
-                <label className="text-sm font-semibold text-slate-700">Password</label>
+            ) : (
+              <>
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-700">Username</label>
+                <div className="relative group">
+                  <div className="absolute left-0 top-0 bottom-0 w-10 flex items-center justify-center text-slate-400 group-focus-within:text-blue-600 transition-colors">
+                    <UserIcon size={20} />
+                  </div>
+                  <input 
+                    type="text" 
+                    required
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-slate-800 placeholder:text-slate-400"
+                    placeholder="Enter your username"
+                  />
+                </div>
               </div>
-              <div className="relative group">
-                <div className="absolute left-0 top-0 bottom-0 w-10 flex items-center justify-center text-slate-400 group-focus-within:text-blue-600 transition-colors">
-                  <Lock size={20} />
+
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <label className="text-sm font-semibold text-slate-700">Password</label>
+                </div>
+                <div className="relative group">
+                  <div className="absolute left-0 top-0 bottom-0 w-10 flex items-center justify-center text-slate-400 group-focus-within:text-blue-600 transition-colors">
+                    <Lock size={20} />
+                  </div>
+                  <input 
+                    type="password" 
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-slate-800 placeholder:text-slate-400"
+                    placeholder="••••••••"
+                  />
                 </div>
-                <input 
-                  type="password" 
-                  required
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-slate-800 placeholder:text-slate-400"
-                  placeholder="••••••••"
-                />
               </div>
-            </div>
+
+              </>
+            )}
 
             <button 
               type="submit" 
@@ -0,0 +1,218 @@
+import React, { useState, useMemo } from 'react';
+import { LoginEvent, LoginLockout, LoginOutcome, User } from '../types';
+import { ShieldAlert, RefreshCw, LockOpen, AlertTriangle } from 'lucide-react';
+import { describeClient } from './ActiveSessions';
+import { LOCKOUT_MINUTES, MAX_FAILED_LOGINS } from '../services/loginHistory';
+
+interface LoginSecurityProps {
+  history: LoginEvent[];
+  lockouts: LoginLockout[];
+  users: User[]; // For names; attempts keep the username as typed
+  onRefresh: () => void;
+  onUnlock: (lockout: LoginLockout) => void;
+  canUnlock: boolean;
+}
+
+const OUTCOME_LABELS: Record<LoginOutcome, string> = {
+  SUCCESS: 'Signed in',
+  FAILED: 'Failed',
+  LOCKED_OUT: 'Refused (locked)',
+  UNLOCKED: 'Unlocked'
+};
+
+const OUTCOME_STYLES: Record<LoginOutcome, string> = {
+  SUCCESS: 'bg-emerald-50 text-emerald-700',
+  FAILED: 'bg-red-50 text-red-700',
+  LOCKED_OUT: 'bg-amber-50 text-amber-700',
+  UNLOCKED: 'bg-blue-50 text-blue-700'
+};
+
+// Usernames with at least this many failures in the last day are listed as suspicious, locked out or not
+const SUSPICIOUS_FAILURES = 3;
+const DAY_MS = 24 * 3600 * 1000;
+
+const LoginSecurity: React.FC<LoginSecurityProps> = ({ history, lockouts, users, onRefresh, onUnlock, canUnlock }) => {
+  const [usernameFilter, setUsernameFilter] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState<LoginOutcome | ''>('');
+
+  const userFor = (id?: string) => users.find(u => u.id === id);
+
+  // Failed and refused attempts of the last 24 hours, per username typed
+  const suspicious = useMemo(() => {
+    const since = new Date(Date.now() - DAY_MS).toISOString();
+    const byUsername = new Map<string, { username: string; userId?: string; failures: number; clients: Set<string>; lastAt: string }>();
+    history
+      .filter(e => e.timestamp >= since && (e.outcome === 'FAILED' || e.outcome === 'LOCKED_OUT'))
+      .forEach(e => {
+        const row = byUsername.get(e.username) || { username: e.username, userId: e.userId, failures: 0, clients: new Set<string>(), lastAt: '' };
+        row.failures++;
+        if (e.client) row.clients.add(e.client);
+        if (e.timestamp > row.lastAt) row.lastAt = e.timestamp;
+        byUsername.set(e.username, row);
+      });
+    return Array.from(byUsername.values())
+      .filter(row => row.failures >= SUSPICIOUS_FAILURES)
+      .sort((a, b) => b.failures - a.failures);
+  }, [history]);
+
+  const filteredHistory = useMemo(() => {
+    const search = usernameFilter.trim().toLowerCase();
+    return history
+      .filter(e => !search || e.username.toLowerCase().includes(search))
+      .filter(e => !outcomeFilter || e.outcome === outcomeFilter)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }, [history, usernameFilter, outcomeFilter]);
+
+  const handleUnlock = (lockout: LoginLockout) => {
+    if (!confirm(`Unlock "${lockout.username}"? Its failed attempts are forgotten and sign-in is allowed again at once.`)) return;
+    onUnlock(lockout);
+  };
+
+  const accountLabel = (username: string, userId?: string) => {
+    const account = userFor(userId);
+    return (
+      <>
+        <div className="font-medium text-slate-700">{username}</div>
+        <div className="text-[10px] text-slate-400">{account ? `${account.name} - ${account.role}` : 'No such user'}</div>
+      </>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-slate-200 p-2 rounded-lg text-slate-600">
+              <ShieldAlert size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Login Security</h2>
+              <p className="text-sm text-slate-500">
+                {MAX_FAILED_LOGINS} failed sign-ins within {LOCKOUT_MINUTES} minutes lock a username for {LOCKOUT_MINUTES} minutes. Unlock it here to let its owner back in sooner.
+              </p>
+            </div>
+          </div>
+          <button onClick={onRefresh} className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors">
+            <RefreshCw size={14} /> Refresh
+          </button>
+        </div>
+
+        {lockouts.length > 0 ? (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+              <tr>
+                <th className="p-3 font-semibold">Locked Out</th>
+                <th className="p-3 font-semibold text-right">Failed Attempts</th>
+                <th className="p-3 font-semibold">Last Failed</th>
+                <th className="p-3 font-semibold">Locked Until</th>
+                <th className="p-3 font-semibold text-right">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {lockouts.map(lockout => (
+                <tr key={lockout.username} className="hover:bg-slate-50 transition-colors">
+                  <td className="p-3">{accountLabel(lockout.username, lockout.userId)}</td>
+                  <td className="p-3 text-right font-medium text-red-700">{lockout.failedAttempts}</td>
+                  <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(lockout.lastFailedAt).toLocaleString()}</td>
+                  <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(lockout.lockedUntil).toLocaleString()}</td>
+                  <td className="p-3 text-right">
+                    {canUnlock && (
+                      <button onClick={() => handleUnlock(lockout)} className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border text-emerald-700 bg-emerald-50 border-emerald-200 hover:bg-emerald-100 transition-colors">
+                        <LockOpen size={12} /> Unlock
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="m-6 text-center py-6 text-slate-400 italic border-2 border-dashed border-slate-200 rounded-lg">
+            No username is locked out.
+          </div>
+        )}
+      </div>
+
+      {suspicious.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+          <div className="px-6 py-3 text-sm font-semibold text-amber-800 bg-amber-50 border-b border-amber-100 flex items-center gap-2">
+            <AlertTriangle size={16} /> Repeated failures in the last 24 hours
+          </div>
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+              <tr>
+                <th className="p-3 font-semibold">Username</th>
+                <th className="p-3 font-semibold text-right">Failed or Refused</th>
+                <th className="p-3 font-semibold text-right">Browsers</th>
+                <th className="p-3 font-semibold">Last Attempt</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {suspicious.map(row => (
+                <tr key={row.username} className="hover:bg-slate-50 transition-colors">
+                  <td className="p-3">{accountLabel(row.username, row.userId)}</td>
+                  <td className="p-3 text-right font-medium text-red-700">{row.failures}</td>
+                  <td className="p-3 text-right text-slate-600">{row.clients.size}</td>
+                  <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(row.lastAt).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <h3 className="font-bold text-slate-800">Login History</h3>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Username</label>
+            <input value={usernameFilter} onChange={e => setUsernameFilter(e.target.value)} placeholder="Search..." className="w-full p-2 border border-slate-300 rounded-lg text-sm" />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Outcome</label>
+            <select value={outcomeFilter} onChange={e => setOutcomeFilter(e.target.value as LoginOutcome | '')} className="w-full p-2 border border-slate-300 rounded-lg text-sm bg-white">
+              <option value="">All Outcomes</option>
+              {(Object.keys(OUTCOME_LABELS) as LoginOutcome[]).map(outcome => <option key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {filteredHistory.length > 0 ? (
+          <div className="max-h-[32rem] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-white sticky top-0 shadow-sm z-10 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="p-3 font-semibold">Time</th>
+                  <th className="p-3 font-semibold">Username</th>
+                  <th className="p-3 font-semibold">Outcome</th>
+                  <th className="p-3 font-semibold">Browser</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {filteredHistory.map(event => (
+                  <tr key={event.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="p-3 text-slate-600 whitespace-nowrap">{new Date(event.timestamp).toLocaleString()}</td>
+                    <td className="p-3">{accountLabel(event.username, event.userId)}</td>
+                    <td className="p-3">
+                      <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${OUTCOME_STYLES[event.outcome] || 'bg-slate-100 text-slate-600'}`}>
+                        {OUTCOME_LABELS[event.outcome] || event.outcome}
+                      </span>
+                    </td>
+                    <td className="p-3 text-slate-600" title={event.client}>{event.outcome === 'UNLOCKED' ? '-' : describeClient(event.client)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="m-6 text-center py-10 text-slate-400 italic border-2 border-dashed border-slate-200 rounded-lg">
+            No sign-in attempts match these filters.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginSecurity;
@@ -1,31 +1,59 @@
 
 import React, { useState, useRef } from 'react';
-import { Branch } from '../types';
-import { Plus, Edit2, Trash2, Save, X, Building, Upload, FileSpreadsheet, List, CheckCircle, AlertCircle, MapPin, Phone } from 'lucide-react';
+import { Branch, Region } from '../types';
+import { Plus, Edit2, Trash2, Save, X, Building, Upload, FileSpreadsheet, List, CheckCircle, AlertCircle, MapPin, Phone, Layers } from 'lucide-react';
 import { parseBranchesCSV } from '../services/importService';
 
 interface ManageBranchesProps {
   branches: Branch[];
-  onAdd: (data: { name: string, address?: string, phone?: string }) => void;
-  onEdit: (id: string, data: { name: string, address?: string, phone?: string }) => void;
+  regions: Region[];
+  onAdd: (data: { name: string, address?: string, phone?: string, region_id?: string }) => void;
+  onEdit: (id: string, data: { name: string, address?: string, phone?: string, region_id?: string }) => void;
   onDelete: (id: string) => void;
   onBulkAdd: (branches: { name: string, address?: string, phone?: string }[]) => void;
+  onAddRegion: (data: { name: string, zone?: string }) => void;
+  onEditRegion: (id: string, data: { name: string, zone?: string }) => void;
+  onDeleteRegion: (id: string) => void;
 }
 
-const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit, onDelete, onBulkAdd }) => {
-  const [viewMode, setViewMode] = useState<'LIST' | 'BULK'>('LIST');
+// Picks the region a branch reports under; blank leaves it in none
+const RegionSelect: React.FC<{ regions: Region[]; value: string; onChange: (value: string) => void; className: string }> = ({ regions, value, onChange, className }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+    <option value="">No Region</option>
+    {regions.map(region => (
+      <option key={region.id} value={region.id}>{region.zone ? `${region.name} (${region.zone})` : region.name}</option>
+    ))}
+  </select>
+);
+
+const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, regions, onAdd, onEdit, onDelete, onBulkAdd, onAddRegion, onEditRegion, onDeleteRegion }) => {
+  const [viewMode, setViewMode] = useState<'LIST' | 'REGIONS' | 'BULK'>('LIST');
   const [isAdding, setIsAdding] = useState(false);
   
   // Add Form State
   const [newName, setNewName] = useState('');
   const [newAddress, setNewAddress] = useState('');
   const [newPhone, setNewPhone] = useState('');
+  const [newRegionId, setNewRegionId] = useState('');
   
   // Edit State
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editAddress, setEditAddress] = useState('');
   const [editPhone, setEditPhone] = useState('');
+  const [editRegionId, setEditRegionId] = useState('');
+
+  // Region State
+  const [isAddingRegion, setIsAddingRegion] = useState(false);
+  const [newRegionName, setNewRegionName] = useState('');
+  const [newRegionZone, setNewRegionZone] = useState('');
+  const [editingRegionId, setEditingRegionId] = useState<string | null>(null);
+  const [editRegionName, setEditRegionName] = useState('');
+  const [editRegionZone, setEditRegionZone] = useState('');
+
+  // Zones typed so far, offered when naming another region's
+  const zones = [...new Set(regions.map(r => r.zone).filter(Boolean))] as string[];
+  const regionOf = (branch: Branch) => regions.find(r => r.id === branch.region_id);
 
   // Bulk State
   const [bulkData, setBulkData] = useState<{ name: string, address?: string, phone?: string }[]>([]);
@@ -35,10 +63,11 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
   const handleAddSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newName.trim()) return;
-    onAdd({ name: newName, address: newAddress, phone: newPhone });
+    onAdd({ name: newName, address: newAddress, phone: newPhone, region_id: newRegionId || undefined });
     setNewName('');
     setNewAddress('');
     setNewPhone('');
+    setNewRegionId('');
     setIsAdding(false);
   };
 
@@ -47,11 +76,12 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
     setEditName(branch.name);
     setEditAddress(branch.address || '');
     setEditPhone(branch.phone || '');
+    setEditRegionId(branch.region_id || '');
   };
 
   const saveEdit = () => {
     if (editingId && editName.trim()) {
-      onEdit(editingId, { name: editName, address: editAddress, phone: editPhone });
+      onEdit(editingId, { name: editName, address: editAddress, phone: editPhone, region_id: editRegionId || undefined });
       setEditingId(null);
       setEditName('');
     }
@@ -61,6 +91,28 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
     setEditingId(null);
   };
 
+  const handleAddRegionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRegionName.trim()) return;
+    onAddRegion({ name: newRegionName.trim(), zone: newRegionZone.trim() });
+    setNewRegionName('');
+    setNewRegionZone('');
+    setIsAddingRegion(false);
+  };
+
+  const startEditRegion = (region: Region) => {
+    setEditingRegionId(region.id);
+    setEditRegionName(region.name);
+    setEditRegionZone(region.zone || '');
+  };
+
+  const saveEditRegion = () => {
+    if (editingRegionId && editRegionName.trim()) {
+      onEditRegion(editingRegionId, { name: editRegionName.trim(), zone: editRegionZone.trim() });
+      setEditingRegionId(null);
+    }
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -69,7 +121,7 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
     reader.onload = (event) => {
       const content = event.target?.result as string;
       if (content) {
-        const result = parseBranchesCSV(content);
+        const result = parseBranchesCSV(content, branches);
         setBulkData(result.valid);
         setBulkErrors(result.errors);
       }
@@ -96,7 +148,7 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
             </div>
             <div>
               <h2 className="text-lg font-bold text-slate-800">Manage Branches</h2>
-              <p className="text-sm text-slate-500">Add, rename, or remove office branches</p>
+              <p className="text-sm text-slate-500">Add, rename, or remove office branches and the regions they report under</p>
             </div>
           </div>
           
@@ -108,6 +160,13 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
                   <List size={16} />
                   <span>List</span>
               </button>
+              <button 
+                  onClick={() => setViewMode('REGIONS')}
+                  className={`flex items-center space-x-2 px-3 py-1.5 text-sm font-medium rounded-md transition-all ${viewMode === 'REGIONS' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-600 hover:text-slate-900'}`}
+              >
+                  <Layers size={16} />
+                  <span>Regions</span>
+              </button>
               <button 
                     onClick={() => setViewMode('BULK')}
                     className={`flex items-center space-x-2 px-3 py-1.5 text-sm font-medium rounded-md transition-all ${viewMode === 'BULK' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-600 hover:text-slate-900'}`}
@@ -135,7 +194,7 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
               {/* Add Form */}
               {isAdding && (
                 <form onSubmit={handleAddSubmit} className="mb-6 bg-emerald-50 border border-emerald-100 p-4 rounded-lg animate-in fade-in slide-in-from-top-2">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div>
                       <label className="block text-xs font-semibold text-emerald-700 uppercase mb-1">Branch Name *</label>
                       <input 
@@ -168,6 +227,15 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
                         placeholder="e.g. +1 555-0000"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-emerald-700 uppercase mb-1">Region</label>
+                      <RegionSelect
+                        regions={regions}
+                        value={newRegionId}
+                        onChange={setNewRegionId}
+                        className="w-full border border-emerald-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-500 outline-none text-sm bg-white"
+                      />
+                    </div>
                   </div>
                   <div className="flex justify-end gap-2 mt-4">
                     <button type="button" onClick={() => setIsAdding(false)} className="px-3 py-1.5 bg-white border border-slate-200 text-slate-500 rounded hover:text-slate-800 hover:bg-slate-50 text-sm">
@@ -185,7 +253,7 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
                   <div key={branch.id} className="group flex items-start justify-between p-4 bg-white border border-slate-200 rounded-lg hover:border-emerald-300 hover:shadow-sm transition-all">
                     
                     {editingId === branch.id ? (
-                      <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-3">
                         <input 
                           autoFocus
                           type="text" 
@@ -200,6 +268,12 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
                           onChange={(e) => setEditAddress(e.target.value)}
                           className="border border-blue-300 rounded px-3 py-1.5 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
                           placeholder="Address"
+                        />
+                        <RegionSelect
+                          regions={regions}
+                          value={editRegionId}
+                          onChange={setEditRegionId}
+                          className="border border-blue-300 rounded px-3 py-1.5 focus:ring-2 focus:ring-blue-500 outline-none text-sm bg-white"
                         />
                          <div className="flex gap-2">
                            <input 
@@ -220,7 +294,14 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
                             {branch.name.substring(0, 2).toUpperCase()}
                           </div>
                           <div>
-                             <h4 className="font-semibold text-slate-800">{branch.name}</h4>
+                             <h4 className="font-semibold text-slate-800 flex items-center gap-2">
+                                {branch.name}
+                                {regionOf(branch) && (
+                                    <span className="text-[10px] font-bold uppercase bg-emerald-50 text-emerald-700 border border-emerald-100 px-1.5 py-0.5 rounded">
+                                        {regionOf(branch)!.name}
+                                    </span>
+                                )}
+                             </h4>
                              <div className="flex flex-col md:flex-row md:items-center gap-2 md:gap-4 mt-1">
                                 {branch.address && (
                                     <div className="flex items-center text-xs text-slate-500">
@@ -245,11 +326,7 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
                             <Edit2 size={16} />
                           </button>
                           <button 
-                            onClick={() => {
-                              if(confirm(`Are you sure you want to delete "${branch.name}"? This might affect existing employee records.`)) {
-                                onDelete(branch.id);
-                              }
-                            }}
+                            onClick={() => onDelete(branch.id)}
                             className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
                             title="Delete"
                           >
@@ -270,6 +347,136 @@ const ManageBranches: React.FC<ManageBranchesProps> = ({ branches, onAdd, onEdit
             </>
           )}
 
+          {viewMode === 'REGIONS' && (
+            <>
+              <div className="flex justify-between items-center mb-4">
+                <p className="text-xs text-slate-500">Regions group branches in reports; regions with the same zone are added up under it.</p>
+                <button 
+                  onClick={() => setIsAddingRegion(true)}
+                  disabled={isAddingRegion}
+                  className="flex items-center space-x-2 bg-emerald-600 text-white px-4 py-2 rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium shadow-sm shrink-0"
+                >
+                  <Plus size={16} />
+                  <span>Add Region</span>
+                </button>
+              </div>
+
+              <datalist id="region-zones">
+                {zones.map(zone => <option key={zone} value={zone} />)}
+              </datalist>
+
+              {isAddingRegion && (
+                <form onSubmit={handleAddRegionSubmit} className="mb-6 bg-emerald-50 border border-emerald-100 p-4 rounded-lg animate-in fade-in slide-in-from-top-2">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-semibold text-emerald-700 uppercase mb-1">Region Name *</label>
+                      <input 
+                        autoFocus
+                        required
+                        type="text" 
+                        value={newRegionName}
+                        onChange={(e) => setNewRegionName(e.target.value)}
+                        className="w-full border border-emerald-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-500 outline-none text-sm"
+                        placeholder="e.g. Dhaka North"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-emerald-700 uppercase mb-1">Zone</label>
+                      <input 
+                        type="text" 
+                        list="region-zones"
+                        value={newRegionZone}
+                        onChange={(e) => setNewRegionZone(e.target.value)}
+                        className="w-full border border-emerald-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-500 outline-none text-sm"
+                        placeholder="e.g. Central Zone"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2 mt-4">
+                    <button type="button" onClick={() => setIsAddingRegion(false)} className="px-3 py-1.5 bg-white border border-slate-200 text-slate-500 rounded hover:text-slate-800 hover:bg-slate-50 text-sm">
+                      Cancel
+                    </button>
+                    <button type="submit" className="px-3 py-1.5 bg-emerald-600 text-white rounded hover:bg-emerald-700 text-sm flex items-center gap-2">
+                      <Save size={16} /> Save Region
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              <div className="grid grid-cols-1 gap-3">
+                {regions.map(region => {
+                  const regionBranches = branches.filter(b => b.region_id === region.id);
+                  return (
+                    <div key={region.id} className="group flex items-start justify-between p-4 bg-white border border-slate-200 rounded-lg hover:border-emerald-300 hover:shadow-sm transition-all">
+                      {editingRegionId === region.id ? (
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <input 
+                            autoFocus
+                            type="text" 
+                            value={editRegionName}
+                            onChange={(e) => setEditRegionName(e.target.value)}
+                            className="border border-blue-300 rounded px-3 py-1.5 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                            placeholder="Name"
+                          />
+                          <div className="flex gap-2">
+                            <input 
+                              type="text" 
+                              list="region-zones"
+                              value={editRegionZone}
+                              onChange={(e) => setEditRegionZone(e.target.value)}
+                              className="flex-1 border border-blue-300 rounded px-3 py-1.5 focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                              placeholder="Zone"
+                            />
+                            <button onClick={saveEditRegion} className="text-green-600 hover:bg-green-50 p-1.5 rounded"><Save size={16} /></button>
+                            <button onClick={() => setEditingRegionId(null)} className="text-slate-400 hover:bg-slate-100 p-1.5 rounded"><X size={16} /></button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="flex items-start space-x-4">
+                            <div className="w-10 h-10 rounded-full bg-emerald-50 flex items-center justify-center text-emerald-600 shrink-0">
+                              <Layers size={18} />
+                            </div>
+                            <div>
+                              <h4 className="font-semibold text-slate-800">{region.name}</h4>
+                              <p className="text-xs text-slate-500 mt-1">
+                                {region.zone ? `${region.zone} · ` : ''}
+                                {regionBranches.length > 0 ? regionBranches.map(b => b.name).join(', ') : 'No branches yet'}
+                              </p>
+                            </div>
+                          </div>
+
+                          <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button 
+                              onClick={() => startEditRegion(region)}
+                              className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                              title="Edit"
+                            >
+                              <Edit2 size={16} />
+                            </button>
+                            <button 
+                              onClick={() => onDeleteRegion(region.id)}
+                              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                              title="Delete"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {regions.length === 0 && (
+                  <div className="text-center py-10 text-slate-400 italic border-2 border-dashed border-slate-200 rounded-lg">
+                    No regions yet. Add one, then pick it on the branches that report under it.
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
           {viewMode === 'BULK' && (
              <div className="space-y-6 animate-in fade-in duration-300">
                <div className="bg-emerald-50 border border-emerald-100 rounded-lg p-4">
@@ -498,9 +498,7 @@ const ManageCenters: React.FC<ManageCentersProps> = ({ centers, branches, employ
                                                             <Edit2 size={16} />
                                                         </button>
                                                         <button 
-                                                            onClick={() => {
-                                                                if(confirm(`Delete center "${center.centerName}"?`)) onDelete(center.id);
-                                                            }}
+                                                            onClick={() => onDelete(center.id)}
                                                             className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
                                                             title="Delete"
                                                         >
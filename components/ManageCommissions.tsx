@@ -1,16 +1,25 @@
-import React, { useState } from 'react';
-import { CommissionStructure } from '../types';
+import React, { useState, useEffect } from 'react';
+import { CommissionStructure, Employee } from '../types';
 import { Percent, Plus, Trash2, Save, AlertTriangle, ArrowRight } from 'lucide-react';
 
 interface ManageCommissionsProps {
   rates: Record<string, CommissionStructure>;
-  onUpdateRates: (newRates: Record<string, CommissionStructure>) => void;
+  employees: Employee[];
+  onUpdateRates: (newRates: Record<string, CommissionStructure>) => Promise<boolean>;
 }
 
-const ManageCommissions: React.FC<ManageCommissionsProps> = ({ rates, onUpdateRates }) => {
+const ManageCommissions: React.FC<ManageCommissionsProps> = ({ rates, employees, onUpdateRates }) => {
   const [localRates, setLocalRates] = useState<Record<string, CommissionStructure>>({ ...rates });
   const [newType, setNewType] = useState('');
   const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved rates after a reload, unless the user is mid-edit
+  useEffect(() => {
+    if (!isDirty) setLocalRates({ ...rates });
+  }, [rates]);
+
+  const employeeCount = (type: string) => employees.filter(e => e.commission_type === type).length;
 
   const handleRateChange = (type: string, field: 'own' | 'office', value: string) => {
     const numValue = parseFloat(value);
@@ -44,6 +53,11 @@ const ManageCommissions: React.FC<ManageCommissionsProps> = ({ rates, onUpdateRa
   };
 
   const handleDeleteType = (type: string) => {
+    const assigned = employeeCount(type);
+    if (assigned > 0) {
+      alert(`Type ${type} is assigned to ${assigned} employee(s). Move them to another type before removing it.`);
+      return;
+    }
     if (confirm(`Are you sure you want to delete Type ${type}? This may affect employees assigned to this type.`)) {
       const updated = { ...localRates };
       delete updated[type];
@@ -52,10 +66,14 @@ const ManageCommissions: React.FC<ManageCommissionsProps> = ({ rates, onUpdateRa
     }
   };
 
-  const handleSave = () => {
-    onUpdateRates(localRates);
-    setIsDirty(false);
-    alert('Commission rates updated successfully!');
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onUpdateRates(localRates);
+    setIsSaving(false);
+    if (saved) {
+      setIsDirty(false);
+      alert('Commission rates updated successfully!');
+    }
   };
 
   return (
@@ -74,11 +92,11 @@ const ManageCommissions: React.FC<ManageCommissionsProps> = ({ rates, onUpdateRa
           
           <button 
             onClick={handleSave}
-            disabled={!isDirty}
+            disabled={!isDirty || isSaving}
             className="flex items-center space-x-2 bg-fuchsia-600 text-white px-4 py-2 rounded-lg hover:bg-fuchsia-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium shadow-sm"
           >
             <Save size={16} />
-            <span>Save Changes</span>
+            <span>{isSaving ? 'Saving...' : 'Save Changes'}</span>
           </button>
         </div>
 
@@ -109,7 +127,7 @@ const ManageCommissions: React.FC<ManageCommissionsProps> = ({ rates, onUpdateRa
 
                <div className="mt-4 bg-amber-50 border border-amber-100 rounded-xl p-4 text-xs text-amber-800 flex gap-2 items-start">
                   <AlertTriangle size={16} className="shrink-0 mt-0.5" />
-                  <p>Changes made here will affect new salary calculations immediately. Existing calculated sheets might remain unchanged until re-generated or updated.</p>
+                  <p>Saved rates apply immediately to every open salary sheet. A type cannot be removed while employees are still assigned to it.</p>
                </div>
             </div>
 
@@ -131,7 +149,7 @@ const ManageCommissions: React.FC<ManageCommissionsProps> = ({ rates, onUpdateRa
                            return (
                            <tr key={type} className="hover:bg-slate-50 transition-colors group">
                               <td className="p-4">
-                                 <div className="w-10 h-10 rounded-full bg-slate-100 border border-slate-200 flex items-center justify-center font-bold text-slate-700">
+                                 <div title={`${employeeCount(type)} employee(s)`} className="w-10 h-10 rounded-full bg-slate-100 border border-slate-200 flex items-center justify-center font-bold text-slate-700">
                                     {type}
                                  </div>
                               </td>
@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import { BranchScope, PermissionAction, PermissionEntity, PermissionMatrix, RolePermissions, UserRole } from '../types';
+import { KeyRound, Save, RotateCcw, AlertTriangle, Check } from 'lucide-react';
+import { DEFAULT_PERMISSIONS, ENTITY_ACTIONS, PERMISSION_ENTITIES, USER_ROLES } from '../services/permissions';
+
+interface ManagePermissionsProps {
+  permissions: PermissionMatrix;
+  onSave: (rows: RolePermissions[]) => Promise<boolean>;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  SUPER_ADMIN: 'Super Admin',
+  ADMIN: 'Admin',
+  OWNER: 'Owner',
+  AREA_MANAGER: 'Area Manager',
+  MANAGER: 'Manager',
+  USER: 'Field Officer',
+  AUDITOR: 'Auditor'
+};
+
+const ENTITY_LABELS: Record<PermissionEntity, string> = {
+  USER: 'System Users',
+  BRANCH: 'Branches',
+  EMPLOYEE: 'Employees',
+  ACCOUNT: 'Accounts',
+  COLLECTION: 'Collections',
+  CENTER: 'Centers',
+  COMMISSION: 'Commission Rates',
+  TARGET: 'Targets',
+  SALARY: 'Salary Sheets',
+  AUDIT_LOG: 'Audit Log',
+  DATA_HEALTH: 'Data Health',
+  BACKUP: 'Backup',
+  SESSION: 'Active Sessions',
+  LOGIN: 'Login Security'
+};
+
+const ACTION_LABELS: Record<PermissionAction, string> = {
+  VIEW: 'View',
+  CREATE: 'Create',
+  EDIT: 'Edit',
+  DELETE: 'Deactivate',
+  APPROVE: 'Approve'
+};
+
+// Where an action means something more specific than its name
+const ACTION_OVERRIDES: Partial<Record<PermissionEntity, Partial<Record<PermissionAction, string>>>> = {
+  ACCOUNT: { EDIT: 'Count into salary', APPROVE: 'Revert counted' },
+  COLLECTION: { DELETE: 'Delete' },
+  BACKUP: { VIEW: 'Download', CREATE: 'Restore' },
+  SESSION: { DELETE: 'Revoke' },
+  LOGIN: { VIEW: 'View history', EDIT: 'Unlock' }
+};
+
+const SCOPE_LABELS: Record<BranchScope, string> = {
+  ALL: 'All branches',
+  BRANCH: 'Assigned branches'
+};
+
+const ManagePermissions: React.FC<ManagePermissionsProps> = ({ permissions, onSave }) => {
+  const [localPermissions, setLocalPermissions] = useState<PermissionMatrix>(permissions);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved matrix after a reload, unless the user is mid-edit
+  useEffect(() => {
+    if (!isDirty) setLocalPermissions(permissions);
+  }, [permissions]);
+
+  const updateRole = (role: UserRole, change: (current: RolePermissions) => Partial<RolePermissions>) => {
+    setLocalPermissions(prev => ({ ...prev, [role]: { ...prev[role], ...change(prev[role]) } }));
+    setIsDirty(true);
+  };
+
+  const toggleAction = (role: UserRole, entity: PermissionEntity, action: PermissionAction) => {
+    updateRole(role, current => {
+      const actions = current.actions[entity] || [];
+      const next = actions.includes(action) ? actions.filter(a => a !== action) : [...actions, action];
+      return { actions: { ...current.actions, [entity]: ENTITY_ACTIONS[entity].filter(a => next.includes(a)) } };
+    });
+  };
+
+  // Keeps each role's stored row (and its version), so saving overwrites it rather than adding another
+  const handleRestoreDefaults = () => {
+    if (!confirm('Reset every role to the built-in permissions? Nothing is stored until you save.')) return;
+    setLocalPermissions(prev => Object.fromEntries(USER_ROLES.map(role => [
+      role, { ...prev[role], scope: DEFAULT_PERMISSIONS[role].scope, actions: DEFAULT_PERMISSIONS[role].actions }
+    ])) as PermissionMatrix);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    // Super Admin's row is sent for its two-factor requirement; it always keeps every permission
+    const saved = await onSave(USER_ROLES.map(role => localPermissions[role]));
+    setIsSaving(false);
+    if (saved) {
+      setIsDirty(false);
+      alert('Permissions updated. Signed-in users get them with their next request.');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto h-full flex flex-col">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full">
+        <div className="bg-slate-50 border-b border-slate-200 p-6 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-indigo-100 p-2 rounded-lg text-indigo-600">
+              <KeyRound size={24} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Role Permissions</h2>
+              <p className="text-sm text-slate-500">What each role may do, and in which branches. The API server enforces the saved matrix.</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button onClick={handleRestoreDefaults} className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors">
+              <RotateCcw size={14} /> Defaults
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving}
+              className="flex items-center space-x-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium shadow-sm"
+            >
+              <Save size={16} />
+              <span>{isSaving ? 'Saving...' : 'Save Changes'}</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 text-xs text-amber-800 bg-amber-50 border-b border-amber-100 flex gap-2 items-start">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <p>Branches, centers and commission rates are readable by everyone. Without View, a role still sees its own employee record and the accounts and collections it made.</p>
+        </div>
+
+        <div className="overflow-auto custom-scrollbar flex-1">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-white sticky top-0 shadow-sm z-10 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="p-3 font-semibold">Permission</th>
+                {USER_ROLES.map(role => <th key={role} className="p-3 font-semibold text-center">{ROLE_LABELS[role]}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              <tr className="bg-slate-50/60">
+                <td className="p-3 font-medium text-slate-700">Branch Scope</td>
+                {USER_ROLES.map(role => (
+                  <td key={role} className="p-3 text-center">
+                    {role === 'SUPER_ADMIN' ? (
+                      <span className="text-xs text-slate-500">{SCOPE_LABELS.ALL}</span>
+                    ) : (
+                      <select
+                        value={localPermissions[role].scope}
+                        onChange={e => updateRole(role, () => ({ scope: e.target.value as BranchScope }))}
+                        className="p-1 border border-slate-300 rounded text-xs bg-white"
+                      >
+                        {(Object.keys(SCOPE_LABELS) as BranchScope[]).map(scope => <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>)}
+                      </select>
+                    )}
+                  </td>
+                ))}
+              </tr>
+              <tr className="bg-slate-50/60">
+                <td className="p-3 font-medium text-slate-700">
+                  Require Two-Factor Sign-in
+                  <div className="text-[10px] font-normal text-slate-400">Users must set it up before anything else</div>
+                </td>
+                {USER_ROLES.map(role => (
+                  <td key={role} className="p-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!localPermissions[role].requireTwoFactor}
+                      onChange={e => updateRole(role, () => ({ requireTwoFactor: e.target.checked }))}
+                      className="w-4 h-4 accent-indigo-600 cursor-pointer"
+                    />
+                  </td>
+                ))}
+              </tr>
+              {PERMISSION_ENTITIES.map(entity => ENTITY_ACTIONS[entity].map((action, i) => (
+                <tr key={`${entity}-${action}`} className="hover:bg-slate-50 transition-colors">
+                  <td className="p-3">
+                    {i === 0 && <div className="text-[10px] font-bold text-slate-400 uppercase">{ENTITY_LABELS[entity]}</div>}
+                    <div className="text-slate-700">{ACTION_OVERRIDES[entity]?.[action] || ACTION_LABELS[action]}</div>
+                  </td>
+                  {USER_ROLES.map(role => (
+                    <td key={role} className="p-3 text-center">
+                      {role === 'SUPER_ADMIN' ? (
+                        <Check size={14} className="inline text-slate-400" />
+                      ) : (
+                        <input
+                          type="checkbox"
+                          checked={!!localPermissions[role].actions[entity]?.includes(action)}
+                          onChange={() => toggleAction(role, entity, action)}
+                          className="w-4 h-4 accent-indigo-600 cursor-pointer"
+                        />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ManagePermissions;
@@ -54,6 +54,7 @@ const ManageTargets: React.FC<ManageTargetsProps> = ({ branches, employees, targ
     const newTarget: Target = {
       id: existingTarget?.id || `tgt_${emp.id}_${selectedMonth}`,
       rowIndex: existingTarget?.rowIndex,
+      updatedAt: existingTarget?.updatedAt,
       employeeId: emp.id,
       month: selectedMonth,
       collectionTarget: edits.collection,
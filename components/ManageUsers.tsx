@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { User, Branch, UserRole, Employee } from '../types';
-import { UserPlus, Shield, Trash2, Edit2, KeyRound, Building, User as UserIcon, X } from 'lucide-react';
+import { UserPlus, Shield, Trash2, Edit2, KeyRound, Building, User as UserIcon, X, Smartphone, ShieldOff } from 'lucide-react';
 
 interface ManageUsersProps {
   users: User[];
@@ -10,9 +10,31 @@ interface ManageUsersProps {
   onAddUser: (user: Omit<User, 'id'>) => void;
   onEditUser: (id: string, data: Partial<User>) => void;
   onDeleteUser: (id: string) => void;
+  onResetTwoFactor: (user: User) => void;
 }
 
-const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, onAddUser, onEditUser, onDeleteUser }) => {
+// Branches covered besides the home branch: all of an Area Manager's, or a Manager's extra ones
+const BranchChecklist: React.FC<{ branches: Branch[]; selected: string[]; exclude?: string; onChange: (ids: string[]) => void }> = ({ branches, selected, exclude, onChange }) => (
+  <div className="max-h-40 overflow-y-auto border border-slate-300 rounded bg-white p-2 grid grid-cols-2 gap-1">
+    {branches.filter(b => b.id !== exclude).map(b => (
+      <label key={b.id} className="flex items-center gap-2 text-sm text-slate-700 px-1 py-0.5 rounded hover:bg-slate-50 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={selected.includes(b.id)}
+          onChange={() => onChange(selected.includes(b.id) ? selected.filter(id => id !== b.id) : [...selected, b.id])}
+          className="accent-indigo-600"
+        />
+        <span className="truncate">{b.name}</span>
+      </label>
+    ))}
+  </div>
+);
+
+// Only Managers and Area Managers cover more than one branch
+const coveredBranchIds = (role: UserRole, homeBranchId: string, ids: string[]) =>
+  role === 'AREA_MANAGER' ? ids : role === 'MANAGER' ? ids.filter(id => id !== homeBranchId) : [];
+
+const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, onAddUser, onEditUser, onDeleteUser, onResetTwoFactor }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   
@@ -22,6 +44,7 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
   const [password, setPassword] = useState('');
   const [role, setRole] = useState<UserRole>('MANAGER');
   const [branchId, setBranchId] = useState('');
+  const [branchIds, setBranchIds] = useState<string[]>([]);
   const [employeeId, setEmployeeId] = useState('');
 
   // Edit Form State
@@ -30,12 +53,17 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
   const [editPassword, setEditPassword] = useState('');
   const [editRole, setEditRole] = useState<UserRole>('MANAGER');
   const [editBranchId, setEditBranchId] = useState('');
+  const [editBranchIds, setEditBranchIds] = useState<string[]>([]);
   const [editEmployeeId, setEditEmployeeId] = useState('');
 
   const handleAdd = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name || !username || !password) return;
     if (role === 'MANAGER' && !branchId) return;
+    if (role === 'AREA_MANAGER' && branchIds.length === 0) {
+      alert("Select at least one branch for the Area Manager.");
+      return;
+    }
     if (role === 'USER' && (!branchId || !employeeId)) return;
 
     onAddUser({
@@ -44,6 +72,7 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
       password,
       role,
       branch_id: (role === 'MANAGER' || role === 'USER') ? branchId : undefined,
+      branch_ids: coveredBranchIds(role, branchId, branchIds),
       employee_id: role === 'USER' ? employeeId : undefined,
       avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random&color=fff`
     });
@@ -53,6 +82,7 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
     setPassword('');
     setRole('MANAGER');
     setBranchId('');
+    setBranchIds([]);
     setEmployeeId('');
     setIsAdding(false);
   };
@@ -61,21 +91,27 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
     setEditingId(user.id);
     setEditName(user.name);
     setEditUsername(user.username);
-    setEditPassword(user.password || '');
+    setEditPassword('');
     setEditRole(user.role);
     setEditBranchId(user.branch_id || '');
+    setEditBranchIds(user.branch_ids || []);
     setEditEmployeeId(user.employee_id || '');
   };
 
   const handleUpdate = (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingId) return;
+    if (editRole === 'AREA_MANAGER' && editBranchIds.length === 0) {
+      alert("Select at least one branch for the Area Manager.");
+      return;
+    }
 
     const updatedData: Partial<User> = {
       name: editName,
       username: editUsername,
       role: editRole,
       branch_id: (editRole === 'MANAGER' || editRole === 'USER') ? editBranchId : undefined,
+      branch_ids: coveredBranchIds(editRole, editBranchId, editBranchIds),
       employee_id: editRole === 'USER' ? editEmployeeId : undefined,
       password: editPassword 
     };
@@ -101,7 +137,7 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
             </div>
             <div>
               <h2 className="text-lg font-bold text-slate-800">System Users</h2>
-              <p className="text-sm text-slate-500">Manage Admins, Managers, and Field Officers</p>
+              <p className="text-sm text-slate-500">Manage Admins, Area and Branch Managers, and Field Officers</p>
             </div>
           </div>
           
@@ -155,6 +191,7 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                       <option value="SUPER_ADMIN">Super Admin</option>
                       <option value="OWNER">Owner</option>
                       <option value="ADMIN">Admin</option>
+                      <option value="AREA_MANAGER">Area Manager</option>
                       <option value="MANAGER">Branch Manager</option>
                       <option value="USER">Normal User (Field Officer)</option>
                     </select>
@@ -193,6 +230,13 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                     </div>
                   )}
 
+                  {(role === 'MANAGER' || role === 'AREA_MANAGER') && (
+                    <div className="md:col-span-2">
+                      <label className="text-xs font-semibold text-slate-600 mb-1 block">{role === 'AREA_MANAGER' ? 'Branches Covered' : 'Also Covers (optional)'}</label>
+                      <BranchChecklist branches={branches} selected={branchIds} exclude={role === 'MANAGER' ? branchId : undefined} onChange={setBranchIds} />
+                    </div>
+                  )}
+
                   <div className="md:col-span-2 flex justify-end gap-3 mt-2">
                     <button type="button" onClick={() => setIsAdding(false)} className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium">Cancel</button>
                     <button type="submit" className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-sm">Save User</button>
@@ -205,12 +249,14 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {users.map(user => {
               const userBranch = branches.find(b => b.id === user.branch_id);
+              const coveredBranches = (user.branch_ids || []).map(id => branches.find(b => b.id === id)?.name || id);
               const userEmployee = employees.find(e => e.id === user.employee_id);
               
               let roleColor = 'bg-slate-100 text-slate-700';
               if (user.role === 'SUPER_ADMIN') roleColor = 'bg-purple-100 text-purple-700';
               if (user.role === 'OWNER') roleColor = 'bg-amber-100 text-amber-700';
               if (user.role === 'ADMIN') roleColor = 'bg-cyan-100 text-cyan-700';
+              if (user.role === 'AREA_MANAGER') roleColor = 'bg-teal-100 text-teal-700';
               if (user.role === 'MANAGER') roleColor = 'bg-emerald-100 text-emerald-700';
               if (user.role === 'USER') roleColor = 'bg-blue-100 text-blue-700';
 
@@ -222,6 +268,11 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                          <div>
                             <h4 className="font-bold text-slate-800">{user.name}</h4>
                             <p className="text-xs text-slate-500">@{user.username}</p>
+                            {user.twoFactorEnabled && (
+                                <span className="inline-flex items-center gap-1 mt-1 text-[10px] font-bold text-emerald-700 bg-emerald-50 px-1.5 py-0.5 rounded" title="Signs in with an authenticator app">
+                                  <Smartphone size={10} /> 2FA
+                                </span>
+                            )}
                          </div>
                       </div>
                       <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${roleColor}`}>
@@ -229,12 +280,20 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                       </span>
                    </div>
 
-                   {(user.role === 'MANAGER' || user.role === 'USER') && (
+                   {(user.role === 'MANAGER' || user.role === 'USER' || user.role === 'AREA_MANAGER') && (
                       <div className="mt-4 pt-4 border-t border-slate-100 space-y-2">
-                         <div className="flex items-center text-sm text-slate-600">
-                            <Building size={16} className="mr-2 text-slate-400" />
-                            {userBranch ? userBranch.name : <span className="text-red-400 italic">Unassigned Branch</span>}
-                         </div>
+                         {user.role !== 'AREA_MANAGER' && (
+                             <div className="flex items-center text-sm text-slate-600">
+                                <Building size={16} className="mr-2 text-slate-400" />
+                                {userBranch ? userBranch.name : <span className="text-red-400 italic">Unassigned Branch</span>}
+                             </div>
+                         )}
+                         {coveredBranches.length > 0 && (
+                             <div className="flex items-start text-sm text-slate-600">
+                                <Building size={16} className="mr-2 mt-0.5 shrink-0 text-slate-400" />
+                                <span>{user.role === 'AREA_MANAGER' ? '' : 'Also: '}{coveredBranches.join(', ')}</span>
+                             </div>
+                         )}
                          {user.role === 'USER' && (
                              <div className="flex items-center text-sm text-slate-600">
                                 <UserIcon size={16} className="mr-2 text-slate-400" />
@@ -253,10 +312,17 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                       >
                         <Edit2 size={16} />
                       </button>
+                      {user.twoFactorEnabled && (
+                          <button 
+                            onClick={() => confirm(`Turn off two-factor sign-in for ${user.name}? They can sign in with their password alone until they set it up again.`) && onResetTwoFactor(user)}
+                            className="p-2 text-slate-300 hover:text-amber-500 hover:bg-amber-50 rounded transition-colors"
+                            title="Reset Two-Factor Sign-in"
+                          >
+                            <ShieldOff size={16} />
+                          </button>
+                      )}
                       <button 
-                        onClick={() => {
-                            if (window.confirm(`Delete user ${user.name}?`)) onDeleteUser(user.id);
-                        }}
+                        onClick={() => onDeleteUser(user.id)}
                         className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded transition-colors"
                         title="Delete User"
                       >
@@ -305,11 +371,11 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                    <div className="relative">
                      <KeyRound className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
                      <input 
-                      required type="text" value={editPassword} onChange={e => setEditPassword(e.target.value)}
+                      type="password" value={editPassword} onChange={e => setEditPassword(e.target.value)} placeholder="Leave blank to keep"
                       className="w-full border border-slate-300 rounded pl-8 pr-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
                     />
                    </div>
-                   <p className="text-[10px] text-slate-400 mt-1">Visible for demo purposes only.</p>
+                   <p className="text-[10px] text-slate-400 mt-1">Passwords are stored hashed and cannot be shown.</p>
                 </div>
                 
                 <div>
@@ -321,6 +387,7 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                     <option value="SUPER_ADMIN">Super Admin</option>
                     <option value="OWNER">Owner</option>
                     <option value="ADMIN">Admin</option>
+                    <option value="AREA_MANAGER">Area Manager</option>
                     <option value="MANAGER">Branch Manager</option>
                     <option value="USER">Normal User (Field Officer)</option>
                   </select>
@@ -359,6 +426,13 @@ const ManageUsers: React.FC<ManageUsersProps> = ({ users, branches, employees, o
                   </div>
                 )}
 
+                {(editRole === 'MANAGER' || editRole === 'AREA_MANAGER') && (
+                  <div>
+                    <label className="text-xs font-semibold text-slate-600 mb-1 block">{editRole === 'AREA_MANAGER' ? 'Branches Covered' : 'Also Covers (optional)'}</label>
+                    <BranchChecklist branches={branches} selected={editBranchIds} exclude={editRole === 'MANAGER' ? editBranchId : undefined} onChange={setEditBranchIds} />
+                  </div>
+                )}
+
                 <div className="flex justify-end gap-3 pt-2">
                   <button type="button" onClick={() => setEditingId(null)} className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 text-sm font-medium">Cancel</button>
                   <button type="submit" className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium shadow-sm">Update User</button>
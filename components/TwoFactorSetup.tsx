@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import qrcode from 'qrcode-generator';
+import { User } from '../types';
+import { Smartphone, LogOut, ShieldCheck, ShieldOff, RefreshCw, Copy } from 'lucide-react';
+import { describeError } from '../services/errors';
+import { generateTotpSecret, otpauthUrl } from '../services/twoFactor';
+
+interface TwoFactorSetupProps {
+  user: User;
+  // The user's role requires it: shown instead of the app until it is set up, and it cannot be turned off
+  required: boolean;
+  onEnable: (secret: string, code: string) => Promise<string[] | null>;
+  onReplaceCodes: () => Promise<string[] | null>;
+  onDisable: (currentPassword: string) => Promise<boolean>;
+  onDone: () => void; // The recovery codes have been put away
+  onSignOut: () => void;
+}
+
+const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-medium text-slate-800";
+
+const qrDataUrl = (text: string) => {
+  const qr = qrcode(0, 'M');
+  qr.addData(text);
+  qr.make();
+  return qr.createDataURL(5, 2);
+};
+
+// Shown right after they are made; only their hashes are stored, so this is the one chance to keep them
+const RecoveryCodes: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => (
+  <div className="space-y-5">
+    <div className="bg-amber-50 text-amber-800 text-sm p-4 rounded-xl border border-amber-100">
+      Keep these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They will not be shown again.
+    </div>
+    <div className="grid grid-cols-2 gap-2 font-mono text-sm text-slate-800 bg-slate-50 border border-slate-200 rounded-xl p-4">
+      {codes.map(code => <div key={code}>{code}</div>)}
+    </div>
+    <button type="button" onClick={() => navigator.clipboard?.writeText(codes.join('\n'))} className="w-full flex items-center justify-center gap-2 text-sm font-medium text-slate-600 border border-slate-200 rounded-xl py-2.5 hover:bg-slate-50">
+      <Copy size={16} /> Copy Codes
+    </button>
+    <button type="button" onClick={onDone} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl shadow-lg shadow-blue-500/30 transition-all">
+      I Have Saved Them
+    </button>
+  </div>
+);
+
+/**
+ * Setting up two-factor sign-in with an authenticator app (scan, then confirm a code), and once it is on,
+ * new recovery codes or turning it off. Full screen while the user's role requires it and it is not set up.
+ */
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ user, required, onEnable, onReplaceCodes, onDisable, onDone, onSignOut }) => {
+  const [secret, setSecret] = useState('');
+  const [code, setCode] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const qr = useMemo(() => secret ? qrDataUrl(otpauthUrl(secret, user.username)) : '', [secret, user.username]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setLoading(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(`Connection Error: ${describeError(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const codes = await onEnable(secret, code);
+      if (!codes) {
+        setError('That code does not match. Check the time on your phone and try the newest code.');
+        setCode('');
+        return;
+      }
+      setSecret('');
+      setCode('');
+      setRecoveryCodes(codes);
+    });
+  };
+
+  const handleReplaceCodes = () => {
+    if (!confirm('Make new recovery codes? The ones you have now stop working.')) return;
+    run(async () => {
+      const codes = await onReplaceCodes();
+      if (codes) setRecoveryCodes(codes);
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (!(await onDisable(currentPassword))) setError('The password is incorrect.');
+      setCurrentPassword('');
+    });
+  };
+
+  const handleDone = () => {
+    setRecoveryCodes(null);
+    onDone();
+  };
+
+  let content: React.ReactNode;
+  if (recoveryCodes) {
+    content = <RecoveryCodes codes={recoveryCodes} onDone={handleDone} />;
+  } else if (secret) {
+    content = (
+      <form onSubmit={handleEnable} className="space-y-5">
+        <p className="text-sm text-slate-600">
+          Scan this code with an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password and the like), then enter the 6-digit code it shows.
+        </p>
+        <div className="flex justify-center">
+          <img src={qr} alt="Two-factor QR code" className="border border-slate-200 rounded-xl" />
+        </div>
+        <div className="text-xs text-slate-500 text-center">
+          Can't scan it? Enter this key instead: <span className="font-mono text-slate-700 break-all">{secret.match(/.{1,4}/g)?.join(' ')}</span>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-slate-700">Code</label>
+          <input type="text" required autoFocus autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} className={`${inputClass} font-mono tracking-widest`} placeholder="123456" />
+        </div>
+        <button type="submit" disabled={loading} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl shadow-lg shadow-blue-500/30 transition-all disabled:opacity-70 disabled:cursor-not-allowed">
+          {loading ? 'Checking...' : 'Turn On'}
+        </button>
+        <button type="button" onClick={() => setSecret('')} className="w-full text-sm font-medium text-slate-500 hover:text-slate-800">
+          Cancel
+        </button>
+      </form>
+    );
+  } else if (!user.twoFactorEnabled) {
+    content = (
+      <div className="space-y-5">
+        <p className="text-sm text-slate-600">
+          {required
+            ? `Your role (${user.role}) requires two-factor sign-in. Set it up to continue: you will need a phone with an authenticator app.`
+            : 'Two-factor sign-in is off. With it on, signing in also takes a code from an authenticator app on your phone.'}
+        </p>
+        <button type="button" onClick={() => setSecret(generateTotpSecret())} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl shadow-lg shadow-blue-500/30 transition-all">
+          Set Up Two-Factor Sign-in
+        </button>
+      </div>
+    );
+  } else {
+    content = (
+      <div className="space-y-6">
+        <div className="flex items-center gap-2 text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-xl p-4 text-sm font-medium">
+          <ShieldCheck size={18} /> Two-factor sign-in is on for {user.username}.
+        </div>
+        <button type="button" onClick={handleReplaceCodes} disabled={loading} className="w-full flex items-center justify-center gap-2 text-sm font-medium text-slate-600 border border-slate-200 rounded-xl py-2.5 hover:bg-slate-50 disabled:opacity-70">
+          <RefreshCw size={16} /> New Recovery Codes
+        </button>
+        {required ? (
+          <p className="text-xs text-slate-500">Your role ({user.role}) requires two-factor sign-in, so it cannot be turned off.</p>
+        ) : (
+          <form onSubmit={handleDisable} className="space-y-3 pt-4 border-t border-slate-100">
+            <label className="text-sm font-semibold text-slate-700">Turn off (enter your password)</label>
+            <input type="password" required value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className={inputClass} />
+            <button type="submit" disabled={loading} className="w-full flex items-center justify-center gap-2 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-xl py-2.5 hover:bg-red-100 disabled:opacity-70">
+              <ShieldOff size={16} /> Turn Off Two-Factor Sign-in
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  const card = (
+    <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8">
+      <div className="mb-8">
+        <div className="mb-4 inline-block p-3 bg-blue-50 rounded-2xl text-blue-600">
+          <Smartphone size={28} />
+        </div>
+        <h2 className="text-2xl font-bold text-slate-900">Two-Factor Sign-in</h2>
+        <p className="text-slate-500 mt-2 text-sm">Signed in as <strong>{user.username}</strong>.</p>
+      </div>
+      {error && (
+        <div className="bg-red-50 text-red-600 text-sm p-4 rounded-xl border border-red-100 mb-5">{error}</div>
+      )}
+      {content}
+      {required && !user.twoFactorEnabled && !recoveryCodes && (
+        <button type="button" onClick={onSignOut} className="mt-5 w-full flex items-center justify-center gap-2 text-sm font-medium text-slate-500 hover:text-slate-800">
+          <LogOut size={16} /> Sign Out
+        </button>
+      )}
+    </div>
+  );
+
+  return required && !user.twoFactorEnabled
+    ? <div className="min-h-screen flex items-center justify-center bg-slate-50 p-8">{card}</div>
+    : <div className="flex justify-center">{card}</div>;
+};
+
+export default TwoFactorSetup;
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './services/offline';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,4 +13,5 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+registerServiceWorker();
@@ -0,0 +1,87 @@
+/**
+ * Service worker: keeps the app usable without a connection.
+ *
+ * Every GET of the page and of scripts from the CDNs in index.html's import map, and the /api reads the
+ * Center Calculator needs, goes to the network first and falls back to the last copy saved here, so a
+ * field officer can reopen the calculator offline and keep staging deposits. Writes are never cached;
+ * staged deposits wait in IndexedDB (services/collectionQueue.ts) until the app can send them.
+ *
+ * API copies are kept under the session that read them, so they are only ever served back to that same
+ * session; a 401 (expired or revoked session) empties them, as do sign-in and sign-out in the app.
+ */
+const SHELL_CACHE = 'salary-shell-v1';
+// v2 keys copies by session; activating drops v1's copies, which anyone could read back
+const API_CACHE = 'salary-api-v2';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// The only reads kept offline; everything else (accounts, users, salary sheets, backups...) is network only
+const CACHED_API_PATHS = ['/api/session', '/api/permissions', '/api/branches', '/api/regions', '/api/employees', '/api/centers', '/api/collections'];
+
+// The cache key of an API read: its URL plus a digest of the session token it was sent with
+const apiCacheKey = async request => {
+  const token = request.headers.get('Authorization');
+  if (!token) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  const session = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  const url = new URL(request.url);
+  url.searchParams.set('_session', session);
+  return url.toString();
+};
+
+// Network first; the last copy of an allowed read, for this session only, when the network is unreachable
+const fetchApi = async (request, cacheable) => {
+  const key = cacheable ? await apiCacheKey(request) : null;
+  try {
+    const response = await fetch(request);
+    if (response.status === 401) await caches.delete(API_CACHE);
+    else if (key && response.ok) {
+      const copy = response.clone();
+      caches.open(API_CACHE).then(cache => cache.put(key, copy));
+    }
+    return response;
+  } catch {
+    const cached = key && await caches.match(key, { cacheName: API_CACHE });
+    return cached || Response.error();
+  }
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => ![SHELL_CACHE, API_CACHE].includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.pathname.startsWith('/api/')) {
+    event.respondWith(fetchApi(request, CACHED_API_PATHS.includes(url.pathname)));
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        // Opaque (no-cors) CDN responses report status 0 but are still worth keeping
+        if (response.ok || response.type === 'opaque') {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+        // Any page navigation can be served by the app shell
+        if (request.mode === 'navigate') return (await caches.match('/index.html')) || Response.error();
+        return Response.error();
+      })
+  );
+});
@@ -0,0 +1,33 @@
+/**
+ * Who may read and change what through the API server. The rules themselves are the role permission
+ * matrix (services/permissions.ts), which the app checks too; they are enforced here so a modified
+ * client cannot step outside its role or branch.
+ */
+import type { User } from '../types';
+import { AccessDeniedError } from '../services/errors';
+import { Access, assignedBranchIds, canEditPermissions } from '../services/permissions';
+
+// Only a Super Admin may hand out the Super Admin role or change a Super Admin's account, whatever USER
+// permissions other roles were given; otherwise an admin could promote themselves past the matrix
+export const requireRoleGrant = (access: Access, ...roles: (string | undefined)[]) => {
+  if (roles.includes('SUPER_ADMIN') && !canEditPermissions(access.user)) {
+    throw new AccessDeniedError('FORBIDDEN', 'Only a Super Admin can manage Super Admin accounts.');
+  }
+};
+
+// A system user is in scope when every branch they are assigned to is, so nobody can reach into a branch
+// through an account that also covers theirs. Accounts without a branch need a role that sees every branch.
+export const requireUserScope = (access: Access, what: string, user: Pick<User, 'branch_id' | 'branch_ids'>) => {
+  const branchIds = assignedBranchIds(user);
+  if (branchIds.length === 0) access.requireScope(what);
+  branchIds.forEach(branchId => access.requireScope(what, branchId));
+};
+
+// Listing is looser: a user shows up for anyone who may see one of their branches
+export const canSeeUser = (access: Access, user: Pick<User, 'branch_id' | 'branch_ids'>) => {
+  const branchIds = assignedBranchIds(user);
+  return branchIds.length === 0 ? access.canSee('USER') : branchIds.some(branchId => access.canSee('USER', branchId));
+};
+
+// Passwords and two-factor secrets never leave the server
+export const publicUser = ({ password, totpSecret, recoveryCodes, totpLastStep, ...user }: User): User => user;
@@ -0,0 +1,770 @@
+/**
+ * API server: the only process that holds the Google service-account key. The front end (ApiDataStore)
+ * signs in here and calls the entity endpoints below; every call is checked against the signed-in user's
+ * role permissions and branch (server/accessPolicy.ts) before it reaches Google Sheets.
+ *
+ * Run with `npm run api` (port 8788, override with API_PORT). Credentials are read from the environment
+ * or .env.local: GOOGLE_SERVICE_EMAIL, GOOGLE_PRIVATE_KEY and GOOGLE_SHEET_ID.
+ * Against the local stand-in, set GOOGLE_API_BASE_URL=http://localhost:8787 instead; no key is needed.
+ */
+import './env';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AccountOpening, Branch, Center, CenterCollectionRecord, CommissionStructure, Employee, RecordStatus, Region, RolePermissions, SalaryEntry, SalarySheet, Target, User } from '../types';
+import type { DataStore, DataTab } from '../services/dataStore';
+import { googleSheetService, missingGoogleSettings } from '../services/googleSheetService';
+import { AuditedDataStore } from '../services/auditedDataStore';
+import { AccessDeniedError, AuditLogError, DuplicateRecordError, RowConflictError, SheetsApiError } from '../services/errors';
+import type { IdKind } from '../services/idService';
+import { alreadyCounted, isSheetMonth } from '../services/accountService';
+import { BACKUP_TABLES, hasData } from '../services/backupService';
+import { isLastSuperAdmin, validateNewPassword, validateUserChange } from '../services/userValidation';
+import { DEFAULT_SESSION_TIMEOUTS, SessionRegistry } from '../services/sessionRegistry';
+import { Access, accessFor, canEditPermissions, validatePermissions } from '../services/permissions';
+import { mustSetUpTwoFactor, withTwoFactorPolicy } from '../services/twoFactor';
+import { canSeeUser, publicUser, requireRoleGrant, requireUserScope } from './accessPolicy';
+
+const PORT = Number(process.env.API_PORT || 8788);
+const SESSION_TIMEOUTS = {
+  idleMinutes: Number(process.env.API_SESSION_IDLE_MINUTES || DEFAULT_SESSION_TIMEOUTS.idleMinutes),
+  absoluteHours: Number(process.env.API_SESSION_HOURS || DEFAULT_SESSION_TIMEOUTS.absoluteHours)
+};
+// Only needed when the front end is served from another origin (the Vite dev server proxies /api)
+const ALLOWED_ORIGIN = process.env.API_ALLOWED_ORIGIN || '';
+// Proxies whose X-Forwarded-For is believed; by default the Vite dev server's /api proxy on this machine
+const TRUSTED_PROXIES = (process.env.API_TRUSTED_PROXIES ?? '127.0.0.1,::1,::ffff:127.0.0.1').split(',').map(a => a.trim()).filter(Boolean);
+
+// The user each request is handled for, so the audit log can name who made every change, and the audit
+// log entries that could not be written, which go back with the response instead of failing it
+const requestContext = new AsyncLocalStorage<{ user: User; auditLogErrors: AuditLogError[] }>();
+
+const store: DataStore = new AuditedDataStore(
+  googleSheetService,
+  () => requestContext.getStore()?.user || null,
+  err => requestContext.getStore()?.auditLogErrors.push(err)
+);
+
+const DATA_TABS: DataTab[] = [
+  'users', 'branches', 'employees', 'commissions', 'centers',
+  'accounts', 'collections', 'targets', 'salarySheets', 'salaryEntries', 'auditLog', 'permissions', 'loginHistory', 'regions'
+];
+const STATUSES: RecordStatus[] = ['ACTIVE', 'INACTIVE'];
+
+// Request bodies past these sizes are refused; a backup being restored carries every table at once
+const BODY_LIMIT_BYTES = 1024 * 1024;
+const RESTORE_BODY_LIMIT_BYTES = 50 * 1024 * 1024;
+const LARGE_BODY_ROUTES = ['POST backup'];
+
+// --- HTTP PLUMBING ---
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const CORS_HEADERS: Record<string, string> = ALLOWED_ORIGIN
+  ? {
+      'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS'
+    }
+  : {};
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  if (body === undefined) {
+    res.writeHead(status, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage, limit: number): Promise<any> {
+  const tooLarge = () => new HttpError(413, 'Request body is too large.');
+  if (Number(req.headers['content-length'] || 0) > limit) throw tooLarge();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > limit) throw tooLarge();
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+}
+
+// Errors keep their type across the wire; ApiDataStore turns these bodies back into the same classes
+function errorResponse(error: unknown): { status: number; error: Record<string, unknown> } {
+  if (error instanceof AccessDeniedError) {
+    const status = error.reason === 'SIGNED_OUT' || error.reason === 'SECOND_FACTOR' ? 401 : error.reason === 'LOCKED_OUT' ? 429 : 403;
+    return { status, error: { message: error.message, ...(error.reason === 'SECOND_FACTOR' && { reason: error.reason }) } };
+  }
+  if (error instanceof RowConflictError) {
+    return { status: 409, error: { message: error.message, table: error.table, recordId: error.recordId, reason: error.reason } };
+  }
+  if (error instanceof DuplicateRecordError) {
+    return { status: 409, error: { message: error.message, table: error.table, field: error.field, values: error.values } };
+  }
+  if (error instanceof SheetsApiError) {
+    return { status: 502, error: { message: error.message, kind: error.kind, operation: error.operation, detail: error.detail, status: error.status } };
+  }
+  if (error instanceof HttpError) {
+    return { status: error.status, error: { message: error.message } };
+  }
+  console.error(error);
+  return { status: 500, error: { message: error instanceof Error ? error.message : 'Internal error' } };
+}
+
+// --- SESSIONS ---
+// Bearer tokens are <session ID>.<HMAC of the ID>, signed with a key made at startup, so a made-up or altered
+// token is refused before any lookup. Sessions are kept in memory; restarting the server signs everyone out.
+
+const sessions = new SessionRegistry(SESSION_TIMEOUTS);
+const SESSION_KEY = randomBytes(32);
+
+const sign = (sessionId: string) => createHmac('sha256', SESSION_KEY).update(sessionId).digest('base64url');
+
+const sessionToken = (sessionId: string) => `${sessionId}.${sign(sessionId)}`;
+
+// The session a bearer token names, or '' when there is none or its signature does not match
+function tokenSession(req: IncomingMessage): string {
+  const [sessionId = '', signature = ''] = (req.headers.authorization || '').replace(/^Bearer /, '').split('.');
+  const expected = Buffer.from(sign(sessionId));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected) ? sessionId : '';
+}
+
+async function sessionUser(sessionId: string): Promise<User> {
+  const userId = sessionId ? sessions.touch(sessionId) : null;
+  if (!userId) throw new AccessDeniedError('SIGNED_OUT', 'Your session has expired. Please sign in again.');
+  // Re-read the user on every call so a deactivation or role change applies at once
+  const user = (await store.getUsers()).find(u => u.id === userId);
+  if (!user) {
+    sessions.end(sessionId);
+    throw new AccessDeniedError('SIGNED_OUT', 'Your account is no longer active.');
+  }
+  return user;
+}
+
+// --- SIGN-IN RATE LIMIT ---
+// Lockouts (services/loginHistory.ts) stop guesses at one username; this stops one address guessing at many.
+// Failures are counted in memory, so restarting the server forgets them.
+
+const ADDRESS_MAX_FAILURES = 20;
+const ADDRESS_WINDOW_MS = 15 * 60 * 1000;
+const failedSignIns = new Map<string, number[]>();
+
+function recentFailures(address: string): number[] {
+  const since = Date.now() - ADDRESS_WINDOW_MS;
+  const failures = (failedSignIns.get(address) || []).filter(time => time > since);
+  if (failures.length > 0) failedSignIns.set(address, failures);
+  else failedSignIns.delete(address);
+  return failures;
+}
+
+// Behind a trusted proxy every request comes from the proxy's address, so the client's is the one the proxy
+// appended last; earlier X-Forwarded-For entries are whatever the client sent and are ignored
+function clientAddress(req: IncomingMessage): string {
+  const peer = req.socket.remoteAddress || '';
+  if (!TRUSTED_PROXIES.includes(peer)) return peer;
+  const forwarded = String(req.headers['x-forwarded-for'] || '').split(',').map(a => a.trim()).filter(Boolean);
+  return forwarded[forwarded.length - 1] || peer;
+}
+
+function requireSignInAllowed(address: string) {
+  const failures = recentFailures(address);
+  if (failures.length < ADDRESS_MAX_FAILURES) return;
+  const minutes = Math.ceil((failures[0] + ADDRESS_WINDOW_MS - Date.now()) / 60000);
+  throw new AccessDeniedError('LOCKED_OUT', `Too many failed sign-ins from this network. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+}
+
+// --- ROUTES ---
+
+interface RequestContext {
+  user: User;
+  access: Access; // What the user's role may do, per the stored permission matrix
+  sessionId: string;
+  client: string; // User agent
+  address: string; // Client address (see clientAddress), for the sign-in rate limit
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+}
+
+type Handler = (ctx: RequestContext) => Promise<unknown>;
+
+const routes: { method: string; path: string; pattern: RegExp; keys: string[]; handler: Handler; isPublic: boolean }[] = [];
+
+const route = (method: string, path: string, handler: Handler, isPublic = false) => {
+  const keys: string[] = [];
+  const pattern = new RegExp(`^/api/${path.replace(/:(\w+)/g, (_, key) => {
+    keys.push(key);
+    return '([^/]+)';
+  })}$`);
+  routes.push({ method, path, pattern, keys, handler, isPublic });
+};
+
+const includeInactive = (query: URLSearchParams) => query.get('includeInactive') === 'true';
+
+const requireList = <T>(body: unknown): T[] => {
+  if (!Array.isArray(body)) throw new HttpError(400, 'Expected a list of records.');
+  return body;
+};
+
+const requireRecord = <T extends { id: string | number }>(body: any, id: string): T => {
+  if (!body || String(body.id) !== id) throw new HttpError(400, 'Record ID does not match the URL.');
+  return body;
+};
+
+const requireStatus = (status: unknown): RecordStatus => {
+  if (!STATUSES.includes(status as RecordStatus)) throw new HttpError(400, `Unknown status: ${status}`);
+  return status as RecordStatus;
+};
+
+// Scope checks on edits look at the stored record, not just what the client sent
+async function stored<T extends { id: string | number }>(table: string, load: Promise<T[]>, id: string): Promise<T> {
+  const record = (await load).find(r => String(r.id) === id);
+  if (!record) throw new RowConflictError(table, id, 'MISSING');
+  return record;
+}
+
+// Employee ID -> branch, for records that are only tied to a branch through their employee
+async function employeeBranches() {
+  const employees = await store.getEmployees(true);
+  return new Map(employees.map(e => [e.id, e.branch_id]));
+}
+
+// SESSION
+// The right password for an account with two-factor sign-in is answered with SECOND_FACTOR, and the browser
+// sends it again with the code; that answer is not a failure, so it does not count towards the rate limit
+route('POST', 'session', async ({ body, client, address }) => {
+  requireSignInAllowed(address);
+  const code = body?.code ? String(body.code) : undefined;
+  const user = await store.authenticate(String(body?.username || ''), String(body?.password || ''), code, client);
+  if (!user) {
+    failedSignIns.set(address, [...recentFailures(address), Date.now()]);
+    throw new AccessDeniedError('SIGNED_OUT', code ? 'Invalid username, password or code.' : 'Invalid username or password.');
+  }
+  const matrix = await store.getPermissions();
+  return { token: sessionToken(sessions.start(user.id, client)), user: publicUser(withTwoFactorPolicy(user, matrix)) };
+}, true);
+
+// Who the token belongs to, as stored now; the browser keeps nothing but the token
+route('GET', 'session', async ({ user }) => publicUser(withTwoFactorPolicy(user, await store.getPermissions())));
+
+route('DELETE', 'session', async ({ sessionId }) => {
+  sessions.end(sessionId);
+});
+
+route('POST', 'session/password', async ({ user, sessionId, body }) => {
+  const currentPassword = String(body?.currentPassword || '');
+  const newPassword = String(body?.newPassword || '');
+  const error = validateNewPassword(newPassword, currentPassword);
+  if (error) throw new HttpError(400, error);
+  const changed = await store.changePassword(user.id, currentPassword, newPassword);
+  // Anyone else signed in with the old password is signed out
+  if (changed) sessions.endForUser(user.id, sessionId);
+  return changed;
+});
+
+// All a user flagged with mustChangePassword may do until they have picked a new one
+const PASSWORD_CHANGE_ROUTES = ['GET session', 'POST session/password', 'DELETE session'];
+
+// All a user whose role requires two-factor sign-in may do until they have set it up
+const TWO_FACTOR_SETUP_ROUTES = ['GET session', 'POST session/password', 'DELETE session', 'GET permissions', 'POST users/:id/two-factor'];
+
+// TWO-FACTOR SIGN-IN (users set up their own; an admin who may edit a user can only turn theirs off)
+const requireSelf = (user: User, userId: string, what: string) => {
+  if (user.id !== userId) throw new AccessDeniedError('FORBIDDEN', `You can only ${what} for your own account.`);
+};
+
+route('POST', 'users/:id/two-factor', async ({ user, params, body }) => {
+  requireSelf(user, params.id, 'set up two-factor sign-in');
+  if (user.totpSecret) throw new HttpError(400, 'Two-factor sign-in is already on. Turn it off first to move it to another app.');
+  const secret = String(body?.secret || '');
+  if (!/^[A-Z2-7]{32}$/.test(secret)) throw new HttpError(400, 'The two-factor secret is not valid.');
+  return store.enableTwoFactor(user.id, secret, String(body?.code || ''));
+});
+
+route('POST', 'users/:id/recovery-codes', async ({ user, params }) => {
+  requireSelf(user, params.id, 'replace recovery codes');
+  return store.replaceRecoveryCodes(user.id);
+});
+
+route('DELETE', 'users/:id/two-factor', async ({ user, access, params, body }) => {
+  if (params.id === user.id) {
+    if ((await store.getPermissions())[user.role]?.requireTwoFactor) {
+      throw new AccessDeniedError('FORBIDDEN', `Your role (${user.role}) requires two-factor sign-in.`);
+    }
+    return store.disableTwoFactor(user.id, String(body?.currentPassword || ''));
+  }
+  access.require('USER', 'EDIT', 'reset two-factor sign-in');
+  const current = await stored('SystemUsers', store.getUsers(true), params.id);
+  requireUserScope(access, 'reset two-factor sign-in', current);
+  requireRoleGrant(access, current.role);
+  return store.disableTwoFactor(current.id);
+});
+
+route('GET', 'sessions', async ({ access, sessionId }) => {
+  access.require('SESSION', 'VIEW', 'see active sessions');
+  return sessions.list(sessionId);
+});
+
+route('DELETE', 'sessions/:id', async ({ access, params }) => {
+  access.require('SESSION', 'DELETE', 'revoke sessions');
+  return sessions.end(params.id);
+});
+
+// LOADING
+route('POST', 'prefetch', async ({ body }) => {
+  const tabs = requireList<DataTab>(body?.tabs).filter(tab => DATA_TABS.includes(tab));
+  await store.prefetch(tabs, !!body?.refresh);
+});
+
+route('GET', 'schema', async () => store.checkSchema());
+
+// IDS
+const MAX_IDS_PER_REQUEST = 1000;
+
+route('POST', 'ids', async ({ access, body }) => {
+  const kind = body?.kind as IdKind;
+  const count = Number(body?.count);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_IDS_PER_REQUEST) {
+    throw new HttpError(400, `Reserve between 1 and ${MAX_IDS_PER_REQUEST} IDs at a time.`);
+  }
+  switch (kind) {
+    case 'BRANCH':
+      access.require('BRANCH', 'CREATE', 'add branches');
+      break;
+    case 'REGION':
+      access.require('BRANCH', 'CREATE', 'add regions');
+      break;
+    case 'EMPLOYEE':
+      access.require('EMPLOYEE', 'CREATE', 'add employees');
+      access.requireScope('add employees', body?.branchId);
+      break;
+    case 'CENTER':
+      access.require('CENTER', 'CREATE', 'add centers');
+      access.requireScope('add centers', body?.branchId);
+      break;
+    case 'ACCOUNT':
+      access.require('ACCOUNT', 'CREATE', 'add accounts');
+      break;
+    default:
+      throw new HttpError(400, `Unknown ID kind: ${kind}`);
+  }
+  return store.reserveIds(kind, count, body?.branchId);
+});
+
+// 1. SYSTEM USERS
+route('GET', 'users', async ({ user, access, query }) => {
+  const users = await store.getUsers(includeInactive(query));
+  return users
+    .filter(u => u.id === user.id || canSeeUser(access, u))
+    .map(publicUser);
+});
+
+route('POST', 'users', async ({ access, body }) => {
+  access.require('USER', 'CREATE', 'add system users');
+  requireUserScope(access, 'add system users', body || {});
+  requireRoleGrant(access, body?.role);
+  const error = validateUserChange(await store.getUsers(true), body);
+  if (error) throw new HttpError(400, error);
+  // Two-factor sign-in is set up by the user themselves, never handed over with the account
+  return store.addUser({ ...body, totpSecret: '', recoveryCodes: '' });
+});
+
+route('PUT', 'users/:id', async ({ access, params, body }) => {
+  access.require('USER', 'EDIT', 'edit system users');
+  const updated = requireRecord<User>(body, params.id);
+  const allUsers = await store.getUsers(true);
+  const error = validateUserChange(allUsers, updated, params.id);
+  if (error) throw new HttpError(400, error);
+  // Clients never see stored passwords, so a blank one means "keep"; two-factor secrets only change through their own routes,
+  // status only through users/:id/status, and a forced password change only by the user picking a new password
+  const current = await stored('SystemUsers', Promise.resolve(allUsers), params.id);
+  requireUserScope(access, 'edit system users', current);
+  requireUserScope(access, 'move system users', updated);
+  requireRoleGrant(access, current.role, updated.role);
+  return store.updateUser({
+    ...updated, password: updated.password || current.password, totpSecret: current.totpSecret, recoveryCodes: current.recoveryCodes,
+    totpLastStep: current.totpLastStep, status: current.status, mustChangePassword: current.mustChangePassword
+  });
+});
+
+route('PUT', 'users/:id/status', async ({ access, params, body }) => {
+  access.require('USER', 'DELETE', 'deactivate system users');
+  const status = requireStatus(body?.status);
+  const allUsers = await store.getUsers(true);
+  const current = await stored('SystemUsers', Promise.resolve(allUsers), params.id);
+  requireUserScope(access, 'deactivate system users', current);
+  requireRoleGrant(access, current.role);
+  if (status === 'INACTIVE' && isLastSuperAdmin(allUsers, params.id)) {
+    throw new HttpError(400, 'This is the last active Super Admin and cannot be deactivated.');
+  }
+  const saved = await store.setUserStatus(current, status);
+  if (saved && status === 'INACTIVE') sessions.endForUser(params.id);
+  return saved;
+});
+
+// 2. BRANCHES (reference data: every role sees every branch, e.g. floating staff picking where they collect)
+route('GET', 'branches', async ({ query }) => store.getBranches(includeInactive(query)));
+
+route('POST', 'branches', async ({ access, body }) => {
+  access.require('BRANCH', 'CREATE', 'add branches');
+  return store.addBranches(requireList<Branch>(body));
+});
+
+route('PUT', 'branches/:id', async ({ access, params, body }) => {
+  access.require('BRANCH', 'EDIT', 'edit branches');
+  const current = await stored('Branches', store.getBranches(true), params.id);
+  return store.updateBranch({ ...requireRecord<Branch>(body, params.id), status: current.status });
+});
+
+route('PUT', 'branches/:id/status', async ({ access, params, body }) => {
+  access.require('BRANCH', 'DELETE', 'deactivate branches');
+  return store.setBranchStatus(await stored('Branches', store.getBranches(true), params.id), requireStatus(body?.status));
+});
+
+// REGIONS (reference data like branches, and managed by whoever may manage branches)
+
+// The fields a client may set on a region; names are required and unique among active regions
+const validRegion = async (body: any, id: string): Promise<Region> => {
+  const name = String(body?.name || '').trim();
+  if (!name) throw new HttpError(400, 'A region needs a name.');
+  const regions = await store.getRegions();
+  if (regions.some(r => r.id !== id && r.name.trim().toLowerCase() === name.toLowerCase())) {
+    throw new HttpError(400, `There is already a region named ${name}.`);
+  }
+  return { id, name, zone: String(body?.zone || '').trim() };
+};
+
+route('GET', 'regions', async ({ query }) => store.getRegions(includeInactive(query)));
+
+route('POST', 'regions', async ({ access, body }) => {
+  access.require('BRANCH', 'CREATE', 'add regions');
+  const id = String(body?.id || '').trim();
+  if (!id) throw new HttpError(400, 'A region needs an ID.');
+  const region = await validRegion(body, id);
+  return store.addRegion({ ...region, status: 'ACTIVE' });
+});
+
+route('PUT', 'regions/:id', async ({ access, params, body }) => {
+  access.require('BRANCH', 'EDIT', 'edit regions');
+  const current = await stored('Regions', store.getRegions(true), params.id);
+  const region = await validRegion(requireRecord<Region>(body, params.id), params.id);
+  return store.updateRegion({ ...region, rowIndex: body.rowIndex, updatedAt: body.updatedAt, status: current.status });
+});
+
+route('PUT', 'regions/:id/status', async ({ access, params, body }) => {
+  access.require('BRANCH', 'DELETE', 'deactivate regions');
+  const status = requireStatus(body?.status);
+  const current = await stored('Regions', store.getRegions(true), params.id);
+  // Inactive branches count too, or they would drop out of the region roll-ups once reactivated
+  const inRegion = status === 'INACTIVE' ? (await store.getBranches(true)).filter(b => b.region_id === params.id) : [];
+  if (inRegion.length > 0) {
+    throw new HttpError(409, `Cannot deactivate ${current.name}: move ${inRegion.map(b => b.name).join(', ')} to another region first.`);
+  }
+  return store.setRegionStatus(current, status);
+});
+
+// 3. EMPLOYEES
+route('GET', 'employees', async ({ access, query }) => {
+  const employees = await store.getEmployees(includeInactive(query));
+  return employees.filter(e => access.canSee('EMPLOYEE', e.branch_id, e.id));
+});
+
+route('POST', 'employees', async ({ access, body }) => {
+  access.require('EMPLOYEE', 'CREATE', 'add employees');
+  const employees = requireList<Employee>(body);
+  employees.forEach(e => access.requireScope('add employees', e.branch_id));
+  return store.addEmployees(employees);
+});
+
+route('PUT', 'employees/:id', async ({ access, params, body }) => {
+  access.require('EMPLOYEE', 'EDIT', 'edit employees');
+  const updated = requireRecord<Employee>(body, params.id);
+  const current = await stored('Employees', store.getEmployees(true), params.id);
+  access.requireScope('edit employees', current.branch_id);
+  access.requireScope('move employees', updated.branch_id);
+  return store.updateEmployee(updated);
+});
+
+route('PUT', 'employees/:id/status', async ({ access, params, body }) => {
+  access.require('EMPLOYEE', 'DELETE', 'deactivate employees');
+  const current = await stored('Employees', store.getEmployees(true), params.id);
+  access.requireScope('deactivate employees', current.branch_id);
+  return store.setEmployeeStatus(current, requireStatus(body?.status));
+});
+
+// 4. ACCOUNTS
+const storedAccount = (id: string) => stored<AccountOpening>('Accounts', store.getAccounts(true), id);
+
+route('GET', 'accounts', async ({ access, query }) => {
+  const accounts = await store.getAccounts(includeInactive(query));
+  return accounts.filter(a => access.canSee('ACCOUNT', a.branch_id, a.opened_by_employee_id));
+});
+
+route('POST', 'accounts', async ({ access, body }) => {
+  access.require('ACCOUNT', 'CREATE', 'add accounts');
+  const accounts = requireList<AccountOpening>(body);
+  accounts.forEach(a => access.requireScope('add accounts', a.branch_id, a.opened_by_employee_id));
+  return store.addAccounts(accounts);
+});
+
+// Counting an account into a salary sheet is its EDIT permission, reverting one its APPROVE permission
+route('POST', 'accounts/:id/count', async ({ access, params, body }) => {
+  access.require('ACCOUNT', 'EDIT', 'count accounts');
+  const account = await storedAccount(params.id);
+  access.requireScope('count accounts', account.branch_id);
+  const month = String(body?.month || '');
+  if (!isSheetMonth(month)) throw new HttpError(400, `Not a salary sheet month (YYYY-MM): ${month}`);
+  // The client checks this when scanning, but only against the accounts it loaded
+  const counted = alreadyCounted(account);
+  if (counted) throw new HttpError(409, counted);
+  return store.markAccountCounted(account, month, body?.salarySheetId || null);
+});
+
+route('POST', 'accounts/:id/uncount', async ({ access, params, body }) => {
+  access.require('ACCOUNT', 'APPROVE', 'revert counted accounts');
+  const account = await storedAccount(params.id);
+  access.requireScope('revert counted accounts', account.branch_id);
+  return store.uncountAccount(account, String(body?.reason || ''));
+});
+
+route('PUT', 'accounts/:id/status', async ({ access, params, body }) => {
+  access.require('ACCOUNT', 'DELETE', 'deactivate accounts');
+  const account = await storedAccount(params.id);
+  access.requireScope('deactivate accounts', account.branch_id, account.opened_by_employee_id);
+  return store.setAccountStatus(account, requireStatus(body?.status));
+});
+
+// 5. COLLECTIONS
+route('GET', 'collections', async ({ access }) => {
+  const records = await store.getCollections();
+  return records.filter(r => access.canSee('COLLECTION', r.branchId, r.employeeId));
+});
+
+route('POST', 'collections', async ({ access, body }) => {
+  access.require('COLLECTION', 'CREATE', 'record collections');
+  const records = requireList<CenterCollectionRecord>(body);
+  records.forEach(r => access.requireScope('record collections', r.branchId, r.employeeId));
+  return store.addCollections(records);
+});
+
+route('PUT', 'collections/:id', async ({ access, params, body }) => {
+  access.require('COLLECTION', 'EDIT', 'edit collections');
+  const updated = requireRecord<CenterCollectionRecord>(body?.record, params.id);
+  const current = await stored('Collections', store.getCollections(), params.id);
+  access.requireScope('edit collections', current.branchId, current.employeeId);
+  access.requireScope('edit collections', updated.branchId, updated.employeeId);
+  return store.updateCollection(updated, String(body?.reason || ''));
+});
+
+route('DELETE', 'collections/:id', async ({ access, params }) => {
+  access.require('COLLECTION', 'DELETE', 'delete collections');
+  const current = await stored('Collections', store.getCollections(), params.id);
+  access.requireScope('delete collections', current.branchId, current.employeeId);
+  return store.deleteCollection(current);
+});
+
+// 6. CENTERS (reference data like branches; field staff create centers from the calculator)
+route('GET', 'centers', async ({ query }) => store.getCenters(includeInactive(query)));
+
+route('POST', 'centers', async ({ access, body }) => {
+  access.require('CENTER', 'CREATE', 'add centers');
+  const center: Center = body;
+  access.requireScope('add centers', center?.branchId, center?.assignedEmployeeId);
+  return store.addCenter(center);
+});
+
+route('PUT', 'centers/:id', async ({ access, params, body }) => {
+  access.require('CENTER', 'EDIT', 'edit centers');
+  const updated = requireRecord<Center>(body, params.id);
+  const current = await stored('Centers', store.getCenters(true), params.id);
+  access.requireScope('edit centers', current.branchId, current.assignedEmployeeId);
+  access.requireScope('move centers', updated.branchId, updated.assignedEmployeeId);
+  return store.updateCenter(updated);
+});
+
+route('PUT', 'centers/:id/status', async ({ access, params, body }) => {
+  access.require('CENTER', 'DELETE', 'deactivate centers');
+  const current = await stored('Centers', store.getCenters(true), params.id);
+  access.requireScope('deactivate centers', current.branchId, current.assignedEmployeeId);
+  return store.setCenterStatus(current, requireStatus(body?.status));
+});
+
+// 7. COMMISSIONS
+route('GET', 'commissions', async () => store.getCommissions());
+
+route('PUT', 'commissions/:typeCode', async ({ access, params, body }) => {
+  access.require('COMMISSION', 'EDIT', 'change commission rates');
+  const commission: CommissionStructure = body;
+  if (commission?.typeCode !== params.typeCode) throw new HttpError(400, 'Commission type does not match the URL.');
+  return store.saveCommission(commission);
+});
+
+route('DELETE', 'commissions/:typeCode', async ({ access, params, body }) => {
+  access.require('COMMISSION', 'DELETE', 'deactivate commission types');
+  // Inactive employees count too: reactivating one would bring back a type with no rates
+  const assigned = (await store.getEmployees(true)).filter(e => e.commission_type === params.typeCode);
+  if (assigned.length > 0) {
+    throw new HttpError(400, `Commission type ${params.typeCode} is still assigned to ${assigned.length} employee(s) (${assigned.map(e => e.id).join(', ')}).`);
+  }
+  return store.deactivateCommission({ ...body?.record, typeCode: params.typeCode });
+});
+
+// 8. TARGETS
+route('GET', 'targets', async ({ access }) => {
+  const [targets, branchOf] = await Promise.all([store.getTargets(), employeeBranches()]);
+  return targets.filter(t => access.canSee('TARGET', branchOf.get(t.employeeId), t.employeeId));
+});
+
+route('PUT', 'targets/:id', async ({ access, params, body }) => {
+  access.require('TARGET', 'EDIT', 'manage targets');
+  const target = requireRecord<Target>(body, params.id);
+  access.requireScope('manage targets', (await employeeBranches()).get(target.employeeId));
+  return store.saveTarget(target);
+});
+
+// 9. SALARY SHEETS
+route('GET', 'salary-sheets', async ({ access }) => {
+  access.require('SALARY', 'VIEW', 'view salary sheets');
+  const sheets = await store.getSalarySheets();
+  return sheets.filter(s => access.seesAllBranches || s.branch_ids.some(branchId => access.branchIds.includes(branchId)));
+});
+
+route('POST', 'salary-sheets', async ({ access, body }) => {
+  access.require('SALARY', 'CREATE', 'create salary sheets');
+  const sheet: SalarySheet = body;
+  (sheet?.branch_ids || []).forEach(branchId => access.requireScope('create salary sheets', branchId));
+  return store.addSalarySheet(sheet);
+});
+
+// 10. SALARY ENTRIES (written with their sheet, so adding them is part of creating one)
+route('GET', 'salary-entries', async ({ access, query }) => {
+  access.require('SALARY', 'VIEW', 'view salary sheets');
+  const [entries, branchOf] = await Promise.all([store.getSalaryEntries(query.get('salarySheetId') || undefined), employeeBranches()]);
+  return entries.filter(e => access.inScope(branchOf.get(e.employee_id)));
+});
+
+route('POST', 'salary-entries', async ({ access, body }) => {
+  access.require('SALARY', 'CREATE', 'create salary sheets');
+  const entries = requireList<SalaryEntry>(body);
+  const branchOf = await employeeBranches();
+  entries.forEach(e => access.requireScope('create salary sheets', branchOf.get(e.employee_id)));
+  return store.addSalaryEntries(entries);
+});
+
+route('PUT', 'salary-entries/:id', async ({ access, params, body }) => {
+  access.require('SALARY', 'EDIT', 'edit salary sheets');
+  const updated = requireRecord<SalaryEntry>(body, params.id);
+  const [current, branchOf] = await Promise.all([stored('SalaryEntries', store.getSalaryEntries(), params.id), employeeBranches()]);
+  access.requireScope('edit salary sheets', branchOf.get(current.employee_id));
+  return store.updateSalaryEntry({ ...updated, employee_id: current.employee_id, salary_sheet_id: current.salary_sheet_id });
+});
+
+// 11. AUDIT LOG (read-only; entries are written by the AuditedDataStore wrapping every change above)
+route('GET', 'audit-log', async ({ access }) => {
+  access.require('AUDIT_LOG', 'VIEW', 'view the audit log');
+  return store.getAuditLog();
+});
+
+// 12. BACKUP (a full copy, password hashes included, so Super Admins only by default)
+route('GET', 'backup', async ({ access }) => {
+  access.require('BACKUP', 'VIEW', 'back up the database');
+  return store.exportTables();
+});
+
+route('POST', 'backup', async ({ access, body }) => {
+  access.require('BACKUP', 'CREATE', 'restore a backup');
+  if (!body || BACKUP_TABLES.some(table => !Array.isArray(body[table]))) throw new HttpError(400, 'Expected every table of a backup.');
+  if (hasData(await store.exportTables())) {
+    throw new HttpError(409, 'The spreadsheet already holds data. Restore into a new, empty spreadsheet or into the local storage backend.');
+  }
+  return store.restoreTables(body);
+});
+
+// 13. PERMISSIONS (every signed-in user reads the matrix to know what to offer; only Super Admins change it)
+route('GET', 'permissions', async () => store.getPermissions());
+
+route('PUT', 'permissions', async ({ user, body }) => {
+  if (!canEditPermissions(user)) throw new AccessDeniedError('FORBIDDEN', `Your role (${user.role}) is not allowed to change role permissions.`);
+  const rows = requireList<RolePermissions>(body);
+  const error = validatePermissions(rows);
+  if (error) throw new HttpError(400, error);
+  return store.savePermissions(rows);
+});
+
+// 14. LOGIN HISTORY (attempts are recorded by POST session; lifting a lockout is the only change)
+route('GET', 'login-history', async ({ access }) => {
+  access.require('LOGIN', 'VIEW', 'view the login history');
+  return store.getLoginHistory();
+});
+
+route('GET', 'lockouts', async ({ access }) => {
+  access.require('LOGIN', 'VIEW', 'view locked-out accounts');
+  return store.getLockouts();
+});
+
+route('DELETE', 'lockouts/:username', async ({ access, params }) => {
+  access.require('LOGIN', 'EDIT', 'unlock accounts');
+  return store.unlockLogin(params.username);
+});
+
+// --- ROUTER ---
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const method = req.method || 'GET';
+
+  if (method === 'OPTIONS') return send(res, 204);
+
+  for (const { method: routeMethod, path, pattern, keys, handler, isPublic } of routes) {
+    const match = routeMethod === method ? pattern.exec(url.pathname) : null;
+    if (!match) continue;
+
+    const sessionId = tokenSession(req);
+    const user = isPublic ? (null as unknown as User) : await sessionUser(sessionId);
+    if (user?.mustChangePassword && !PASSWORD_CHANGE_ROUTES.includes(`${method} ${path}`)) {
+      throw new AccessDeniedError('FORBIDDEN', 'Please change your password before continuing.');
+    }
+    const matrix = isPublic ? null : await store.getPermissions();
+    if (matrix && mustSetUpTwoFactor(user, matrix) && !TWO_FACTOR_SETUP_ROUTES.includes(`${method} ${path}`)) {
+      throw new AccessDeniedError('FORBIDDEN', 'Please set up two-factor sign-in before continuing.');
+    }
+    const params = Object.fromEntries(keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+    const access = matrix ? accessFor(user, matrix) : (null as unknown as Access);
+    const context = { user, access, sessionId, client: String(req.headers['user-agent'] || ''), address: clientAddress(req), params, query: url.searchParams, body: await readJson(req, LARGE_BODY_ROUTES.includes(`${method} ${path}`) ? RESTORE_BODY_LIMIT_BYTES : BODY_LIMIT_BYTES) };
+    const request = { user, auditLogErrors: [] as AuditLogError[] };
+    const result = await (isPublic ? handler(context) : requestContext.run(request, () => handler(context)));
+    const auditLogErrors = request.auditLogErrors.map(({ entity, entityIds, detail }) => ({ entity, entityIds, detail }));
+    return send(res, 200, { result: result ?? null, ...(auditLogErrors.length > 0 && { auditLogErrors }) });
+  }
+  throw new HttpError(404, `Unknown endpoint: ${method} ${url.pathname}`);
+}
+
+const server = createServer((req, res) => {
+  handle(req, res).catch(error => {
+    const { status, error: body } = errorResponse(error);
+    send(res, status, { error: { code: status, ...body } });
+  });
+});
+
+const missing = missingGoogleSettings();
+if (missing.length > 0) {
+  console.error(`Cannot start the API server: ${missing.join(' and ')} must be set (or GOOGLE_API_BASE_URL for the stand-in).`);
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}`);
+});
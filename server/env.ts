@@ -0,0 +1,7 @@
+// Loads .env.local, then .env, into process.env. Server entry points import this first so it runs before
+// any module reads its configuration; variables already set in the environment are never overridden.
+import { existsSync } from 'fs';
+
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
@@ -0,0 +1,343 @@
+/**
+ * Local stand-in for the parts of the Google Sheets v4 API used by googleSheetService.
+ *
+ * Run with `npm run sheets:local`, then point the API server (`npm run api`) at it with
+ * GOOGLE_API_BASE_URL=http://localhost:8787
+ *
+ * Each tab is stored as one JSON file (an array of string rows) under SHEETS_STANDIN_DATA.
+ * On first start the data directory is seeded from server/fixtures/spreadsheet.json.
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { readFile, writeFile, readdir, mkdir, rename } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const SERVER_DIR = path.dirname(fileURLToPath(import.meta.url));
+const PORT = Number(process.env.SHEETS_STANDIN_PORT || 8787);
+const DATA_DIR = process.env.SHEETS_STANDIN_DATA || path.join(SERVER_DIR, '.data');
+const FIXTURE_FILE = process.env.SHEETS_STANDIN_FIXTURE || path.join(SERVER_DIR, 'fixtures', 'spreadsheet.json');
+
+type Grid = string[][];
+
+// --- STORAGE ---
+
+const tabFile = (title: string) => path.join(DATA_DIR, `${encodeURIComponent(title)}.json`);
+
+const tabs = new Map<string, Grid>();
+
+async function loadTabs() {
+  if (!existsSync(DATA_DIR)) {
+    await mkdir(DATA_DIR, { recursive: true });
+    const fixture: Record<string, any[][]> = existsSync(FIXTURE_FILE)
+      ? JSON.parse(await readFile(FIXTURE_FILE, 'utf8'))
+      : {};
+    for (const [title, rows] of Object.entries(fixture)) {
+      tabs.set(title, rows.map(normalizeRow));
+      await saveTab(title);
+    }
+    console.log(`Seeded ${tabs.size} tabs from ${FIXTURE_FILE}`);
+    return;
+  }
+
+  for (const file of await readdir(DATA_DIR)) {
+    if (!file.endsWith('.json')) continue;
+    const title = decodeURIComponent(file.slice(0, -'.json'.length));
+    tabs.set(title, JSON.parse(await readFile(path.join(DATA_DIR, file), 'utf8')));
+  }
+}
+
+async function saveTab(title: string) {
+  const tmp = `${tabFile(title)}.tmp`;
+  await writeFile(tmp, JSON.stringify(tabs.get(title) || []), 'utf8');
+  await rename(tmp, tabFile(title));
+}
+
+// --- VALUE HANDLING ---
+
+// The real API returns formatted strings and drops trailing empty cells
+const formatCell = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const normalizeRow = (row: any[]): string[] => {
+  const cells = row.map(formatCell);
+  while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+  return cells;
+};
+
+const columnNumber = (letters: string) =>
+  letters.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0);
+
+const columnLetter = (col: number): string => {
+  let letter = '';
+  while (col > 0) {
+    const rem = (col - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    col = Math.floor((col - 1) / 26);
+  }
+  return letter;
+};
+
+interface ParsedRange {
+  title: string;
+  startRow: number; // 1-based
+  endRow: number | null;
+  startCol: number; // 1-based
+  endCol: number | null;
+}
+
+// Accepts "Tab", "Tab!A2:H2", "Tab!A:C" and "'Tab Name'!B3"
+function parseRange(raw: string): ParsedRange {
+  const bang = raw.lastIndexOf('!');
+  const title = (bang === -1 ? raw : raw.slice(0, bang)).replace(/^'(.*)'$/, '$1');
+  const result: ParsedRange = { title, startRow: 1, endRow: null, startCol: 1, endCol: null };
+  if (bang === -1) return result;
+
+  const [start, end] = raw.slice(bang + 1).split(':');
+  const parseCell = (cell: string) => {
+    const match = /^([A-Za-z]*)(\d*)$/.exec(cell);
+    if (!match) throw new HttpError(400, `Unable to parse range: ${raw}`);
+    return { col: match[1] ? columnNumber(match[1]) : null, row: match[2] ? Number(match[2]) : null };
+  };
+
+  const s = parseCell(start);
+  result.startCol = s.col || 1;
+  result.startRow = s.row || 1;
+  if (end !== undefined) {
+    const e = parseCell(end);
+    result.endCol = e.col;
+    result.endRow = e.row;
+  } else {
+    result.endCol = s.col;
+    result.endRow = s.row;
+  }
+  return result;
+}
+
+const a1 = (title: string, startRow: number, startCol: number, endRow: number, endCol: number) =>
+  `${title}!${columnLetter(startCol)}${startRow}:${columnLetter(endCol)}${endRow}`;
+
+// --- HTTP PLUMBING ---
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const statusNames: Record<number, string> = { 400: 'INVALID_ARGUMENT', 404: 'NOT_FOUND', 405: 'METHOD_NOT_ALLOWED' };
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS'
+};
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  if (body === undefined) {
+    res.writeHead(status, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function requireTab(title: string): Grid {
+  const grid = tabs.get(title);
+  if (!grid) throw new HttpError(400, `Unable to parse range: ${title}`);
+  return grid;
+}
+
+// --- SHEETS ENDPOINTS ---
+
+function getMetadata(spreadsheetId: string) {
+  return {
+    spreadsheetId,
+    properties: { title: 'Local Sheets Stand-in' },
+    sheets: [...tabs.keys()].map((title, index) => ({
+      properties: { sheetId: index, title, index, sheetType: 'GRID' }
+    }))
+  };
+}
+
+async function batchUpdate(spreadsheetId: string, body: any) {
+  const replies: any[] = [];
+  for (const request of body.requests || []) {
+    if (!request.addSheet) throw new HttpError(400, `Unsupported batchUpdate request: ${Object.keys(request).join(', ')}`);
+    const title = request.addSheet.properties?.title;
+    if (!title) throw new HttpError(400, 'addSheet requires properties.title');
+    if (tabs.has(title)) throw new HttpError(400, `A sheet with the name "${title}" already exists.`);
+    tabs.set(title, []);
+    await saveTab(title);
+    replies.push({ addSheet: { properties: { sheetId: tabs.size - 1, title, index: tabs.size - 1, sheetType: 'GRID' } } });
+  }
+  return { spreadsheetId, replies };
+}
+
+function getValues(rawRange: string) {
+  const range = parseRange(rawRange);
+  const grid = requireTab(range.title);
+  const lastRow = range.endRow ?? grid.length;
+
+  const values = grid
+    .slice(range.startRow - 1, lastRow)
+    .map(row => normalizeRow(row.slice(range.startCol - 1, range.endCol ?? undefined)));
+  while (values.length > 0 && values[values.length - 1].length === 0) values.pop();
+
+  const width = Math.max(0, ...values.map(r => r.length));
+  const response: any = {
+    range: a1(range.title, range.startRow, range.startCol, Math.max(range.startRow, lastRow), range.endCol ?? Math.max(range.startCol, width)),
+    majorDimension: 'ROWS'
+  };
+  if (values.length > 0) response.values = values;
+  return response;
+}
+
+// Like the real API, one unknown tab fails the whole batch
+function batchGetValues(spreadsheetId: string, rawRanges: string[]) {
+  if (rawRanges.length === 0) throw new HttpError(400, 'At least one range is required');
+  return { spreadsheetId, valueRanges: rawRanges.map(getValues) };
+}
+
+function writeBlock(grid: Grid, startRow: number, startCol: number, values: any[][]) {
+  values.forEach((row, r) => {
+    const target = grid[startRow - 1 + r] || [];
+    row.forEach((value, c) => {
+      while (target.length < startCol - 1 + c) target.push('');
+      target[startCol - 1 + c] = formatCell(value);
+    });
+    grid[startRow - 1 + r] = normalizeRow(target);
+  });
+  for (let i = 0; i < grid.length; i++) if (!grid[i]) grid[i] = [];
+}
+
+async function updateValues(spreadsheetId: string, rawRange: string, body: any) {
+  const range = parseRange(rawRange);
+  const grid = requireTab(range.title);
+  const values: any[][] = body.values || [];
+  writeBlock(grid, range.startRow, range.startCol, values);
+  await saveTab(range.title);
+
+  const cols = Math.max(0, ...values.map(r => r.length));
+  return {
+    spreadsheetId,
+    updatedRange: a1(range.title, range.startRow, range.startCol, range.startRow + values.length - 1, range.startCol + cols - 1),
+    updatedRows: values.length,
+    updatedColumns: cols,
+    updatedCells: values.reduce((n, r) => n + r.length, 0)
+  };
+}
+
+async function batchUpdateValues(spreadsheetId: string, body: any) {
+  const responses = [];
+  for (const { range, values } of body.data || []) {
+    responses.push(await updateValues(spreadsheetId, range, { values }));
+  }
+  return {
+    spreadsheetId,
+    totalUpdatedCells: responses.reduce((n, r) => n + r.updatedCells, 0),
+    responses
+  };
+}
+
+async function appendValues(spreadsheetId: string, rawRange: string, body: any) {
+  const range = parseRange(rawRange);
+  const grid = requireTab(range.title);
+  const values: any[][] = body.values || [];
+
+  // Append after the last row that has any content, like the real "table" detection
+  let lastUsed = grid.length;
+  while (lastUsed > 0 && grid[lastUsed - 1].length === 0) lastUsed--;
+  const startRow = lastUsed + 1;
+
+  writeBlock(grid, startRow, range.startCol, values);
+  await saveTab(range.title);
+
+  const cols = Math.max(0, ...values.map(r => r.length));
+  return {
+    spreadsheetId,
+    tableRange: lastUsed > 0 ? a1(range.title, 1, 1, lastUsed, Math.max(1, ...grid.slice(0, lastUsed).map(r => r.length))) : undefined,
+    updates: {
+      spreadsheetId,
+      updatedRange: a1(range.title, startRow, range.startCol, startRow + values.length - 1, range.startCol + cols - 1),
+      updatedRows: values.length,
+      updatedColumns: cols,
+      updatedCells: values.reduce((n, r) => n + r.length, 0)
+    }
+  };
+}
+
+// --- ROUTER ---
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const method = req.method || 'GET';
+
+  if (method === 'OPTIONS') return send(res, 204);
+
+  // Fake oauth2.googleapis.com/token: any JWT assertion gets a token
+  if (url.pathname === '/token' && method === 'POST') {
+    return send(res, 200, { access_token: `local-${Date.now().toString(36)}`, expires_in: 3600, token_type: 'Bearer' });
+  }
+
+  const match = /^\/v4\/spreadsheets\/([^/:]+)(:batchUpdate|\/values:batchGet|\/values:batchUpdate)?(?:\/values\/(.+))?$/.exec(url.pathname);
+  if (!match) throw new HttpError(404, `Unknown endpoint: ${url.pathname}`);
+  const [, spreadsheetId, action, rawValuesPath] = match;
+
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    return send(res, 401, { error: { code: 401, message: 'Request is missing required authentication credential.', status: 'UNAUTHENTICATED' } });
+  }
+
+  if (action === ':batchUpdate' && method === 'POST') {
+    return send(res, 200, await batchUpdate(spreadsheetId, JSON.parse(await readBody(req) || '{}')));
+  }
+
+  if (action === '/values:batchGet' && method === 'GET') {
+    return send(res, 200, batchGetValues(spreadsheetId, url.searchParams.getAll('ranges')));
+  }
+
+  if (action === '/values:batchUpdate' && method === 'POST') {
+    return send(res, 200, await batchUpdateValues(spreadsheetId, JSON.parse(await readBody(req) || '{}')));
+  }
+
+  if (!rawValuesPath) {
+    if (method === 'GET') return send(res, 200, getMetadata(spreadsheetId));
+    throw new HttpError(405, `${method} not supported on spreadsheet`);
+  }
+
+  const valuesPath = decodeURIComponent(rawValuesPath);
+  if (valuesPath.endsWith(':append') && method === 'POST') {
+    return send(res, 200, await appendValues(spreadsheetId, valuesPath.slice(0, -':append'.length), JSON.parse(await readBody(req) || '{}')));
+  }
+  if (method === 'GET') return send(res, 200, getValues(valuesPath));
+  if (method === 'PUT') return send(res, 200, await updateValues(spreadsheetId, valuesPath, JSON.parse(await readBody(req) || '{}')));
+
+  throw new HttpError(405, `${method} not supported on values`);
+}
+
+// Requests are handled one at a time so appends and updates never interleave on the same tab
+let queue: Promise<void> = Promise.resolve();
+
+const server = createServer((req, res) => {
+  queue = queue.then(() => handle(req, res)).catch(error => {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    send(res, status, { error: { code: status, message: error.message, status: statusNames[status] || 'INTERNAL' } });
+  });
+});
+
+loadTabs().then(() => {
+  server.listen(PORT, () => {
+    console.log(`Sheets stand-in listening on http://localhost:${PORT} (data: ${DATA_DIR})`);
+  });
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AccountOpening } from '../types';
+import { alreadyCounted, isSheetMonth, validateAccount } from './accountService';
+
+const ACCOUNT: AccountOpening = {
+  id: 1, account_code: 'SAV-100', term: 12, collection_amount: 800, opened_by_employee_id: 'e1', branch_id: 'b1',
+  opening_date: '2026-03-05', is_counted: false, counted_month: null, salary_sheet_id: null
+};
+
+test('salary sheet months are YYYY-MM', () => {
+  assert.equal(isSheetMonth('2026-03'), true);
+  for (const month of ['', '2026-3', '2026-13', '2026-00', '2026-03-01']) assert.equal(isSheetMonth(month), false, month);
+});
+
+test('an account counted once is refused for another month, naming where it was used', () => {
+  assert.equal(alreadyCounted(ACCOUNT), null);
+  assert.equal(validateAccount('SAV-100', 'e1', 'b1', '2026-03', [ACCOUNT]).ok, true);
+
+  const counted = { ...ACCOUNT, is_counted: true, counted_month: '2026-03', salary_sheet_id: 'S-7' };
+  assert.equal(alreadyCounted(counted), 'Account SAV-100 was already counted in 2026-03 on salary sheet S-7.');
+  assert.equal(validateAccount('SAV-100', 'e1', 'b1', '2026-04', [counted]).error, 'Used in 2026-03');
+});
@@ -63,7 +63,17 @@ export function validateAccount(
   return { ok: true, account: ac };
 }
 
-// Deprecated in favor of state management in App.tsx, but kept for compatibility if needed elsewhere
+// Salary sheet months are YYYY-MM
+export const isSheetMonth = (month: string) => /^\d{4}-(0[1-9]|1[0-2])$/.test(month);
+
+// Why the account can't be counted again, or null while it is still free; a book earns its bonus once
+export function alreadyCounted(ac: AccountOpening): string | null {
+  if (!ac.is_counted) return null;
+  const sheet = ac.salary_sheet_id ? ` on salary sheet ${ac.salary_sheet_id}` : '';
+  return `Account ${ac.account_code} was already counted in ${ac.counted_month || 'an earlier month'}${sheet}.`;
+}
+
+// Deprecated: App.tsx persists counted state via googleSheetService.markAccountCounted, kept for compatibility
 export function markAccountAsCounted(code: string, salarySheetId: string, month: string): void {
   // Implementation moved to App.tsx state handler
 }
@@ -0,0 +1,368 @@
+import type { Branch, Region, Employee, User, AccountOpening, Center, CenterCollectionRecord, CommissionStructure, Target, SalarySheet, SalaryEntry, RecordStatus, AuditEntry, SessionInfo, PermissionMatrix, RolePermissions, LoginEvent, LoginLockout } from '../types';
+import type { DataStore, DataTab } from './dataStore';
+import type { IdKind } from './idService';
+import type { DataTables } from './tableDataStore';
+import { AccessDeniedError, AuditLogError, DuplicateRecordError, InvalidRecordError, RowConflictError, SheetsApiError, reportAuditLogError } from './errors';
+
+// Same origin by default (the Vite dev server proxies /api); set when the API server lives elsewhere
+const API_BASE_URL = (process.env.REACT_APP_API_BASE_URL || '').replace(/\/$/, '');
+const SESSION_KEY = 'salary_app_session';
+
+/**
+ * DataStore backed by the API server (server/apiServer.ts), which holds the Google credentials and
+ * checks every call against the signed-in user's role and branch. Errors come back as the same
+ * RowConflictError / SheetsApiError the Sheets backend throws, plus AccessDeniedError for refused calls
+ * and InvalidRecordError for data the server would not accept.
+ */
+export class ApiDataStore implements DataStore {
+  private get sessionToken() {
+    return sessionStorage.getItem(SESSION_KEY);
+  }
+
+  private async call<T = boolean>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.sessionToken) headers.Authorization = `Bearer ${this.sessionToken}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}/api/${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      throw new SheetsApiError('NETWORK', `${method} /api/${path}`, error instanceof Error ? error.message : String(error));
+    }
+
+    const data = await response.json().catch(() => null);
+    if (response.ok) {
+      // The change went through; only its audit log entries are missing
+      (data?.auditLogErrors || []).forEach((e: AuditLogError) => reportAuditLogError(new AuditLogError(e.entity, e.entityIds, e.detail)));
+      return data?.result as T;
+    }
+
+    const error = data?.error || {};
+    const message = error.message || response.statusText || `HTTP ${response.status}`;
+    if (response.status === 401 && error.reason === 'SECOND_FACTOR') throw new AccessDeniedError('SECOND_FACTOR', message);
+    if (response.status === 401) {
+      sessionStorage.removeItem(SESSION_KEY);
+      throw new AccessDeniedError('SIGNED_OUT', message);
+    }
+    if (response.status === 400) throw new InvalidRecordError(message);
+    if (response.status === 403) throw new AccessDeniedError('FORBIDDEN', message);
+    if (response.status === 429) throw new AccessDeniedError('LOCKED_OUT', message);
+    if (response.status === 409 && error.values) throw new DuplicateRecordError(error.table, error.field, error.values);
+    if (response.status === 409 && error.reason) throw new RowConflictError(error.table, error.recordId, error.reason);
+    if (error.operation) throw new SheetsApiError(error.kind, error.operation, error.detail, error.status);
+    throw new Error(message);
+  }
+
+  private static query(params: Record<string, string | boolean | undefined>) {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== false) query.set(key, String(value));
+    });
+    const text = query.toString();
+    return text ? `?${text}` : '';
+  }
+
+  // --- LOADING ---
+
+  async prefetch(tabs: DataTab[], refresh = false) {
+    try {
+      await this.call<void>('POST', 'prefetch', { tabs, refresh });
+    } catch (err) {
+      // Offline: the getters below still get the service worker's last copy of each tab
+      if (!(err instanceof SheetsApiError && err.kind === 'NETWORK')) throw err;
+    }
+  }
+
+  async checkSchema() {
+    return this.call<string[]>('GET', 'schema');
+  }
+
+  // --- SESSION ---
+
+  // The server records the attempt with the request's user agent
+  async authenticate(username: string, password: string, code?: string) {
+    try {
+      const { token, user } = await this.call<{ token: string; user: User }>('POST', 'session', { username, password, code });
+      sessionStorage.setItem(SESSION_KEY, token);
+      return user;
+    } catch (err) {
+      if (err instanceof AccessDeniedError && err.reason === 'SIGNED_OUT') return null;
+      throw err;
+    }
+  }
+
+  // The server changes the password of the session's own user
+  changePassword(_userId: string, currentPassword: string, newPassword: string) {
+    return this.call('POST', 'session/password', { currentPassword, newPassword });
+  }
+
+  async resumeSession() {
+    if (!this.sessionToken) return null;
+    try {
+      return await this.call<User>('GET', 'session');
+    } catch (err) {
+      if (err instanceof AccessDeniedError && err.reason === 'SIGNED_OUT') return null;
+      throw err;
+    }
+  }
+
+  async signOut() {
+    try {
+      if (this.sessionToken) await this.call<void>('DELETE', 'session');
+    } finally {
+      sessionStorage.removeItem(SESSION_KEY);
+    }
+  }
+
+  getSessions() {
+    return this.call<SessionInfo[]>('GET', 'sessions');
+  }
+
+  revokeSession(sessionId: string) {
+    return this.call('DELETE', `sessions/${encodeURIComponent(sessionId)}`);
+  }
+
+  // Enabling and replacing codes are for the session's own user; disabling someone else's is an admin reset
+  enableTwoFactor(userId: string, secret: string, code: string) {
+    return this.call<string[] | null>('POST', `users/${encodeURIComponent(userId)}/two-factor`, { secret, code });
+  }
+
+  replaceRecoveryCodes(userId: string) {
+    return this.call<string[] | null>('POST', `users/${encodeURIComponent(userId)}/recovery-codes`);
+  }
+
+  disableTwoFactor(userId: string, currentPassword?: string) {
+    return this.call('DELETE', `users/${encodeURIComponent(userId)}/two-factor`, { currentPassword });
+  }
+
+  // --- IDS ---
+
+  reserveIds(kind: IdKind, count: number, branchId?: string) {
+    return this.call<string[]>('POST', 'ids', { kind, count, branchId });
+  }
+
+  // 1. SYSTEM USERS
+  getUsers(includeInactive = false) {
+    return this.call<User[]>('GET', `users${ApiDataStore.query({ includeInactive })}`);
+  }
+
+  addUser(user: User) {
+    return this.call('POST', 'users', user);
+  }
+
+  updateUser(user: User) {
+    return this.call('PUT', `users/${encodeURIComponent(user.id)}`, user);
+  }
+
+  // 2. BRANCHES
+  getBranches(includeInactive = false) {
+    return this.call<Branch[]>('GET', `branches${ApiDataStore.query({ includeInactive })}`);
+  }
+
+  addBranch(branch: Branch) {
+    return this.call('POST', 'branches', [branch]);
+  }
+
+  addBranches(branches: Branch[]) {
+    return this.call('POST', 'branches', branches);
+  }
+
+  updateBranch(branch: Branch) {
+    return this.call('PUT', `branches/${encodeURIComponent(branch.id)}`, branch);
+  }
+
+  // 3. EMPLOYEES
+  getEmployees(includeInactive = false) {
+    return this.call<Employee[]>('GET', `employees${ApiDataStore.query({ includeInactive })}`);
+  }
+
+  addEmployee(emp: Employee) {
+    return this.call('POST', 'employees', [emp]);
+  }
+
+  addEmployees(employees: Employee[]) {
+    return this.call('POST', 'employees', employees);
+  }
+
+  updateEmployee(emp: Employee) {
+    return this.call('PUT', `employees/${encodeURIComponent(emp.id)}`, emp);
+  }
+
+  // 4. ACCOUNTS
+  getAccounts(includeInactive = false) {
+    return this.call<AccountOpening[]>('GET', `accounts${ApiDataStore.query({ includeInactive })}`);
+  }
+
+  addAccount(acc: AccountOpening) {
+    return this.call('POST', 'accounts', [acc]);
+  }
+
+  addAccounts(accounts: AccountOpening[]) {
+    return this.call('POST', 'accounts', accounts);
+  }
+
+  markAccountCounted(acc: AccountOpening, month: string, salarySheetId: string | null) {
+    return this.call('POST', `accounts/${acc.id}/count`, { record: acc, month, salarySheetId });
+  }
+
+  uncountAccount(acc: AccountOpening, reason: string) {
+    return this.call('POST', `accounts/${acc.id}/uncount`, { record: acc, reason });
+  }
+
+  // 5. COLLECTIONS
+  getCollections() {
+    return this.call<CenterCollectionRecord[]>('GET', 'collections');
+  }
+
+  addCollections(records: CenterCollectionRecord[]) {
+    return this.call('POST', 'collections', records);
+  }
+
+  updateCollection(record: CenterCollectionRecord, reason: string) {
+    return this.call('PUT', `collections/${encodeURIComponent(record.id)}`, { record, reason });
+  }
+
+  deleteCollection(record: CenterCollectionRecord) {
+    return this.call('DELETE', `collections/${encodeURIComponent(record.id)}`, { record });
+  }
+
+  // 6. CENTERS
+  getCenters(includeInactive = false) {
+    return this.call<Center[]>('GET', `centers${ApiDataStore.query({ includeInactive })}`);
+  }
+
+  addCenter(center: Center) {
+    return this.call('POST', 'centers', center);
+  }
+
+  updateCenter(center: Center) {
+    return this.call('PUT', `centers/${encodeURIComponent(center.id)}`, center);
+  }
+
+  // STATUS (SOFT DELETE)
+  setUserStatus(user: User, status: RecordStatus) {
+    return this.call('PUT', `users/${encodeURIComponent(user.id)}/status`, { record: user, status });
+  }
+
+  setBranchStatus(branch: Branch, status: RecordStatus) {
+    return this.call('PUT', `branches/${encodeURIComponent(branch.id)}/status`, { record: branch, status });
+  }
+
+  setEmployeeStatus(emp: Employee, status: RecordStatus) {
+    return this.call('PUT', `employees/${encodeURIComponent(emp.id)}/status`, { record: emp, status });
+  }
+
+  setCenterStatus(center: Center, status: RecordStatus) {
+    return this.call('PUT', `centers/${encodeURIComponent(center.id)}/status`, { record: center, status });
+  }
+
+  setAccountStatus(acc: AccountOpening, status: RecordStatus) {
+    return this.call('PUT', `accounts/${acc.id}/status`, { record: acc, status });
+  }
+
+  // 7. COMMISSIONS
+  getCommissions() {
+    return this.call<Record<string, CommissionStructure>>('GET', 'commissions');
+  }
+
+  saveCommission(commission: CommissionStructure) {
+    return this.call('PUT', `commissions/${encodeURIComponent(commission.typeCode)}`, commission);
+  }
+
+  deactivateCommission(commission: CommissionStructure) {
+    return this.call('DELETE', `commissions/${encodeURIComponent(commission.typeCode)}`, { record: commission });
+  }
+
+  // 8. TARGETS
+  getTargets() {
+    return this.call<Target[]>('GET', 'targets');
+  }
+
+  saveTarget(target: Target) {
+    return this.call('PUT', `targets/${encodeURIComponent(target.id)}`, target);
+  }
+
+  // 9. SALARY SHEETS
+  getSalarySheets() {
+    return this.call<SalarySheet[]>('GET', 'salary-sheets');
+  }
+
+  addSalarySheet(sheet: SalarySheet) {
+    return this.call('POST', 'salary-sheets', sheet);
+  }
+
+  // 10. SALARY ENTRIES
+  getSalaryEntries(salarySheetId?: string) {
+    return this.call<SalaryEntry[]>('GET', `salary-entries${ApiDataStore.query({ salarySheetId })}`);
+  }
+
+  addSalaryEntries(entries: SalaryEntry[]) {
+    return this.call('POST', 'salary-entries', entries);
+  }
+
+  updateSalaryEntry(entry: SalaryEntry) {
+    return this.call('PUT', `salary-entries/${encodeURIComponent(entry.id)}`, entry);
+  }
+
+  // 11. AUDIT LOG
+  getAuditLog() {
+    return this.call<AuditEntry[]>('GET', 'audit-log');
+  }
+
+  // The server logs every change it makes; clients cannot add entries of their own
+  async addAuditEntries(_entries: AuditEntry[]): Promise<boolean> {
+    throw new AccessDeniedError('FORBIDDEN', 'The audit log is written by the server.');
+  }
+
+  // 12. BACKUP (Super Admin only)
+  exportTables() {
+    return this.call<DataTables>('GET', 'backup');
+  }
+
+  restoreTables(tables: DataTables) {
+    return this.call('POST', 'backup', tables);
+  }
+
+  // 13. PERMISSIONS (changed by Super Admin only)
+  getPermissions() {
+    return this.call<PermissionMatrix>('GET', 'permissions');
+  }
+
+  savePermissions(rows: RolePermissions[]) {
+    return this.call('PUT', 'permissions', rows);
+  }
+
+  // 14. LOGIN HISTORY
+  getLoginHistory() {
+    return this.call<LoginEvent[]>('GET', 'login-history');
+  }
+
+  getLockouts() {
+    return this.call<LoginLockout[]>('GET', 'lockouts');
+  }
+
+  unlockLogin(username: string) {
+    return this.call('DELETE', `lockouts/${encodeURIComponent(username)}`);
+  }
+
+  // 15. REGIONS
+  getRegions(includeInactive = false) {
+    return this.call<Region[]>('GET', `regions${ApiDataStore.query({ includeInactive })}`);
+  }
+
+  addRegion(region: Region) {
+    return this.call('POST', 'regions', region);
+  }
+
+  updateRegion(region: Region) {
+    return this.call('PUT', `regions/${encodeURIComponent(region.id)}`, region);
+  }
+
+  setRegionStatus(region: Region, status: RecordStatus) {
+    return this.call('PUT', `regions/${encodeURIComponent(region.id)}/status`, { record: region, status });
+  }
+}
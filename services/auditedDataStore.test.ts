@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Employee } from '../types';
+import { AuditedDataStore } from './auditedDataStore';
+import { AuditLogError } from './errors';
+import { MemoryDataStore } from './memoryDataStore';
+
+const EMPLOYEE: Employee = { id: 'BR01-EMP-0001', name: 'Rahim', branch_id: 'b1', designation: 'Field Officer', base_salary: 12000, commission_type: 'A' };
+const ACTOR = { id: 'u1', role: 'SUPER_ADMIN' as const };
+
+test('a change is logged with who made it and the record after it', async () => {
+  const inner = new MemoryDataStore({ persist: false });
+  const store = new AuditedDataStore(inner, () => ACTOR, () => assert.fail('the log was written'));
+  assert.equal(await store.addEmployee(EMPLOYEE), true);
+  const [entry] = await store.getAuditLog();
+  assert.deepEqual([entry.userId, entry.entity, entry.entityId, entry.action], ['u1', 'EMPLOYEE', EMPLOYEE.id, 'CREATE']);
+  assert.equal(JSON.parse(entry.after).name, 'Rahim');
+});
+
+test('a saved change still succeeds when its log entry cannot be written, and the gap is reported', async () => {
+  const inner = new MemoryDataStore({ persist: false });
+  inner.addAuditEntries = async () => { throw new Error('Audit tab is full'); };
+  const reported: AuditLogError[] = [];
+  const store = new AuditedDataStore(inner, () => ACTOR, err => reported.push(err));
+
+  assert.equal(await store.addEmployee(EMPLOYEE), true);
+  assert.equal((await store.getEmployees()).length, 1);
+  assert.deepEqual(reported.map(err => [err.entity, err.entityIds, err.detail]), [['EMPLOYEE', [EMPLOYEE.id], 'Audit tab is full']]);
+});
@@ -0,0 +1,327 @@
+import type { Branch, Region, Employee, User, AccountOpening, Center, CenterCollectionRecord, CommissionStructure, Target, SalarySheet, SalaryEntry, RecordStatus, AuditEntry, AuditEntity, AuditAction, RolePermissions } from '../types';
+import type { DataStore, DataTab } from './dataStore';
+import type { DataTables } from './tableDataStore';
+import { AuditLogError, describeError } from './errors';
+import { IdKind, generateId } from './idService';
+
+type Actor = Pick<User, 'id' | 'role'> | null;
+
+interface Change {
+  entityId: string | number;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Storage bookkeeping and SalaryRow extras are left out of snapshots; passwords and two-factor secrets never reach the log
+const UNLOGGED_FIELDS = ['rowIndex', 'updatedAt', 'password', 'totpSecret', 'recoveryCodes', 'totpLastStep', 'mustSetUpTwoFactor', 'employee', 'branch'];
+
+const snapshot = (record?: object | null): string => {
+  if (!record) return '';
+  return JSON.stringify(Object.fromEntries(Object.entries(record).filter(([field]) => !UNLOGGED_FIELDS.includes(field))));
+};
+
+const statusAction = (status: RecordStatus): AuditAction => status === 'ACTIVE' ? 'REACTIVATE' : 'DEACTIVATE';
+
+/**
+ * Wraps a DataStore so every successful change also appends who made it, and the record before and
+ * after, to the audit log. Reads pass straight through. The API server wraps the Sheets backend with
+ * each request's session user; in the browser the local backend is wrapped with the signed-in user.
+ * Entries that can't be written go to onAuditLogError, and the change's own result is still returned.
+ */
+export class AuditedDataStore implements DataStore {
+  constructor(private inner: DataStore, private actor: () => Actor, private onAuditLogError: (err: AuditLogError) => void) {}
+
+  private async audited(entity: AuditEntity, action: AuditAction, changes: Change[], write: () => Promise<boolean>) {
+    const saved = await write();
+    if (!saved || changes.length === 0) return saved;
+
+    const user = this.actor();
+    const timestamp = new Date().toISOString();
+    const entries: AuditEntry[] = changes.map(change => ({
+      id: generateId(),
+      timestamp,
+      userId: user?.id || 'SYSTEM',
+      role: user?.role || 'SYSTEM',
+      entity,
+      entityId: String(change.entityId),
+      action,
+      before: snapshot(change.before),
+      after: snapshot(change.after)
+    }));
+    try {
+      await this.inner.addAuditEntries(entries);
+    } catch (err) {
+      // Kept where an administrator can copy them into the log. Not thrown: the change is saved (with new
+      // recovery codes, say), and a failed call would only make the caller repeat it
+      console.error(`Failed to write ${entries.length} audit log entries.`, JSON.stringify(entries), err);
+      this.onAuditLogError(new AuditLogError(entity, entries.map(e => e.entityId), describeError(err)));
+    }
+    return saved;
+  }
+
+  // The stored copy of a record, read before it is changed
+  private async current<T extends { id: string | number }>(load: Promise<T[]>, id: string | number): Promise<T | null> {
+    return (await load).find(r => String(r.id) === String(id)) || null;
+  }
+
+  // --- LOADING & SESSION ---
+
+  prefetch(tabs: DataTab[], refresh?: boolean) { return this.inner.prefetch(tabs, refresh); }
+  checkSchema() { return this.inner.checkSchema(); }
+  authenticate(username: string, password: string, code?: string, client?: string) { return this.inner.authenticate(username, password, code, client); }
+  resumeSession() { return this.inner.resumeSession(); }
+  signOut() { return this.inner.signOut(); }
+  getSessions() { return this.inner.getSessions(); }
+  revokeSession(sessionId: string) { return this.inner.revokeSession(sessionId); }
+  reserveIds(kind: IdKind, count: number, branchId?: string) { return this.inner.reserveIds(kind, count, branchId); }
+
+  // 1. SYSTEM USERS
+  getUsers(includeInactive?: boolean) { return this.inner.getUsers(includeInactive); }
+
+  async addUser(user: User) {
+    return this.audited('USER', 'CREATE', [{ entityId: user.id, after: user }], () => this.inner.addUser(user));
+  }
+
+  async updateUser(user: User) {
+    const before = await this.current(this.inner.getUsers(true), user.id);
+    return this.audited('USER', 'UPDATE', [{ entityId: user.id, before, after: user }], () => this.inner.updateUser(user));
+  }
+
+  // Only the cleared mustChangePassword flag shows in the log, since passwords are left out of snapshots
+  async changePassword(userId: string, currentPassword: string, newPassword: string) {
+    const before = await this.current(this.inner.getUsers(true), userId);
+    const after = before && { ...before, mustChangePassword: false };
+    return this.audited('USER', 'UPDATE', [{ entityId: userId, before, after }], () => this.inner.changePassword(userId, currentPassword, newPassword));
+  }
+
+  // Two-factor changes show as twoFactorEnabled; new recovery codes leave the snapshots alike but are still logged
+  async enableTwoFactor(userId: string, secret: string, code: string) {
+    const before = await this.current(this.inner.getUsers(true), userId);
+    const codes = await this.inner.enableTwoFactor(userId, secret, code);
+    await this.audited('USER', 'UPDATE', [{ entityId: userId, before, after: before && { ...before, twoFactorEnabled: true } }], async () => !!codes);
+    return codes;
+  }
+
+  async replaceRecoveryCodes(userId: string) {
+    const before = await this.current(this.inner.getUsers(true), userId);
+    const codes = await this.inner.replaceRecoveryCodes(userId);
+    await this.audited('USER', 'UPDATE', [{ entityId: userId, before, after: before }], async () => !!codes);
+    return codes;
+  }
+
+  async disableTwoFactor(userId: string, currentPassword?: string) {
+    const before = await this.current(this.inner.getUsers(true), userId);
+    const after = before && { ...before, twoFactorEnabled: false };
+    return this.audited('USER', 'UPDATE', [{ entityId: userId, before, after }], () => this.inner.disableTwoFactor(userId, currentPassword));
+  }
+
+  // 2. BRANCHES
+  getBranches(includeInactive?: boolean) { return this.inner.getBranches(includeInactive); }
+
+  async addBranch(branch: Branch) {
+    return this.audited('BRANCH', 'CREATE', [{ entityId: branch.id, after: branch }], () => this.inner.addBranch(branch));
+  }
+
+  async addBranches(branches: Branch[]) {
+    return this.audited('BRANCH', 'CREATE', branches.map(b => ({ entityId: b.id, after: b })), () => this.inner.addBranches(branches));
+  }
+
+  async updateBranch(branch: Branch) {
+    const before = await this.current(this.inner.getBranches(true), branch.id);
+    return this.audited('BRANCH', 'UPDATE', [{ entityId: branch.id, before, after: branch }], () => this.inner.updateBranch(branch));
+  }
+
+  // 3. EMPLOYEES
+  getEmployees(includeInactive?: boolean) { return this.inner.getEmployees(includeInactive); }
+
+  async addEmployee(emp: Employee) {
+    return this.audited('EMPLOYEE', 'CREATE', [{ entityId: emp.id, after: emp }], () => this.inner.addEmployee(emp));
+  }
+
+  async addEmployees(employees: Employee[]) {
+    return this.audited('EMPLOYEE', 'CREATE', employees.map(e => ({ entityId: e.id, after: e })), () => this.inner.addEmployees(employees));
+  }
+
+  async updateEmployee(emp: Employee) {
+    const before = await this.current(this.inner.getEmployees(true), emp.id);
+    const after = { ...emp, status: before ? before.status : emp.status }; // Edits keep the stored status
+    return this.audited('EMPLOYEE', 'UPDATE', [{ entityId: emp.id, before, after }], () => this.inner.updateEmployee(emp));
+  }
+
+  // 4. ACCOUNTS
+  getAccounts(includeInactive?: boolean) { return this.inner.getAccounts(includeInactive); }
+
+  async addAccount(acc: AccountOpening) {
+    return this.audited('ACCOUNT', 'CREATE', [{ entityId: acc.id, after: acc }], () => this.inner.addAccount(acc));
+  }
+
+  async addAccounts(accounts: AccountOpening[]) {
+    return this.audited('ACCOUNT', 'CREATE', accounts.map(a => ({ entityId: a.id, after: a })), () => this.inner.addAccounts(accounts));
+  }
+
+  async markAccountCounted(acc: AccountOpening, month: string, salarySheetId: string | null) {
+    const before = await this.current(this.inner.getAccounts(true), acc.id);
+    const after = { ...(before || acc), is_counted: true, counted_month: month, salary_sheet_id: salarySheetId, uncount_reason: null };
+    return this.audited('ACCOUNT', 'COUNT', [{ entityId: acc.id, before, after }], () => this.inner.markAccountCounted(acc, month, salarySheetId));
+  }
+
+  async uncountAccount(acc: AccountOpening, reason: string) {
+    const before = await this.current(this.inner.getAccounts(true), acc.id);
+    const after = { ...(before || acc), is_counted: false, counted_month: null, salary_sheet_id: null, uncount_reason: reason };
+    return this.audited('ACCOUNT', 'UNCOUNT', [{ entityId: acc.id, before, after }], () => this.inner.uncountAccount(acc, reason));
+  }
+
+  // 5. COLLECTIONS
+  getCollections() { return this.inner.getCollections(); }
+
+  // Resent records are skipped by the backend, so only the ones not stored yet are logged
+  async addCollections(records: CenterCollectionRecord[]) {
+    const stored = new Set((await this.inner.getCollections()).map(r => r.id));
+    const fresh = records.filter(r => !stored.has(r.id));
+    return this.audited('COLLECTION', 'CREATE', fresh.map(r => ({ entityId: r.id, after: r })), () => this.inner.addCollections(records));
+  }
+
+  async updateCollection(record: CenterCollectionRecord, reason: string) {
+    const before = await this.current(this.inner.getCollections(), record.id);
+    const after = { ...record, editReason: reason };
+    return this.audited('COLLECTION', 'UPDATE', [{ entityId: record.id, before, after }], () => this.inner.updateCollection(record, reason));
+  }
+
+  async deleteCollection(record: CenterCollectionRecord) {
+    const before = await this.current(this.inner.getCollections(), record.id);
+    return this.audited('COLLECTION', 'DELETE', [{ entityId: record.id, before: before || record }], () => this.inner.deleteCollection(record));
+  }
+
+  // 6. CENTERS
+  getCenters(includeInactive?: boolean) { return this.inner.getCenters(includeInactive); }
+
+  async addCenter(center: Center) {
+    return this.audited('CENTER', 'CREATE', [{ entityId: center.id, after: center }], () => this.inner.addCenter(center));
+  }
+
+  async updateCenter(center: Center) {
+    const before = await this.current(this.inner.getCenters(true), center.id);
+    const after = { ...center, status: before ? before.status : center.status };
+    return this.audited('CENTER', 'UPDATE', [{ entityId: center.id, before, after }], () => this.inner.updateCenter(center));
+  }
+
+  // STATUS (SOFT DELETE)
+  async setUserStatus(user: User, status: RecordStatus) {
+    const before = await this.current(this.inner.getUsers(true), user.id);
+    const change = { entityId: user.id, before, after: { ...(before || user), status } };
+    return this.audited('USER', statusAction(status), [change], () => this.inner.setUserStatus(user, status));
+  }
+
+  async setBranchStatus(branch: Branch, status: RecordStatus) {
+    const before = await this.current(this.inner.getBranches(true), branch.id);
+    const change = { entityId: branch.id, before, after: { ...(before || branch), status } };
+    return this.audited('BRANCH', statusAction(status), [change], () => this.inner.setBranchStatus(branch, status));
+  }
+
+  async setEmployeeStatus(emp: Employee, status: RecordStatus) {
+    const before = await this.current(this.inner.getEmployees(true), emp.id);
+    const change = { entityId: emp.id, before, after: { ...(before || emp), status } };
+    return this.audited('EMPLOYEE', statusAction(status), [change], () => this.inner.setEmployeeStatus(emp, status));
+  }
+
+  async setCenterStatus(center: Center, status: RecordStatus) {
+    const before = await this.current(this.inner.getCenters(true), center.id);
+    const change = { entityId: center.id, before, after: { ...(before || center), status } };
+    return this.audited('CENTER', statusAction(status), [change], () => this.inner.setCenterStatus(center, status));
+  }
+
+  async setAccountStatus(acc: AccountOpening, status: RecordStatus) {
+    const before = await this.current(this.inner.getAccounts(true), acc.id);
+    const change = { entityId: acc.id, before, after: { ...(before || acc), status } };
+    return this.audited('ACCOUNT', statusAction(status), [change], () => this.inner.setAccountStatus(acc, status));
+  }
+
+  // 7. COMMISSIONS (keyed by type code)
+  getCommissions() { return this.inner.getCommissions(); }
+
+  async saveCommission(commission: CommissionStructure) {
+    const before = (await this.inner.getCommissions())[commission.typeCode] || null;
+    const change = { entityId: commission.typeCode, before, after: commission };
+    return this.audited('COMMISSION', before ? 'UPDATE' : 'CREATE', [change], () => this.inner.saveCommission(commission));
+  }
+
+  async deactivateCommission(commission: CommissionStructure) {
+    const before = (await this.inner.getCommissions())[commission.typeCode] || null;
+    // A built-in default that was never saved has nothing to deactivate, and nothing to log
+    const changes = before ? [{ entityId: commission.typeCode, before, after: { ...before, status: 'INACTIVE' } }] : [];
+    return this.audited('COMMISSION', 'DEACTIVATE', changes, () => this.inner.deactivateCommission(commission));
+  }
+
+  // 8. TARGETS (one per employee and month)
+  getTargets() { return this.inner.getTargets(); }
+
+  async saveTarget(target: Target) {
+    const before = (await this.inner.getTargets()).find(t => t.employeeId === target.employeeId && t.month === target.month) || null;
+    const change = { entityId: before?.id || target.id, before, after: target };
+    return this.audited('TARGET', before ? 'UPDATE' : 'CREATE', [change], () => this.inner.saveTarget(target));
+  }
+
+  // 9. SALARY SHEETS
+  getSalarySheets() { return this.inner.getSalarySheets(); }
+
+  async addSalarySheet(sheet: SalarySheet) {
+    return this.audited('SALARY_SHEET', 'CREATE', [{ entityId: sheet.id, after: sheet }], () => this.inner.addSalarySheet(sheet));
+  }
+
+  // 10. SALARY ENTRIES
+  getSalaryEntries(salarySheetId?: string) { return this.inner.getSalaryEntries(salarySheetId); }
+
+  async addSalaryEntries(entries: SalaryEntry[]) {
+    return this.audited('SALARY_ENTRY', 'CREATE', entries.map(e => ({ entityId: e.id, after: e })), () => this.inner.addSalaryEntries(entries));
+  }
+
+  // Cell edits on the salary sheet (e.g. an overridden basic salary) arrive here
+  async updateSalaryEntry(entry: SalaryEntry) {
+    const before = await this.current(this.inner.getSalaryEntries(entry.salary_sheet_id), entry.id);
+    return this.audited('SALARY_ENTRY', 'UPDATE', [{ entityId: entry.id, before, after: entry }], () => this.inner.updateSalaryEntry(entry));
+  }
+
+  // 11. AUDIT LOG
+  getAuditLog() { return this.inner.getAuditLog(); }
+  addAuditEntries(entries: AuditEntry[]) { return this.inner.addAuditEntries(entries); }
+
+  // 12. BACKUP (a restore brings back the audit log of the backup, so it is not logged itself)
+  exportTables() { return this.inner.exportTables(); }
+  restoreTables(tables: DataTables) { return this.inner.restoreTables(tables); }
+
+  // 13. PERMISSIONS (one entry per role, keyed by role)
+  getPermissions() { return this.inner.getPermissions(); }
+
+  async savePermissions(rows: RolePermissions[]) {
+    const matrix = await this.inner.getPermissions();
+    const changes = rows.map(row => ({ entityId: row.role, before: matrix[row.role] || null, after: row }));
+    return this.audited('PERMISSION', 'UPDATE', changes, () => this.inner.savePermissions(rows));
+  }
+
+  // 14. LOGIN HISTORY (the history records the unlock itself; the log records who lifted it)
+  getLoginHistory() { return this.inner.getLoginHistory(); }
+  getLockouts() { return this.inner.getLockouts(); }
+
+  async unlockLogin(username: string) {
+    const lockout = (await this.inner.getLockouts()).find(l => l.username === username) || null;
+    return this.audited('LOGIN', 'UNLOCK', lockout ? [{ entityId: username, before: lockout }] : [], () => this.inner.unlockLogin(username));
+  }
+
+  // 15. REGIONS
+  getRegions(includeInactive?: boolean) { return this.inner.getRegions(includeInactive); }
+
+  async addRegion(region: Region) {
+    return this.audited('REGION', 'CREATE', [{ entityId: region.id, after: region }], () => this.inner.addRegion(region));
+  }
+
+  async updateRegion(region: Region) {
+    const before = await this.current(this.inner.getRegions(true), region.id);
+    return this.audited('REGION', 'UPDATE', [{ entityId: region.id, before, after: region }], () => this.inner.updateRegion(region));
+  }
+
+  async setRegionStatus(region: Region, status: RecordStatus) {
+    const before = await this.current(this.inner.getRegions(true), region.id);
+    const change = { entityId: region.id, before, after: { ...(before || region), status } };
+    return this.audited('REGION', statusAction(status), [change], () => this.inner.setRegionStatus(region, status));
+  }
+}
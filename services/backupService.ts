@@ -0,0 +1,124 @@
+import JSZip from 'jszip';
+import { createEmptyTables, DataTables, rowsOf, StoredRow, TableName } from './tableDataStore';
+
+// Archive layout: manifest.json plus tables/<table>.json, one array of records per table
+export const BACKUP_FORMAT = 'salary-manager-backup';
+export const BACKUP_VERSION = 1;
+
+export const BACKUP_TABLES = Object.keys(createEmptyTables()) as TableName[];
+
+export interface BackupManifest {
+  format: string;
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  counts: Record<TableName, number>;
+}
+
+export interface Backup {
+  manifest: BackupManifest;
+  tables: DataTables;
+}
+
+// What a record is identified by when comparing a backup with the data it would replace
+const recordKey = (table: TableName, row: StoredRow): string => {
+  if (table === 'commissions') return String(row.typeCode);
+  if (table === 'counters') return String(row.key);
+  if (table === 'permissions') return String(row.role);
+  return String(row.id);
+};
+
+// rowIndex only means something to the Sheets backend; avatar and twoFactorEnabled are derived on read
+const toBackupRow = (row: StoredRow): StoredRow => {
+  const { rowIndex, avatar, twoFactorEnabled, ...data } = row;
+  return data;
+};
+
+// A record's data for comparison: row versions left out, fields in a fixed order, and blank values
+// (which the backends store differently: '', null or no field at all) dropped
+const comparable = (row: StoredRow): string => {
+  const { updatedAt, ...data } = toBackupRow(row);
+  return JSON.stringify(Object.keys(data).sort()
+    .filter(key => data[key] !== undefined && data[key] !== null && data[key] !== '')
+    .map(key => [key, data[key]]));
+};
+
+/**
+ * Files for saveZip: a manifest (format version, when and by whom, rows per table) and one JSON file per table.
+ * Rows keep their status, so deactivated and deleted records come back as they were.
+ */
+export function createBackupFiles(tables: DataTables, createdBy: string): { name: string; blob: Blob }[] {
+  const json = (value: unknown) => new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  const counts = Object.fromEntries(BACKUP_TABLES.map(table => [table, (tables[table] || []).length])) as Record<TableName, number>;
+  const manifest: BackupManifest = { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: new Date().toISOString(), createdBy, counts };
+  return [
+    { name: 'manifest.json', blob: json(manifest) },
+    ...BACKUP_TABLES.map(table => ({ name: `tables/${table}.json`, blob: json(rowsOf(tables[table] || []).map(toBackupRow)) }))
+  ];
+}
+
+// Reads an archive made by createBackupFiles; anything else (or a newer format) is refused with a readable message
+export async function readBackupArchive(file: Blob | ArrayBuffer): Promise<Backup> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a ZIP archive.');
+  }
+
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new Error('This archive is not a salary manager backup (manifest.json is missing).');
+  const manifest: BackupManifest = JSON.parse(await manifestFile.async('string'));
+  if (manifest.format !== BACKUP_FORMAT) throw new Error('This archive is not a salary manager backup.');
+  if (!(manifest.version <= BACKUP_VERSION)) {
+    throw new Error(`This backup was made by a newer version of the app (format ${manifest.version}). Update the app before restoring it.`);
+  }
+
+  const tables = createEmptyTables();
+  for (const table of BACKUP_TABLES) {
+    const tableFile = zip.file(`tables/${table}.json`);
+    if (!tableFile) continue; // Tables added after the backup was made start out empty
+    const rows = JSON.parse(await tableFile.async('string'));
+    if (!Array.isArray(rows)) throw new Error(`tables/${table}.json in the backup is damaged.`);
+    tables[table] = rows;
+    if (manifest.counts?.[table] !== undefined && manifest.counts[table] !== rows.length) {
+      throw new Error(`tables/${table}.json holds ${rows.length} rows but the manifest lists ${manifest.counts[table]}. The backup is incomplete.`);
+    }
+  }
+  return { manifest, tables };
+}
+
+// True when a store holds anything beyond what a fresh one starts with (the seeded admin). Sign-ins are
+// recorded from the very first, so the login history never counts.
+export function hasData(tables: DataTables): boolean {
+  return BACKUP_TABLES.some(table => {
+    if (table === 'users') return tables.users.some(u => !(u.id === 'u1' && u.username === 'admin'));
+    if (table === 'loginHistory') return false;
+    return tables[table].length > 0;
+  });
+}
+
+export interface TableDiff {
+  table: TableName;
+  backupRows: number;
+  currentRows: number;
+  added: number;    // In the backup only
+  removed: number;  // In the current data only; gone after a restore
+  changed: number;  // In both, with different data
+}
+
+// Per-table preview of what a restore would do to the current data
+export function diffTables(backup: DataTables, current: DataTables): TableDiff[] {
+  return BACKUP_TABLES.map(table => {
+    const backupRows = new Map(rowsOf(backup[table]).map(row => [recordKey(table, row), comparable(row)]));
+    const currentRows = new Map(rowsOf(current[table]).map(row => [recordKey(table, row), comparable(row)]));
+    let added = 0;
+    let changed = 0;
+    backupRows.forEach((data, key) => {
+      if (!currentRows.has(key)) added++;
+      else if (currentRows.get(key) !== data) changed++;
+    });
+    const removed = Array.from(currentRows.keys()).filter(key => !backupRows.has(key)).length;
+    return { table, backupRows: backupRows.size, currentRows: currentRows.size, added, removed, changed };
+  });
+}
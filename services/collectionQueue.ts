@@ -0,0 +1,93 @@
+import type { CenterCollectionRecord } from '../types';
+
+const DB_NAME = 'salary-manager-outbox';
+const STORE_NAME = 'collections';
+
+/**
+ * One deposit held on this device. Drafts can still be reviewed and edited; Final Submit marks them
+ * submitted, and only submitted ones are sent. `version` goes up on every local change, so a send that
+ * finishes after an edit (in another tab, say) leaves the newer copy alone.
+ */
+export interface QueuedCollection {
+  key: string; // `${userId}:${record.id}`; each user sees only their own
+  userId: string;
+  record: CenterCollectionRecord;
+  version: number;
+  submitted: boolean;
+  error?: string; // Why the backend refused it; sending it unchanged would fail again, so it waits for the user
+}
+
+export const queueKey = (userId: string, recordId: string) => `${userId}:${recordId}`;
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Deposits staged in the Center Calculator, kept in this browser's IndexedDB until the backend has
+ * accepted them, so a refresh or a dropped connection never loses a batch. A record keeps the ID it
+ * was staged with all the way to the sheet, and addCollections skips IDs it already has, so sending
+ * the same batch twice (e.g. after a response was lost) never duplicates rows.
+ */
+class CollectionQueue {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private getDatabase() {
+    if (!this.dbPromise) this.dbPromise = openDatabase();
+    return this.dbPromise;
+  }
+
+  private async run(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<any> {
+    const db = await this.getDatabase();
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = work(tx.objectStore(STORE_NAME));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    return request ? request.result : undefined;
+  }
+
+  // Applies change to each stored entry whose version still matches the given one, in one transaction
+  private whereUnchanged(entries: QueuedCollection[], change: (store: IDBObjectStore, stored: QueuedCollection) => void) {
+    return this.run('readwrite', store => entries.forEach(entry => {
+      const request = store.get(entry.key);
+      request.onsuccess = () => {
+        const stored: QueuedCollection | undefined = request.result;
+        if (stored && stored.version === entry.version) change(store, stored);
+      };
+    }));
+  }
+
+  // The user's entries, newest first like the calculator's entry list
+  async list(userId: string): Promise<QueuedCollection[]> {
+    const entries: QueuedCollection[] = await this.run('readonly', store => store.getAll());
+    return entries
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.record.createdAt.localeCompare(a.record.createdAt));
+  }
+
+  // Adds new entries or replaces stored ones with the same key
+  async put(entries: QueuedCollection[]): Promise<void> {
+    await this.run('readwrite', store => entries.forEach(entry => store.put(entry)));
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await this.run('readwrite', store => keys.forEach(key => store.delete(key)));
+  }
+
+  // Drops entries the backend accepted, unless they were changed since they were read for sending
+  async removeSent(entries: QueuedCollection[]): Promise<void> {
+    await this.whereUnchanged(entries, (store, stored) => store.delete(stored.key));
+  }
+
+  // Parks an entry the backend refused until the user fixes or discards it
+  async reject(entry: QueuedCollection, error: string): Promise<void> {
+    await this.whereUnchanged([entry], (store, stored) => store.put({ ...stored, error }));
+  }
+}
+
+export const collectionQueue = new CollectionQueue();
@@ -0,0 +1,165 @@
+import { Branch, Employee, User, DeactivatableEntity } from '../types';
+import type { DependencyData } from './dependencyService';
+
+// Records the health scan looks at; collections have no status, so they can be repaired but not deactivated
+export type HealthEntity = DeactivatableEntity | 'COLLECTION';
+
+export type HealthIssueKind = 'ORPHAN' | 'DUPLICATE';
+
+export type HealthFixAction = 'SET_BRANCH' | 'SET_EMPLOYEE' | 'UNLINK_EMPLOYEE' | 'UNASSIGN_BRANCH' | 'CREATE_CENTER' | 'DEACTIVATE';
+
+export interface HealthFixOption {
+  value: string;
+  label: string;
+}
+
+export interface HealthFix {
+  action: HealthFixAction;
+  label: string;
+  // Choices for the fix (a branch, an employee, or which duplicate to deactivate); none means it applies as is
+  options?: HealthFixOption[];
+}
+
+export interface HealthIssue {
+  key: string;
+  kind: HealthIssueKind;
+  entity: HealthEntity;
+  recordId: string;
+  recordName: string;
+  problem: string;
+  fixes: HealthFix[];
+}
+
+const BRANCH_BOUND_ROLES: User['role'][] = ['MANAGER', 'USER'];
+
+const isActive = (record: { status?: string }) => record.status !== 'INACTIVE';
+
+const normalize = (value: string | number) => String(value).trim().toLowerCase();
+
+/**
+ * Scans every table (active and inactive records) for active records that point at a missing or
+ * deactivated branch, employee or center, and for keys that must be unique but are stored twice.
+ * Each issue carries the fixes that make sense for it; the Data Health screen applies them one by one.
+ */
+export function scanDataHealth(data: DependencyData): HealthIssue[] {
+  const branchById = new Map(data.branches.map(b => [b.id, b]));
+  const employeeById = new Map(data.employees.map(e => [e.id, e]));
+  const activeBranches = data.branches.filter(isActive);
+  const activeEmployees = data.employees.filter(isActive);
+
+  const branchOptions: HealthFixOption[] = activeBranches.map(b => ({ value: b.id, label: b.name }));
+  const employeeOptions = (branchId: string): HealthFixOption[] => activeEmployees
+    .filter(e => e.branch_id === branchId)
+    .map(e => ({ value: e.id, label: `${e.name} (${e.id})` }));
+
+  const setBranch: HealthFix = { action: 'SET_BRANCH', label: 'Move to branch', options: branchOptions };
+  const setEmployee = (branchId: string, label: string): HealthFix => ({ action: 'SET_EMPLOYEE', label, options: employeeOptions(branchId) });
+  const deactivate: HealthFix = { action: 'DEACTIVATE', label: 'Deactivate' };
+
+  // Why a reference is broken, or null when it points at an active record
+  const branchProblem = (id?: string) => {
+    if (!id) return 'has no branch';
+    const branch = branchById.get(id);
+    if (!branch) return `points to branch ${id}, which does not exist`;
+    return isActive(branch) ? null : `belongs to deactivated branch ${branch.name}`;
+  };
+  const employeeProblem = (id: string | undefined, role: string) => {
+    if (!id) return null;
+    const employee = employeeById.get(id);
+    if (!employee) return `${role} ${id} does not exist`;
+    return isActive(employee) ? null : `${role} ${employee.name} (${id}) has been deactivated`;
+  };
+
+  const issues: HealthIssue[] = [];
+  const orphan = (entity: HealthEntity, recordId: string | number, recordName: string, problem: string, fixes: HealthFix[]) => {
+    issues.push({ key: `ORPHAN-${entity}-${recordId}-${issues.length}`, kind: 'ORPHAN', entity, recordId: String(recordId), recordName, problem, fixes });
+  };
+
+  data.employees.filter(isActive).forEach((e: Employee) => {
+    const problem = branchProblem(e.branch_id);
+    if (problem) orphan('EMPLOYEE', e.id, `${e.name} (${e.id})`, `Employee ${problem}.`, [setBranch, deactivate]);
+  });
+
+  data.users.filter(isActive).forEach((u: User) => {
+    const name = `${u.name} (@${u.username})`;
+    if (u.branch_id || BRANCH_BOUND_ROLES.includes(u.role)) {
+      const problem = branchProblem(u.branch_id);
+      if (problem) orphan('USER', u.id, name, `Login ${problem}.`, [setBranch, deactivate]);
+    }
+    // A further branch that is gone is taken off the user's list rather than replaced
+    (u.branch_ids || []).forEach(branchId => {
+      const problem = branchProblem(branchId);
+      if (problem) orphan('USER', u.id, name, `Login ${problem.replace('belongs to', 'covers')}.`, [
+        { action: 'UNASSIGN_BRANCH', label: 'Remove branch', options: [{ value: branchId, label: branchById.get(branchId)?.name || branchId }] },
+        deactivate
+      ]);
+    });
+    const problem = employeeProblem(u.employee_id, 'Linked employee');
+    if (problem) orphan('USER', u.id, name, `${problem}.`, [{ action: 'UNLINK_EMPLOYEE', label: 'Unlink employee' }]);
+  });
+
+  data.centers.filter(isActive).forEach(c => {
+    const name = `${c.centerName} (#${c.centerCode})`;
+    const branchIssue = branchProblem(c.branchId);
+    if (branchIssue) {
+      orphan('CENTER', c.id, name, `Center ${branchIssue}.`, [setBranch, deactivate]);
+      return;
+    }
+    const problem = employeeProblem(c.assignedEmployeeId, 'Assigned employee');
+    if (problem) orphan('CENTER', c.id, name, `${problem}.`, [setEmployee(c.branchId, 'Assign to'), deactivate]);
+  });
+
+  // Accounts cannot be edited once entered; a broken one is deactivated and entered again
+  data.accounts.filter(isActive).forEach(a => {
+    const branchIssue = branchProblem(a.branch_id);
+    const problem = branchIssue ? `Account ${branchIssue}`
+      : a.opened_by_employee_id ? employeeProblem(a.opened_by_employee_id, 'Opening employee') : 'Account has no opening employee';
+    if (problem) orphan('ACCOUNT', a.id, a.account_code, `${problem}.`, [deactivate]);
+  });
+
+  const centerKeys = new Set(data.centers.map(c => `${c.branchId}-${c.centerCode}`));
+  data.records.forEach(r => {
+    const name = `${r.createdAt.slice(0, 10)} - Center #${r.centerCode} - ৳${(r.amount + (r.loanAmount || 0)).toLocaleString()}`;
+    const branch = branchById.get(r.branchId);
+    if (!branch) {
+      orphan('COLLECTION', r.id, name, `Collection points to branch ${r.branchId}, which does not exist.`, [setBranch]);
+      return;
+    }
+    if (!centerKeys.has(`${r.branchId}-${r.centerCode}`)) {
+      orphan('COLLECTION', r.id, name, `No center #${r.centerCode} exists in ${branch.name}.`, [{ action: 'CREATE_CENTER', label: `Create center #${r.centerCode}` }]);
+    }
+    if (!employeeById.has(r.employeeId)) {
+      orphan('COLLECTION', r.id, name, `Collecting employee ${r.employeeId} does not exist.`, [setEmployee(r.branchId, 'Credit to')]);
+    }
+  });
+
+  // Duplicates: one issue per shared key, and the fix asks which copy to deactivate
+  const duplicates = <T>(entity: DeactivatableEntity, records: T[], key: (r: T) => string, id: (r: T) => string, label: (r: T) => string, describe: (r: T) => string) => {
+    const groups = new Map<string, T[]>();
+    records.forEach(r => groups.set(key(r), [...(groups.get(key(r)) || []), r]));
+    groups.forEach((group, groupKey) => {
+      if (group.length < 2) return;
+      issues.push({
+        key: `DUPLICATE-${entity}-${groupKey}`,
+        kind: 'DUPLICATE',
+        entity,
+        recordId: id(group[1]),
+        recordName: describe(group[0]),
+        problem: `${group.length} active records use it.`,
+        fixes: [{ action: 'DEACTIVATE', label: 'Deactivate', options: group.map(r => ({ value: id(r), label: label(r) })) }]
+      });
+    });
+  };
+
+  const branchName = (id: string) => branchById.get(id)?.name || id;
+  const employeeName = (id: string) => employeeById.get(id)?.name || id;
+
+  duplicates('ACCOUNT', data.accounts.filter(isActive), a => normalize(a.account_code), a => String(a.id),
+    a => `#${a.id} - ${a.opening_date} - ${employeeName(a.opened_by_employee_id)}`, a => `Account code ${a.account_code}`);
+  duplicates('CENTER', data.centers.filter(isActive), c => `${c.branchId}-${c.centerCode}`, c => c.id,
+    c => `${c.centerName} (${c.id})`, c => `Center #${c.centerCode} in ${branchName(c.branchId)}`);
+  duplicates('BRANCH', activeBranches, (b: Branch) => normalize(b.name), b => b.id,
+    b => `${b.name} (${b.id})${b.address ? ` - ${b.address}` : ''}`, b => `Branch name ${b.name}`);
+
+  return issues;
+}
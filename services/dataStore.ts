@@ -0,0 +1,166 @@
+import type { Branch, Region, Employee, User, AccountOpening, Center, CenterCollectionRecord, CommissionStructure, Target, SalarySheet, SalaryEntry, RecordStatus, AuditEntry, SessionInfo, PermissionMatrix, RolePermissions, LoginEvent, LoginLockout } from '../types';
+import type { IdKind } from './idService';
+import type { DataTables } from './tableDataStore';
+import { ApiDataStore } from './apiDataStore';
+import { AuditedDataStore } from './auditedDataStore';
+import { MemoryDataStore } from './memoryDataStore';
+import { reportAuditLogError } from './errors';
+
+// One name per Google Sheets tab (and per table in the JSON-backed stores)
+export type DataTab =
+  | 'users' | 'branches' | 'employees' | 'commissions' | 'centers'
+  | 'accounts' | 'collections' | 'targets' | 'salarySheets' | 'salaryEntries' | 'auditLog' | 'permissions' | 'loginHistory' | 'regions';
+
+// Storage contract shared by every backend (Google Sheets, in-memory/IndexedDB, local JSON file).
+// Reads return ACTIVE records only where the Sheets backend filters them (pass includeInactive to get
+// soft-deleted rows too); writes resolve to false (or throw) when the backend rejects them.
+export interface DataStore {
+  // LOADING
+  // Loads the given tabs in as few round trips as the backend allows; the getters that follow are served
+  // from that copy until a write touches the tab. refresh drops cached copies first (other users' edits).
+  prefetch(tabs: DataTab[], refresh?: boolean): Promise<void>;
+  // Problems with the stored layout (e.g. a column missing from a tab) found when it was opened; empty when all is well
+  checkSchema(): Promise<string[]>;
+
+  // SESSION
+  // Checks the credentials of an ACTIVE user and starts a session where the backend keeps one; null when they don't match
+  // Passwords are stored as salted hashes; a plain-text row that matches is rehashed on the spot.
+  // Every attempt is added to the login history (client is the user agent, where the backend cannot tell);
+  // a username locked out after too many failures throws AccessDeniedError (LOCKED_OUT) instead.
+  // Accounts with two-factor sign-in also need code (authenticator or recovery code): the right password
+  // without one throws AccessDeniedError (SECOND_FACTOR), so the caller can ask for it and try again.
+  authenticate(username: string, password: string, code?: string, client?: string): Promise<User | null>;
+  // Sets a user's own password (and clears mustChangePassword); false when currentPassword does not match
+  changePassword(userId: string, currentPassword: string, newPassword: string): Promise<boolean>;
+  // The user of this client's session, re-read from storage so role and branch are current; null when there is
+  // no session or it has timed out (idle or absolute) or been revoked
+  resumeSession(): Promise<User | null>;
+  // Ends the session on the backend, so its token is refused from then on
+  signOut(): Promise<void>;
+  // Live sessions of every user (Super Admins only), and revoking one of them
+  getSessions(): Promise<SessionInfo[]>;
+  revokeSession(sessionId: string): Promise<boolean>;
+
+  // TWO-FACTOR SIGN-IN (RFC 6238 TOTP, see services/twoFactor.ts)
+  // Turns it on for a user once code shows their authenticator app holds secret. Resolves to new recovery
+  // codes, shown this once and stored hashed, or null when the code does not match.
+  enableTwoFactor(userId: string, secret: string, code: string): Promise<string[] | null>;
+  // Replaces a user's recovery codes; null when two-factor sign-in is off
+  replaceRecoveryCodes(userId: string): Promise<string[] | null>;
+  // Turning off one's own needs currentPassword (false when it does not match); admins resetting another
+  // user's leave it out
+  disableTwoFactor(userId: string, currentPassword?: string): Promise<boolean>;
+
+  // IDS
+  // Reserves count new IDs of a kind (branch-scoped kinds need branchId); each is handed out only once.
+  // Inserts throw DuplicateRecordError instead of storing a second record under an existing ID.
+  reserveIds(kind: IdKind, count: number, branchId?: string): Promise<string[]>;
+
+  // 1. SYSTEM USERS
+  getUsers(includeInactive?: boolean): Promise<User[]>;
+  addUser(user: User): Promise<boolean>;
+  updateUser(user: User): Promise<boolean>;
+
+  // 2. BRANCHES
+  getBranches(includeInactive?: boolean): Promise<Branch[]>;
+  addBranch(branch: Branch): Promise<boolean>;
+  addBranches(branches: Branch[]): Promise<boolean>;
+  updateBranch(branch: Branch): Promise<boolean>;
+
+  // 3. EMPLOYEES
+  getEmployees(includeInactive?: boolean): Promise<Employee[]>;
+  addEmployee(emp: Employee): Promise<boolean>;
+  addEmployees(employees: Employee[]): Promise<boolean>;
+  updateEmployee(emp: Employee): Promise<boolean>;
+
+  // 4. ACCOUNTS
+  getAccounts(includeInactive?: boolean): Promise<AccountOpening[]>;
+  addAccount(acc: AccountOpening): Promise<boolean>;
+  addAccounts(accounts: AccountOpening[]): Promise<boolean>;
+  markAccountCounted(acc: AccountOpening, month: string, salarySheetId: string | null): Promise<boolean>;
+  uncountAccount(acc: AccountOpening, reason: string): Promise<boolean>;
+
+  // 5. COLLECTIONS
+  getCollections(): Promise<CenterCollectionRecord[]>;
+  // Skips records whose ID is already stored, so a batch can be resent after a lost response
+  addCollections(records: CenterCollectionRecord[]): Promise<boolean>;
+  updateCollection(record: CenterCollectionRecord, reason: string): Promise<boolean>;
+  deleteCollection(record: CenterCollectionRecord): Promise<boolean>;
+
+  // 6. CENTERS
+  getCenters(includeInactive?: boolean): Promise<Center[]>;
+  addCenter(center: Center): Promise<boolean>;
+  updateCenter(center: Center): Promise<boolean>;
+
+  // STATUS (SOFT DELETE)
+  setUserStatus(user: User, status: RecordStatus): Promise<boolean>;
+  setBranchStatus(branch: Branch, status: RecordStatus): Promise<boolean>;
+  setEmployeeStatus(emp: Employee, status: RecordStatus): Promise<boolean>;
+  setCenterStatus(center: Center, status: RecordStatus): Promise<boolean>;
+  setAccountStatus(acc: AccountOpening, status: RecordStatus): Promise<boolean>;
+
+  // 7. COMMISSIONS
+  getCommissions(): Promise<Record<string, CommissionStructure>>;
+  saveCommission(commission: CommissionStructure): Promise<boolean>;
+  deactivateCommission(commission: CommissionStructure): Promise<boolean>;
+
+  // 8. TARGETS
+  getTargets(): Promise<Target[]>;
+  saveTarget(target: Target): Promise<boolean>;
+
+  // 9. SALARY SHEETS
+  getSalarySheets(): Promise<SalarySheet[]>;
+  addSalarySheet(sheet: SalarySheet): Promise<boolean>;
+
+  // 10. SALARY ENTRIES
+  getSalaryEntries(salarySheetId?: string): Promise<SalaryEntry[]>;
+  addSalaryEntries(entries: SalaryEntry[]): Promise<boolean>;
+  updateSalaryEntry(entry: SalaryEntry): Promise<boolean>;
+
+  // 11. AUDIT LOG
+  // Append-only; entries are written by AuditedDataStore after each successful change, never by the UI
+  getAuditLog(): Promise<AuditEntry[]>;
+  addAuditEntries(entries: AuditEntry[]): Promise<boolean>;
+
+  // 12. BACKUP
+  // Every record of every table, deactivated and deleted ones and passwords included (see backupService)
+  exportTables(): Promise<DataTables>;
+  // Writes a backup back. The Sheets backend only restores into a spreadsheet that holds no data yet
+  // (the seeded admin aside); the table backends replace everything they hold.
+  restoreTables(tables: DataTables): Promise<boolean>;
+
+  // 13. PERMISSIONS
+  // What each role may do (see services/permissions.ts): the stored rows over the defaults, Super Admin always in full
+  getPermissions(): Promise<PermissionMatrix>;
+  // Stores the given roles' rows, one per role; of Super Admin's only requireTwoFactor is used
+  savePermissions(rows: RolePermissions[]): Promise<boolean>;
+
+  // 14. LOGIN HISTORY
+  // Every sign-in attempt and unlock, appended by authenticate and unlockLogin (see services/loginHistory.ts)
+  getLoginHistory(): Promise<LoginEvent[]>;
+  // Usernames locked out right now, and lifting one lockout; false when the username is not locked out
+  getLockouts(): Promise<LoginLockout[]>;
+  unlockLogin(username: string): Promise<boolean>;
+
+  // 15. REGIONS
+  // Reference data like branches; a branch names its region in region_id
+  getRegions(includeInactive?: boolean): Promise<Region[]>;
+  addRegion(region: Region): Promise<boolean>;
+  updateRegion(region: Region): Promise<boolean>;
+  setRegionStatus(region: Region, status: RecordStatus): Promise<boolean>;
+}
+
+// 'api' (default) goes through the API server, which holds the Google credentials and talks to Sheets;
+// 'local' keeps everything in this browser's IndexedDB. GoogleSheetService itself runs on the server only,
+// and the JSON-file backend (LocalFileDataStore) needs Node's fs and is only used from scripts and tests.
+export type DataBackend = 'api' | 'local';
+
+export const DATA_BACKEND: DataBackend = process.env.REACT_APP_DATA_BACKEND === 'local' ? 'local' : 'api';
+
+// The API server audits changes itself; the local backend is audited here, as the user of its own session
+const localDataStore = (): DataStore => {
+  const store = new MemoryDataStore();
+  return new AuditedDataStore(store, () => store.signedInUser, reportAuditLogError);
+};
+
+export const dataStore: DataStore = DATA_BACKEND === 'local' ? localDataStore() : new ApiDataStore();
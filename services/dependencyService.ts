@@ -0,0 +1,53 @@
+import { Branch, Employee, User, AccountOpening, Center, CenterCollectionRecord, DeactivatableEntity } from '../types';
+import { assignedBranchIds } from './permissions';
+
+export interface DependentGroup {
+  label: string;
+  items: string[];
+}
+
+export interface DependencyData {
+  branches: Branch[];
+  users: User[];
+  employees: Employee[];
+  centers: Center[];
+  accounts: AccountOpening[];
+  records: CenterCollectionRecord[];
+}
+
+const group = (label: string, items: string[]): DependentGroup[] => items.length > 0 ? [{ label, items }] : [];
+
+// Lists active records that still point at the record about to be deactivated,
+// so the confirmation step can show what would be left orphaned.
+export function findDependents(entity: DeactivatableEntity, id: string, data: DependencyData): DependentGroup[] {
+  switch (entity) {
+    case 'BRANCH':
+      return [
+        ...group('Employees in this branch', data.employees.filter(e => e.branch_id === id).map(e => `${e.name} (${e.id})`)),
+        ...group('Users bound to this branch', data.users.filter(u => assignedBranchIds(u).includes(id)).map(u => `${u.name} (@${u.username})`)),
+        ...group('Centers in this branch', data.centers.filter(c => c.branchId === id).map(c => `${c.centerName} (#${c.centerCode})`)),
+        ...group('Accounts opened in this branch', data.accounts.filter(a => a.branch_id === id).map(a => a.account_code))
+      ];
+    case 'EMPLOYEE':
+      return [
+        ...group('Centers assigned to this employee', data.centers.filter(c => c.assignedEmployeeId === id).map(c => `${c.centerName} (#${c.centerCode})`)),
+        ...group('Login accounts linked to this employee', data.users.filter(u => u.employee_id === id).map(u => `${u.name} (@${u.username})`)),
+        ...group('Accounts opened by this employee', data.accounts.filter(a => a.opened_by_employee_id === id).map(a => a.account_code))
+      ];
+    case 'CENTER': {
+      const center = data.centers.find(c => c.id === id);
+      if (!center) return [];
+      const records = data.records.filter(r => r.branchId === center.branchId && r.centerCode === center.centerCode);
+      return group('Collection records for this center', records.map(r => `${r.createdAt.slice(0, 10)} - ৳${(r.amount + (r.loanAmount || 0)).toLocaleString()}`));
+    }
+    case 'ACCOUNT': {
+      const account = data.accounts.find(a => String(a.id) === id);
+      return account?.is_counted
+        ? group('Salary sheets that counted this account', [`${account.counted_month || 'Unknown month'}${account.salary_sheet_id ? ` (sheet ${account.salary_sheet_id})` : ''}`])
+        : [];
+    }
+    case 'USER':
+    default:
+      return [];
+  }
+}
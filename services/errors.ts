@@ -0,0 +1,145 @@
+export type ConflictReason = 'MODIFIED' | 'MISSING';
+
+/**
+ * A row write was refused because the stored row no longer matches what the caller loaded:
+ * someone else saved it in the meantime (MODIFIED) or it can no longer be found by ID (MISSING).
+ * The UI should reload and let the user retry against the latest data.
+ */
+export class RowConflictError extends Error {
+  readonly table: string;
+  readonly recordId: string;
+  readonly reason: ConflictReason;
+
+  constructor(table: string, recordId: string, reason: ConflictReason) {
+    super(reason === 'MODIFIED'
+      ? `${table} record ${recordId} was changed by someone else after you loaded it.`
+      : `${table} record ${recordId} could not be found. It may have been moved or removed.`);
+    this.name = 'RowConflictError';
+    this.table = table;
+    this.recordId = recordId;
+    this.reason = reason;
+  }
+}
+
+/**
+ * An insert was refused because it would store a second record under the same key, either one already
+ * stored or another row of the same batch (e.g. two imports reserving IDs at once, or a reused account code).
+ */
+export class DuplicateRecordError extends Error {
+  readonly table: string;
+  readonly field: string;
+  readonly values: string[];
+
+  constructor(table: string, field: string, values: string[]) {
+    super(`${table} already has a record with ${field} ${values.join(', ')}. Nothing was saved.`);
+    this.name = 'DuplicateRecordError';
+    this.table = table;
+    this.field = field;
+    this.values = values;
+  }
+}
+
+export type SheetsErrorKind = 'AUTH' | 'QUOTA' | 'NOT_FOUND' | 'NETWORK' | 'SERVER' | 'BAD_REQUEST';
+
+/**
+ * A Google Sheets (or OAuth token) request that failed for good, after any retries.
+ * `kind` says what went wrong in terms the UI can act on; `status` is the HTTP status when there was a response.
+ */
+export class SheetsApiError extends Error {
+  readonly kind: SheetsErrorKind;
+  readonly status?: number;
+  readonly operation: string;
+  readonly detail: string;
+
+  constructor(kind: SheetsErrorKind, operation: string, detail: string, status?: number) {
+    super(`${operation}: ${detail}`);
+    this.name = 'SheetsApiError';
+    this.kind = kind;
+    this.status = status;
+    this.operation = operation;
+    this.detail = detail;
+  }
+}
+
+export type AccessDeniedReason = 'SIGNED_OUT' | 'FORBIDDEN' | 'LOCKED_OUT' | 'SECOND_FACTOR';
+
+/**
+ * The API server refused a request: the session is missing or expired (SIGNED_OUT), the signed-in
+ * user's role or branch does not allow it (FORBIDDEN), sign-ins are refused for now after too many
+ * failed ones (LOCKED_OUT), or the password was right but the account also needs an authenticator or
+ * recovery code (SECOND_FACTOR). Thrown by the server's access checks and rebuilt from the HTTP response on the client.
+ */
+export class AccessDeniedError extends Error {
+  readonly reason: AccessDeniedReason;
+
+  constructor(reason: AccessDeniedReason, message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * The backend refused the data itself (HTTP 400 from the API server): a missing field, an unknown
+ * reference and the like. Sending the same request again fails the same way.
+ */
+export class InvalidRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRecordError';
+  }
+}
+
+/**
+ * A change was saved, but its audit log entries could not be written (after the Sheets client's own retries).
+ * Never thrown: the change went through, so the caller gets its result and this is announced alongside
+ * (see onAuditLogError) so the gap in the log is seen. The change itself must not be repeated.
+ */
+export class AuditLogError extends Error {
+  readonly entity: string;
+  readonly entityIds: string[];
+  readonly detail: string;
+
+  constructor(entity: string, entityIds: string[], detail: string) {
+    super(`The change to ${entity} ${entityIds.join(', ')} was saved, but it could not be added to the audit log (${detail}). Do not make it again; tell an administrator so the log can be completed.`);
+    this.name = 'AuditLogError';
+    this.entity = entity;
+    this.entityIds = entityIds;
+    this.detail = detail;
+  }
+}
+
+const auditLogListeners = new Set<(err: AuditLogError) => void>();
+
+// Calls listener for every saved change that is missing from the audit log; returns the unsubscribe function
+export const onAuditLogError = (listener: (err: AuditLogError) => void) => {
+  auditLogListeners.add(listener);
+  return () => { auditLogListeners.delete(listener); };
+};
+
+export const reportAuditLogError = (err: AuditLogError) => auditLogListeners.forEach(listener => listener(err));
+
+export const errorKindForStatus = (status: number): SheetsErrorKind => {
+  if (status === 401 || status === 403) return 'AUTH';
+  if (status === 429) return 'QUOTA';
+  if (status === 404) return 'NOT_FOUND';
+  if (status >= 500) return 'SERVER';
+  return 'BAD_REQUEST';
+};
+
+const KIND_MESSAGES: Record<SheetsErrorKind, string> = {
+  AUTH: 'The app could not sign in to Google Sheets. Check the service account credentials and sheet sharing.',
+  QUOTA: 'Google Sheets is rate limiting requests. Wait a minute and try again.',
+  NOT_FOUND: 'The spreadsheet or tab could not be found.',
+  NETWORK: 'Could not reach the server. Check your internet connection.',
+  SERVER: 'Google Sheets is having problems right now. Try again shortly.',
+  BAD_REQUEST: 'Google Sheets rejected the request.'
+};
+
+// One-line, user-facing explanation for any error thrown by a data store
+export const describeError = (err: unknown): string => {
+  if (err instanceof SheetsApiError) return KIND_MESSAGES[err.kind];
+  if (err instanceof RowConflictError) return err.message;
+  if (err instanceof Error && err.message) return err.message;
+  return 'Unexpected error.';
+};
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectionParts } from './googleSheetService';
+
+test('a deposit with savings and a loan is stored as a Savings row and a Loan row', () => {
+  assert.deepEqual(collectionParts({ amount: 500, loanAmount: 200 }), [
+    { type: 'Savings', amount: 500, loan: 0 },
+    { type: 'Loan', amount: 0, loan: 200 }
+  ]);
+});
+
+test('a deposit leaves out the part that is zero', () => {
+  assert.deepEqual(collectionParts({ amount: 300 }), [{ type: 'Savings', amount: 300, loan: 0 }]);
+  assert.deepEqual(collectionParts({ amount: 0, loanAmount: 150 }), [{ type: 'Loan', amount: 0, loan: 150 }]);
+  assert.deepEqual(collectionParts({ amount: 0, loanAmount: 0 }), []);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch } from '../types';
+import { DuplicateRecordError } from './errors';
+import { SequenceStore, allocateIds, assertUnique } from './idService';
+
+// Counters and branches held in memory, as the Counters and Branches tabs would hold them
+const sequenceStore = (branches: Branch[], counters: Record<string, number> = {}): SequenceStore & { branches: Branch[]; counters: Record<string, number> } => ({
+  branches,
+  counters,
+  async reserveSequence(key, count) {
+    const first = (counters[key] || 0) + 1;
+    counters[key] = first + count - 1;
+    return first;
+  },
+  async getBranches() {
+    return this.branches;
+  },
+  async updateBranch(branch) {
+    this.branches = this.branches.map(b => b.id === branch.id ? branch : b);
+    return true;
+  }
+});
+
+test('allocateIds numbers branches, regions and accounts from their own counters', async () => {
+  const store = sequenceStore([], { BR: 3 });
+  assert.deepEqual(await allocateIds(store, 'BRANCH', 2), ['BR04', 'BR05']);
+  assert.deepEqual(await allocateIds(store, 'REGION', 1), ['RG01']);
+  assert.deepEqual(await allocateIds(store, 'ACCOUNT', 3), ['1', '2', '3']);
+});
+
+test('allocateIds prefixes employees and centers with their branch code', async () => {
+  const store = sequenceStore([{ id: 'b1', code: 'BR01', name: 'Main' }], { 'BR01-EMP': 41 });
+  assert.deepEqual(await allocateIds(store, 'EMPLOYEE', 2, 'b1'), ['BR01-EMP-0042', 'BR01-EMP-0043']);
+  assert.deepEqual(await allocateIds(store, 'CENTER', 1, 'b1'), ['BR01-CTR-0001']);
+});
+
+test('allocateIds gives a branch without a code its code first', async () => {
+  const store = sequenceStore([{ id: 'b1', name: 'Old' }], { BR: 7 });
+  assert.deepEqual(await allocateIds(store, 'EMPLOYEE', 1, 'b1'), ['BR08-EMP-0001']);
+  assert.equal(store.branches[0].code, 'BR08');
+});
+
+test('allocateIds refuses an unknown branch', async () => {
+  await assert.rejects(allocateIds(sequenceStore([]), 'CENTER', 1, 'missing'), /Branch missing not found/);
+});
+
+test('assertUnique accepts new keys', () => {
+  assert.doesNotThrow(() => assertUnique('Employees', 'ID', ['E3', 'E4'], ['E1', 'E2']));
+});
+
+test('assertUnique refuses keys already stored, ignoring case and spaces', () => {
+  assert.throws(() => assertUnique('Employees', 'ID', ['e1 ', 'E3'], ['E1', 'E2']), (err: unknown) =>
+    err instanceof DuplicateRecordError && err.table === 'Employees' && err.field === 'ID' && err.values.join() === 'e1 ');
+});
+
+test('assertUnique refuses keys repeated within the batch, naming each once', () => {
+  assert.throws(() => assertUnique('Accounts', 'AccountCode', [101, 102, 101, 101], []), (err: unknown) =>
+    err instanceof DuplicateRecordError && err.values.join() === '101');
+});
@@ -0,0 +1,77 @@
+import type { Branch } from '../types';
+import type { DataStore } from './dataStore';
+import { DuplicateRecordError } from './errors';
+
+// Records that can be given a reserved, human-readable ID
+export type IdKind = 'BRANCH' | 'REGION' | 'EMPLOYEE' | 'CENTER' | 'ACCOUNT';
+
+// Middle part of branch-scoped codes, e.g. BR01-EMP-0042
+const KIND_CODES: Record<'EMPLOYEE' | 'CENTER', string> = {
+  EMPLOYEE: 'EMP',
+  CENTER: 'CTR'
+};
+
+// Random IDs, for records created where no counter can be reached (offline deposits, salary rows, audit entries)
+export const generateId = () => Math.random().toString(36).substring(2, 9) + Date.now().toString(36);
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+export const formatBranchCode = (sequence: number) => `BR${pad(sequence, 2)}`;
+
+const formatRegionCode = (sequence: number) => `RG${pad(sequence, 2)}`;
+
+const formatBranchScoped = (branchCode: string, kind: 'EMPLOYEE' | 'CENTER', sequence: number) =>
+  `${branchCode}-${KIND_CODES[kind]}-${pad(sequence, 4)}`;
+
+// What a backend provides so IDs can be allocated on top of it
+export interface SequenceStore {
+  // Adds count to the named counter (kept in the Counters tab) and returns the first of the reserved numbers
+  reserveSequence(key: string, count: number): Promise<number>;
+  getBranches(includeInactive?: boolean): Promise<Branch[]>;
+  updateBranch(branch: Branch): Promise<boolean>;
+}
+
+/**
+ * Reserves count new IDs: BR01 for branches, RG01 for regions, BR01-EMP-0042 / BR01-CTR-0105 for employees and centers of a
+ * branch, and plain sequential numbers for accounts (whose readable key is the account code). Each kind
+ * (per branch) has its own counter, so IDs never repeat no matter how many users create records at once.
+ * A branch created before branch codes existed gets its code the first time one is needed.
+ */
+export async function allocateIds(store: SequenceStore, kind: IdKind, count: number, branchId?: string): Promise<string[]> {
+  const range = (first: number, format: (n: number) => string) => Array.from({ length: count }, (_, i) => format(first + i));
+
+  if (kind === 'ACCOUNT') return range(await store.reserveSequence('ACC', count), String);
+  if (kind === 'BRANCH') return range(await store.reserveSequence('BR', count), formatBranchCode);
+  if (kind === 'REGION') return range(await store.reserveSequence('RG', count), formatRegionCode);
+
+  const branch = (await store.getBranches(true)).find(b => b.id === branchId);
+  if (!branch) throw new Error(`Branch ${branchId} not found. Select a branch before saving.`);
+
+  let branchCode = branch.code;
+  if (!branchCode) {
+    branchCode = formatBranchCode(await store.reserveSequence('BR', 1));
+    await store.updateBranch({ ...branch, code: branchCode });
+  }
+  return range(await store.reserveSequence(`${branchCode}-${KIND_CODES[kind]}`, count), n => formatBranchScoped(branchCode!, kind, n));
+}
+
+// IDs for records of several branches at once, in the same order as branchIds
+export async function reserveIdsByBranch(store: Pick<DataStore, 'reserveIds'>, kind: 'EMPLOYEE' | 'CENTER', branchIds: string[]): Promise<string[]> {
+  const perBranch = new Map<string, string[]>();
+  for (const branchId of new Set(branchIds)) {
+    perBranch.set(branchId, await store.reserveIds(kind, branchIds.filter(id => id === branchId).length, branchId));
+  }
+  return branchIds.map(branchId => perBranch.get(branchId)!.shift()!);
+}
+
+// Refuses a batch whose keys are already stored or repeated within the batch (compared case-insensitively)
+export function assertUnique(table: string, field: string, keys: (string | number)[], storedKeys: (string | number)[]) {
+  const normalize = (key: string | number) => String(key).trim().toLowerCase();
+  const taken = new Set(storedKeys.map(normalize));
+  const duplicates: string[] = [];
+  keys.forEach(key => {
+    if (taken.has(normalize(key))) duplicates.push(String(key));
+    taken.add(normalize(key));
+  });
+  if (duplicates.length > 0) throw new DuplicateRecordError(table, field, Array.from(new Set(duplicates)));
+}
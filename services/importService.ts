@@ -93,7 +93,7 @@ export const validateAccountRow = (
   };
 };
 
-export const parseBranchesCSV = (csvContent: string): BranchImportResult => {
+export const parseBranchesCSV = (csvContent: string, existingBranches: Branch[] = []): BranchImportResult => {
   const lines = csvContent.split(/\r?\n/);
   const valid: { name: string, address?: string, phone?: string }[] = [];
   const errors: string[] = [];
@@ -133,6 +133,14 @@ export const parseBranchesCSV = (csvContent: string): BranchImportResult => {
          errors.push(`Row ${i + 1}: Empty name`);
          continue;
     }
+    if (existingBranches.some(b => normalize(b.name) === normalize(name))) {
+         errors.push(`Row ${i + 1}: Branch '${name}' already exists`);
+         continue;
+    }
+    if (valid.some(v => normalize(v.name) === normalize(name))) {
+         errors.push(`Row ${i + 1}: Duplicate branch '${name}' in file`);
+         continue;
+    }
     
     valid.push({ name, address, phone });
   }
@@ -159,10 +167,11 @@ export const parseEmployeesCSV = (csvContent: string, branches: Branch[], existi
   const idxSalary = headers.findIndex(h => h.includes('salary') || h.includes('basic') || h.includes('base'));
   const idxComm = headers.findIndex(h => h.includes('commission') || h.includes('type'));
 
-  if (idxId === -1 || idxName === -1 || idxDesig === -1 || idxBranch === -1 || idxSalary === -1) {
+  // The ID column is optional: rows without an ID get the next code of their branch when saved
+  if (idxName === -1 || idxDesig === -1 || idxBranch === -1 || idxSalary === -1) {
     return { 
       valid: [], 
-      errors: [`Missing required columns. Expected: Employee ID, Name, Designation, Branch, Basic Salary`] 
+      errors: [`Missing required columns. Expected: Name, Designation, Branch, Basic Salary (Employee ID optional)`] 
     };
   }
 
@@ -177,7 +186,7 @@ export const parseEmployeesCSV = (csvContent: string, branches: Branch[], existi
        continue;
     }
 
-    const id = cols[idxId];
+    const id = idxId !== -1 ? cols[idxId] : '';
     const name = cols[idxName];
     const designation = cols[idxDesig];
     const branchName = cols[idxBranch];
@@ -190,11 +199,8 @@ export const parseEmployeesCSV = (csvContent: string, branches: Branch[], existi
         commission_type = 'A';
     }
 
-    if (!id) {
-       errors.push(`Row ${i + 1}: Missing Employee ID`);
-       continue;
-    }
-    if (existingIds.includes(id) || valid.some(v => v.id === id)) {
+    const sameId = (other: string) => !!id && normalize(other) === normalize(id);
+    if (existingIds.some(sameId) || valid.some(v => sameId(v.id))) {
        errors.push(`Row ${i + 1}: Duplicate Employee ID '${id}'`);
        continue;
     }
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Employee } from '../types';
+import { LocalFileDataStore } from './localFileDataStore';
+
+const EMPLOYEE: Employee = { id: 'BR01-EMP-0001', name: 'Rahim', branch_id: 'b1', designation: 'Field Officer', base_salary: 12000, commission_type: 'A' };
+
+// Each test gets its own database file, removed afterwards
+const withFile = async (run: (filePath: string) => Promise<void>) => {
+  const dir = await mkdtemp(join(tmpdir(), 'salary-store-'));
+  try {
+    await run(join(dir, 'db.json'));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+test('a missing file starts a database with only the default admin', () => withFile(async filePath => {
+  const store = new LocalFileDataStore(filePath);
+  assert.deepEqual((await store.getUsers()).map(u => u.username), ['admin']);
+  assert.deepEqual(await store.getEmployees(), []);
+}));
+
+test('records written by one store are read back by a new one on the same file', () => withFile(async filePath => {
+  const writer = new LocalFileDataStore(filePath);
+  await writer.addEmployee(EMPLOYEE);
+  const [stored] = await writer.getEmployees();
+  await writer.updateEmployee({ ...stored, base_salary: 15000 });
+
+  const [reread] = await new LocalFileDataStore(filePath).getEmployees();
+  assert.equal(reread.name, 'Rahim');
+  assert.equal(reread.base_salary, 15000);
+  assert.equal(reread.status, 'ACTIVE');
+  // Written whole through a temp file, so the file on disk is always complete JSON
+  assert.equal(JSON.parse(await readFile(filePath, 'utf8')).employees.length, 1);
+}));
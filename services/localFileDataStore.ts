@@ -0,0 +1,28 @@
+import { readFile, writeFile, rename } from 'fs/promises';
+import { TableDataStore, DataTables } from './tableDataStore';
+
+/**
+ * DataStore backed by a single JSON file on disk (Node only).
+ * Used for offline testing and local tooling; the browser bundle never imports it.
+ */
+export class LocalFileDataStore extends TableDataStore {
+  constructor(private filePath: string) {
+    super();
+  }
+
+  protected async readTables(): Promise<Partial<DataTables> | null> {
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  protected async writeTables(tables: DataTables): Promise<void> {
+    // Write to a temp file first so a crash mid-write never leaves a truncated database
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(tables, null, 2), 'utf8');
+    await rename(tmpPath, this.filePath);
+  }
+}
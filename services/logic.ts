@@ -1,14 +1,12 @@
 
 import { SalaryEntry, CommissionType, CommissionStructure } from '../types';
 import { bonusRates } from './bonusRates';
+import { generateId } from './idService';
 
 // Constants for calculation logic
 const BONUS_TARGET_BOOKS = 50; // Bonus if total books > 50
 const TARGET_BONUS_AMOUNT = 500;
 
-// Simple random ID generator compatible with all environments
-const generateId = () => Math.random().toString(36).substring(2, 9) + Date.now().toString(36);
-
 export const createEmptyEntry = (
   sheetId: string, 
   employeeId: string, 
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LoginEvent, LoginOutcome } from '../types';
+import { LOCKOUT_MINUTES, MAX_FAILED_LOGINS, findLockouts } from './loginHistory';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+// An attempt `minutesAgo` before NOW
+const event = (minutesAgo: number, outcome: LoginOutcome = 'FAILED', username = 'field1'): LoginEvent => ({
+  id: `${username}-${minutesAgo}-${outcome}`,
+  timestamp: new Date(NOW - minutesAgo * MINUTE).toISOString(),
+  username,
+  userId: `id-${username}`,
+  outcome
+});
+
+const failures = (minutesAgo: number[], username?: string) => minutesAgo.map(m => event(m, 'FAILED', username));
+
+test(`${MAX_FAILED_LOGINS} failed sign-ins within ${LOCKOUT_MINUTES} minutes lock the username from the last one`, () => {
+  const [lockout] = findLockouts(failures([10, 8, 6, 4, 2]), NOW);
+  assert.equal(lockout.username, 'field1');
+  assert.equal(lockout.userId, 'id-field1');
+  assert.equal(lockout.failedAttempts, 5);
+  assert.equal(lockout.lockedUntil, new Date(NOW - 2 * MINUTE + LOCKOUT_MINUTES * MINUTE).toISOString());
+});
+
+test('fewer failures, or failures spread wider than the lockout period, do not lock', () => {
+  assert.deepEqual(findLockouts(failures([4, 3, 2, 1]), NOW), []);
+  assert.deepEqual(findLockouts(failures([29, 25, 20, 3, 1]), NOW), []);
+});
+
+test('a lockout ends once its period has passed', () => {
+  assert.deepEqual(findLockouts(failures([30, 28, 26, 24, 22]), NOW), []);
+});
+
+test('a successful sign-in or an unlock clears the failures before it', () => {
+  assert.deepEqual(findLockouts([...failures([10, 9, 8, 7]), event(6, 'SUCCESS'), event(5)], NOW), []);
+  assert.deepEqual(findLockouts([...failures([10, 9, 8, 7, 6]), event(5, 'UNLOCKED')], NOW), []);
+});
+
+test('attempts refused while locked out do not extend the lockout', () => {
+  const [lockout] = findLockouts([...failures([10, 9, 8, 7, 6]), event(3, 'LOCKED_OUT')], NOW);
+  assert.equal(lockout.lockedUntil, new Date(NOW - 6 * MINUTE + LOCKOUT_MINUTES * MINUTE).toISOString());
+});
+
+test('each username is locked on its own, most recently failed first', () => {
+  const history = [...failures([14, 13, 12, 11, 10], 'a'), ...failures([5, 4, 3, 2, 1], 'b'), ...failures([2], 'c')];
+  assert.deepEqual(findLockouts(history, NOW).map(l => l.username), ['b', 'a']);
+});
@@ -0,0 +1,103 @@
+import type { LoginEvent, LoginLockout, LoginOutcome, User } from '../types';
+import { AccessDeniedError } from './errors';
+import { generateId } from './idService';
+import { CredentialStore, checkCredentials } from './passwordService';
+import { checkSecondFactor } from './twoFactor';
+
+// Five failed sign-ins within 15 minutes lock the username for 15 minutes after the last of them
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_MINUTES = 15;
+
+const LOCKOUT_MS = LOCKOUT_MINUTES * 60 * 1000;
+
+// What a backend provides so sign-ins can be recorded and throttled on top of it
+export interface LoginHistoryStore extends CredentialStore {
+  getLoginHistory(): Promise<LoginEvent[]>;
+  addLoginEvent(event: LoginEvent): Promise<boolean>;
+}
+
+/**
+ * The lockout of one username, worked out from its history: failed attempts since the last successful
+ * sign-in or unlock count, and every run of MAX_FAILED_LOGINS of them within the lockout period locks it
+ * from the last one on. Attempts refused while locked out are not checked, so they do not extend it.
+ */
+function lockoutOf(events: LoginEvent[], now: number): LoginLockout | null {
+  let failures: LoginEvent[] = [];
+  events.forEach(event => {
+    if (event.outcome === 'SUCCESS' || event.outcome === 'UNLOCKED') failures = [];
+    else if (event.outcome === 'FAILED') failures.push(event);
+  });
+
+  // Only a run ending within the last lockout period can still hold a lock
+  const recent = failures.filter(f => Date.parse(f.timestamp) > now - 2 * LOCKOUT_MS);
+  let lockedUntil = 0;
+  recent.forEach((failure, i) => {
+    const time = Date.parse(failure.timestamp);
+    const run = recent.slice(0, i + 1).filter(f => Date.parse(f.timestamp) > time - LOCKOUT_MS);
+    if (run.length >= MAX_FAILED_LOGINS) lockedUntil = time + LOCKOUT_MS;
+  });
+  if (lockedUntil <= now) return null;
+
+  const last = failures[failures.length - 1];
+  return {
+    username: last.username,
+    userId: failures.find(f => f.userId)?.userId,
+    failedAttempts: failures.length,
+    lastFailedAt: last.timestamp,
+    lockedUntil: new Date(lockedUntil).toISOString()
+  };
+}
+
+// Every username locked out at `now`, most recently failed first
+export function findLockouts(history: LoginEvent[], now = Date.now()): LoginLockout[] {
+  const byUsername = new Map<string, LoginEvent[]>();
+  [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).forEach(event => {
+    if (!byUsername.has(event.username)) byUsername.set(event.username, []);
+    byUsername.get(event.username)!.push(event);
+  });
+  return Array.from(byUsername.values())
+    .map(events => lockoutOf(events, now))
+    .filter((lockout): lockout is LoginLockout => !!lockout)
+    .sort((a, b) => b.lastFailedAt.localeCompare(a.lastFailedAt));
+}
+
+async function record(store: LoginHistoryStore, username: string, outcome: LoginOutcome, userId?: string, client?: string) {
+  const event: LoginEvent = { id: generateId(), timestamp: new Date().toISOString(), username, userId, outcome, client };
+  await store.addLoginEvent(event);
+}
+
+/**
+ * checkCredentials behind the lockout, with every attempt added to the login history. A locked-out
+ * username is refused with AccessDeniedError (LOCKED_OUT) before its password is looked at, so the right
+ * password does not get in either until the lockout ends or a Super Admin lifts it.
+ * For accounts with two-factor sign-in, the right password without a code throws AccessDeniedError
+ * (SECOND_FACTOR). That answer gives away that the password was right, so it counts as a failed attempt
+ * towards the lockout, like a wrong code or a wrong password.
+ */
+export async function signIn(store: LoginHistoryStore, username: string, password: string, code?: string, client?: string): Promise<User | null> {
+  const history = (await store.getLoginHistory()).filter(event => event.username === username);
+  const lockout = findLockouts(history)[0];
+  if (lockout) {
+    await record(store, username, 'LOCKED_OUT', lockout.userId, client);
+    const minutes = Math.ceil((Date.parse(lockout.lockedUntil) - Date.now()) / 60000);
+    throw new AccessDeniedError('LOCKED_OUT', `Too many failed sign-ins. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}, or ask a Super Admin to unlock the account.`);
+  }
+
+  const user = await checkCredentials(store, username, password);
+  if (user?.totpSecret && !code) {
+    await record(store, username, 'FAILED', user.id, client);
+    throw new AccessDeniedError('SECOND_FACTOR', 'Enter the code from your authenticator app, or one of your recovery codes.');
+  }
+  const signedIn = user && (await checkSecondFactor(store, user, code || '')) ? user : null;
+  const userId = user?.id || (await store.getUsers(true)).find(u => u.username === username)?.id;
+  await record(store, username, signedIn ? 'SUCCESS' : 'FAILED', userId, client);
+  return signedIn;
+}
+
+// Lifts a username's lockout; false when it is not locked out
+export async function unlockLogin(store: LoginHistoryStore, username: string): Promise<boolean> {
+  const lockout = findLockouts((await store.getLoginHistory()).filter(event => event.username === username))[0];
+  if (!lockout) return false;
+  await record(store, username, 'UNLOCKED', lockout.userId);
+  return true;
+}
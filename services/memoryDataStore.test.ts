@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CenterCollectionRecord, Employee } from '../types';
+import { DuplicateRecordError, RowConflictError } from './errors';
+import { MemoryDataStore } from './memoryDataStore';
+
+const EMPLOYEE: Employee = { id: 'BR01-EMP-0001', name: 'Rahim', branch_id: 'b1', designation: 'Field Officer', base_salary: 12000, commission_type: 'A' };
+
+const deposit = (id: string): CenterCollectionRecord =>
+  ({ id, branchId: 'b1', employeeId: EMPLOYEE.id, centerCode: 5, amount: 500, loanAmount: 200, type: 'OWN', createdAt: '2026-03-01T09:00:00Z' });
+
+// Without persistence the store lives only in memory, as under Node
+const newStore = () => new MemoryDataStore({ persist: false });
+
+test('inserts are active and refuse an ID already stored', async () => {
+  const store = newStore();
+  await store.addEmployee(EMPLOYEE);
+  assert.equal((await store.getEmployees())[0].status, 'ACTIVE');
+  await assert.rejects(store.addEmployees([{ ...EMPLOYEE, name: 'Copy' }]), DuplicateRecordError);
+});
+
+test('an edit keeps the stored status; only setEmployeeStatus changes it', async () => {
+  const store = newStore();
+  await store.addEmployee(EMPLOYEE);
+  const [stored] = await store.getEmployees();
+  await store.setEmployeeStatus(stored, 'INACTIVE');
+
+  const [inactive] = await store.getEmployees(true);
+  await store.updateEmployee({ ...inactive, base_salary: 15000, status: 'ACTIVE' });
+  const [edited] = await store.getEmployees(true);
+  assert.equal(edited.status, 'INACTIVE');
+  assert.equal(edited.base_salary, 15000);
+  assert.deepEqual(await store.getEmployees(), []);
+});
+
+test('an edit made from an out-of-date copy is a conflict', async () => {
+  const store = newStore();
+  await store.addEmployee(EMPLOYEE);
+  const [loaded] = await store.getEmployees();
+  await assert.rejects(store.updateEmployee({ ...loaded, name: 'Stale', updatedAt: '2026-01-01T00:00:00.000Z' }), (err: unknown) =>
+    err instanceof RowConflictError && err.reason === 'MODIFIED');
+  await assert.rejects(store.updateEmployee({ ...loaded, id: 'missing' }), (err: unknown) =>
+    err instanceof RowConflictError && err.reason === 'MISSING');
+});
+
+test('resending collections skips the IDs already stored', async () => {
+  const store = newStore();
+  await store.addCollections([deposit('c1')]);
+  await store.addCollections([deposit('c1'), deposit('c2')]);
+  assert.deepEqual((await store.getCollections()).map(r => r.id).sort(), ['c1', 'c2']);
+});
@@ -0,0 +1,67 @@
+import { TableDataStore, DataTables, TableName } from './tableDataStore';
+
+const DB_NAME = 'salary-manager';
+const STORE_NAME = 'tables';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * In-memory DataStore. In the browser every table is mirrored to IndexedDB so a branch can run
+ * without Google; under Node (or with persist disabled) it is a plain in-memory store for tests.
+ */
+export class MemoryDataStore extends TableDataStore {
+  private persist: boolean;
+  private seed: Partial<DataTables> | null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(options: { seed?: Partial<DataTables>; persist?: boolean } = {}) {
+    super();
+    this.seed = options.seed || null;
+    this.persist = options.persist ?? typeof indexedDB !== 'undefined';
+  }
+
+  private getDatabase() {
+    if (!this.dbPromise) this.dbPromise = openDatabase();
+    return this.dbPromise;
+  }
+
+  protected async readTables(): Promise<Partial<DataTables> | null> {
+    if (!this.persist) return this.seed;
+
+    const db = await this.getDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll())
+    ]);
+    if (keys.length === 0) return this.seed;
+
+    const tables: Partial<DataTables> = {};
+    keys.forEach((key, i) => {
+      tables[key as TableName] = values[i];
+    });
+    return tables;
+  }
+
+  protected async writeTables(tables: DataTables, changed: TableName): Promise<void> {
+    if (!this.persist) return;
+
+    const db = await this.getDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).put(tables[changed], changed);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+}
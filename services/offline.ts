@@ -0,0 +1,19 @@
+// Must match API_CACHE in public/sw.js
+const API_CACHE = 'salary-api-v2';
+
+/**
+ * Registers the service worker (public/sw.js) that keeps the app shell and the last API reads the
+ * Center Calculator needs, so the app, including the calculator, still opens without a connection.
+ */
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error("Service worker registration failed.", err));
+  });
+};
+
+// Drops cached API responses so the next user on this device can't read them offline (on sign-in and sign-out)
+export const clearOfflineCache = async () => {
+  if (!('caches' in window)) return;
+  await caches.delete(API_CACHE).catch(err => console.error("Failed to clear the offline cache.", err));
+};
@@ -0,0 +1,87 @@
+import type { User } from '../types';
+import { RowConflictError } from './errors';
+
+// The account every new store starts with; whoever signs in with it first must pick a new password
+export const DEFAULT_ADMIN_ID = 'u1';
+export const DEFAULT_ADMIN_PASSWORD = 'admin';
+
+// Stored as pbkdf2-sha256$<iterations>$<salt>$<hash> (base64), so the work factor can be raised later
+// without invalidating existing hashes. WebCrypto runs the same code in the browser and under Node.
+const HASH_SCHEME = 'pbkdf2-sha256';
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+// Compares every byte, so the time taken does not reveal how much of a guess was right
+function sameBytes(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  a.forEach((byte, i) => { diff |= byte ^ b[i]; });
+  return diff === 0;
+}
+
+export const isPasswordHash = (stored?: string) => !!stored && stored.startsWith(`${HASH_SCHEME}$`);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return [HASH_SCHEME, ITERATIONS, toBase64(salt), toBase64(await derive(password, salt, ITERATIONS))].join('$');
+}
+
+// What a backend writes to the Password column: plain text is hashed, a stored hash passes through unchanged
+export async function storedPassword(password?: string): Promise<string> {
+  if (!password || isPasswordHash(password)) return password || '';
+  return hashPassword(password);
+}
+
+// Rows written before hashing hold the password itself; those still match until the next sign-in migrates them
+export async function verifyPassword(password: string, stored?: string): Promise<boolean> {
+  if (!stored) return false;
+  if (!isPasswordHash(stored)) {
+    const encoder = new TextEncoder();
+    return sameBytes(encoder.encode(password), encoder.encode(stored));
+  }
+  const [, iterations, salt, hash] = stored.split('$');
+  return sameBytes(await derive(password, fromBase64(salt), Number(iterations)), fromBase64(hash));
+}
+
+// What a backend provides so credentials can be checked on top of it
+export interface CredentialStore {
+  getUsers(includeInactive?: boolean): Promise<User[]>;
+  updateUser(user: User): Promise<boolean>;
+}
+
+/**
+ * Checks the credentials of an ACTIVE user. A plain-text password that matches is replaced by its hash
+ * there and then, and the default admin signing in with the default password is flagged to change it.
+ */
+export async function checkCredentials(store: CredentialStore, username: string, password: string): Promise<User | null> {
+  const user = (await store.getUsers()).find(u => u.username === username);
+  if (!user || !(await verifyPassword(password, user.password))) return null;
+
+  const isDefaultAdmin = user.id === DEFAULT_ADMIN_ID && password === DEFAULT_ADMIN_PASSWORD;
+  if (isPasswordHash(user.password) && (user.mustChangePassword || !isDefaultAdmin)) return user;
+
+  try {
+    await store.updateUser({ ...user, password: await hashPassword(password), mustChangePassword: user.mustChangePassword || isDefaultAdmin });
+  } catch (err) {
+    // Another sign-in migrated the row first
+    if (!(err instanceof RowConflictError)) throw err;
+  }
+  return (await store.getUsers()).find(u => u.id === user.id) || null;
+}
+
+// Sets a user's own password after checking the current one; false when it does not match
+export async function changePassword(store: CredentialStore, userId: string, currentPassword: string, newPassword: string): Promise<boolean> {
+  const user = (await store.getUsers()).find(u => u.id === userId);
+  if (!user || !(await verifyPassword(currentPassword, user.password))) return false;
+  return store.updateUser({ ...user, password: await hashPassword(newPassword), mustChangePassword: false });
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RolePermissions, User } from '../types';
+import { AccessDeniedError } from './errors';
+import { DEFAULT_PERMISSIONS, ENTITY_ACTIONS, accessFor, resolvePermissions } from './permissions';
+
+const user = (fields: Partial<User>): User => ({ id: 'u1', username: 'user', name: 'User', role: 'USER', ...fields });
+
+test('resolvePermissions keeps the defaults for roles without a stored row', () => {
+  assert.deepEqual(resolvePermissions([]), DEFAULT_PERMISSIONS);
+});
+
+test('resolvePermissions takes stored rows, dropping actions an entity does not support', () => {
+  const stored: RolePermissions[] = [{ role: 'MANAGER', scope: 'BRANCH', actions: { EMPLOYEE: ['VIEW', 'APPROVE'], BRANCH: ['VIEW'] } }];
+  assert.deepEqual(resolvePermissions(stored).MANAGER.actions, { EMPLOYEE: ['VIEW'] });
+});
+
+test('resolvePermissions falls back to branch scope and ignores unknown roles', () => {
+  const stored = [
+    { role: 'USER', scope: 'EVERYWHERE', actions: {} },
+    { role: 'INTERN', scope: 'ALL', actions: { USER: ['VIEW'] } }
+  ] as unknown as RolePermissions[];
+  const matrix = resolvePermissions(stored);
+  assert.equal(matrix.USER.scope, 'BRANCH');
+  assert.equal('INTERN' in matrix, false);
+});
+
+test('resolvePermissions keeps every Super Admin permission but their two-factor requirement', () => {
+  const stored: RolePermissions[] = [{ role: 'SUPER_ADMIN', scope: 'BRANCH', actions: {}, requireTwoFactor: true }];
+  const { SUPER_ADMIN } = resolvePermissions(stored);
+  assert.equal(SUPER_ADMIN.scope, 'ALL');
+  assert.deepEqual(SUPER_ADMIN.actions, ENTITY_ACTIONS);
+  assert.equal(SUPER_ADMIN.requireTwoFactor, true);
+});
+
+test('accessFor checks actions against the role, treating entities without VIEW as readable', () => {
+  const access = accessFor(user({ role: 'USER' }), DEFAULT_PERMISSIONS);
+  assert.equal(access.can('COLLECTION', 'CREATE'), true);
+  assert.equal(access.can('COLLECTION', 'DELETE'), false);
+  assert.equal(access.can('BRANCH', 'VIEW'), true);
+  assert.throws(() => access.require('COLLECTION', 'DELETE', 'delete collections'), (err: unknown) =>
+    err instanceof AccessDeniedError && err.reason === 'FORBIDDEN' && err.message === 'Your role (USER) is not allowed to delete collections.');
+});
+
+test('accessFor limits branch-scoped roles to their branches, and their own records anywhere', () => {
+  const access = accessFor(user({ role: 'AREA_MANAGER', branch_id: 'b1', branch_ids: ['b2'], employee_id: 'E9' }), DEFAULT_PERMISSIONS);
+  assert.deepEqual(access.branchIds, ['b1', 'b2']);
+  assert.equal(access.seesAllBranches, false);
+  assert.equal(access.inScope('b2'), true);
+  assert.equal(access.inScope('b3'), false);
+  assert.equal(access.inScope('b3', 'E9'), true);
+  assert.throws(() => access.requireScope('edit employees', 'b3'), AccessDeniedError);
+});
+
+test('accessFor lets all-branch roles see everything, and others without VIEW only their own', () => {
+  const admin = accessFor(user({ role: 'ADMIN' }), DEFAULT_PERMISSIONS);
+  assert.equal(admin.seesAllBranches, true);
+  assert.equal(admin.canSee('EMPLOYEE', 'anywhere'), true);
+
+  const matrix = resolvePermissions([{ role: 'USER', scope: 'BRANCH', actions: { COLLECTION: ['CREATE'] } }]);
+  const field = accessFor(user({ branch_id: 'b1', employee_id: 'E1' }), matrix);
+  assert.equal(field.canSee('COLLECTION', 'b1', 'E2'), false);
+  assert.equal(field.canSee('COLLECTION', 'b2', 'E1'), true);
+});
@@ -0,0 +1,195 @@
+import type { BranchScope, PermissionAction, PermissionEntity, PermissionMatrix, RolePermissions, User, UserRole } from '../types';
+import { AccessDeniedError } from './errors';
+
+export const USER_ROLES: UserRole[] = ['SUPER_ADMIN', 'ADMIN', 'OWNER', 'AREA_MANAGER', 'MANAGER', 'USER', 'AUDITOR'];
+
+// The branches a branch-bound user works in: their home branch and any further ones they cover
+export const assignedBranchIds = (user: Pick<User, 'branch_id' | 'branch_ids'>): string[] =>
+  Array.from(new Set([user.branch_id, ...(user.branch_ids || [])].filter((id): id is string => !!id)));
+
+/**
+ * The actions each entity supports, in the order the permission editor shows them. Branches, centers and
+ * commission rates are reference data every role reads, so they have no VIEW permission. For accounts, EDIT
+ * is counting them into a salary sheet and APPROVE is reverting a counted account; for backups, VIEW is
+ * downloading one and CREATE restoring one; for sessions, DELETE is revoking one; for sign-ins, VIEW is the
+ * login history and lockouts and EDIT is unlocking a username.
+ */
+export const ENTITY_ACTIONS: Record<PermissionEntity, PermissionAction[]> = {
+  USER: ['VIEW', 'CREATE', 'EDIT', 'DELETE'],
+  BRANCH: ['CREATE', 'EDIT', 'DELETE'],
+  EMPLOYEE: ['VIEW', 'CREATE', 'EDIT', 'DELETE'],
+  ACCOUNT: ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'APPROVE'],
+  COLLECTION: ['VIEW', 'CREATE', 'EDIT', 'DELETE'],
+  CENTER: ['CREATE', 'EDIT', 'DELETE'],
+  COMMISSION: ['EDIT', 'DELETE'],
+  TARGET: ['VIEW', 'EDIT'],
+  SALARY: ['VIEW', 'CREATE', 'EDIT'],
+  AUDIT_LOG: ['VIEW'],
+  DATA_HEALTH: ['VIEW'],
+  BACKUP: ['VIEW', 'CREATE'],
+  SESSION: ['VIEW', 'DELETE'],
+  LOGIN: ['VIEW', 'EDIT']
+};
+
+export const PERMISSION_ENTITIES = Object.keys(ENTITY_ACTIONS) as PermissionEntity[];
+export const BRANCH_SCOPES: BranchScope[] = ['ALL', 'BRANCH'];
+
+// What each role could do before permissions were stored; a role without a row in the Permissions tab keeps these
+const GLOBAL_OPS_ACTIONS: RolePermissions['actions'] = {
+  USER: ['VIEW'],
+  BRANCH: ['CREATE', 'EDIT', 'DELETE'],
+  EMPLOYEE: ['VIEW', 'CREATE', 'EDIT', 'DELETE'],
+  ACCOUNT: ['VIEW', 'CREATE', 'EDIT', 'DELETE', 'APPROVE'],
+  COLLECTION: ['VIEW', 'CREATE', 'EDIT', 'DELETE'],
+  CENTER: ['CREATE', 'EDIT', 'DELETE'],
+  COMMISSION: ['EDIT', 'DELETE'],
+  TARGET: ['VIEW'],
+  SALARY: ['VIEW', 'CREATE', 'EDIT'],
+  AUDIT_LOG: ['VIEW'],
+  DATA_HEALTH: ['VIEW']
+};
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  SUPER_ADMIN: { role: 'SUPER_ADMIN', scope: 'ALL', actions: ENTITY_ACTIONS },
+  ADMIN: { role: 'ADMIN', scope: 'ALL', actions: GLOBAL_OPS_ACTIONS },
+  OWNER: { role: 'OWNER', scope: 'ALL', actions: GLOBAL_OPS_ACTIONS },
+  // Supervises several branches: what a Manager does in each, plus their targets
+  AREA_MANAGER: {
+    role: 'AREA_MANAGER',
+    scope: 'BRANCH',
+    actions: {
+      USER: ['VIEW'],
+      EMPLOYEE: ['VIEW', 'CREATE', 'EDIT'],
+      ACCOUNT: ['VIEW', 'CREATE', 'EDIT'],
+      COLLECTION: ['VIEW', 'CREATE', 'EDIT', 'DELETE'],
+      CENTER: ['CREATE'],
+      TARGET: ['VIEW', 'EDIT'],
+      SALARY: ['VIEW', 'CREATE', 'EDIT']
+    }
+  },
+  MANAGER: {
+    role: 'MANAGER',
+    scope: 'BRANCH',
+    actions: {
+      USER: ['VIEW'],
+      EMPLOYEE: ['VIEW', 'CREATE', 'EDIT'],
+      ACCOUNT: ['VIEW', 'CREATE', 'EDIT'],
+      COLLECTION: ['VIEW', 'CREATE', 'EDIT', 'DELETE'],
+      CENTER: ['CREATE'],
+      TARGET: ['VIEW'],
+      SALARY: ['VIEW', 'CREATE', 'EDIT']
+    }
+  },
+  USER: {
+    role: 'USER',
+    scope: 'BRANCH',
+    actions: {
+      USER: ['VIEW'],
+      EMPLOYEE: ['VIEW'],
+      ACCOUNT: ['VIEW', 'CREATE'],
+      COLLECTION: ['VIEW', 'CREATE'],
+      CENTER: ['CREATE'],
+      TARGET: ['VIEW']
+    }
+  },
+  AUDITOR: {
+    role: 'AUDITOR',
+    scope: 'ALL',
+    actions: {
+      USER: ['VIEW'],
+      EMPLOYEE: ['VIEW'],
+      ACCOUNT: ['VIEW'],
+      COLLECTION: ['VIEW'],
+      TARGET: ['VIEW'],
+      SALARY: ['VIEW'],
+      AUDIT_LOG: ['VIEW']
+    }
+  }
+};
+
+/**
+ * The matrix in effect: stored rows over the defaults. Super Admins always keep every permission, so the
+ * matrix can never be edited into a state nobody can repair; only their two-factor requirement is taken from
+ * their row. Stored actions an entity does not support are dropped.
+ */
+export function resolvePermissions(stored: RolePermissions[]): PermissionMatrix {
+  const matrix = { ...DEFAULT_PERMISSIONS };
+  stored.forEach(row => {
+    if (!USER_ROLES.includes(row.role)) return;
+    if (row.role === 'SUPER_ADMIN') {
+      matrix.SUPER_ADMIN = { ...DEFAULT_PERMISSIONS.SUPER_ADMIN, requireTwoFactor: row.requireTwoFactor, rowIndex: row.rowIndex, updatedAt: row.updatedAt };
+      return;
+    }
+    const actions: RolePermissions['actions'] = {};
+    PERMISSION_ENTITIES.forEach(entity => {
+      const allowed = (row.actions[entity] || []).filter(action => ENTITY_ACTIONS[entity].includes(action));
+      if (allowed.length > 0) actions[entity] = allowed;
+    });
+    matrix[row.role] = { ...row, scope: BRANCH_SCOPES.includes(row.scope) ? row.scope : 'BRANCH', actions };
+  });
+  return matrix;
+}
+
+// The matrix itself is Super Admin business, whatever it says
+export const canEditPermissions = (user: User) => user.role === 'SUPER_ADMIN';
+
+// Checks a matrix sent for saving. Returns an error message, or null when it can be stored.
+// A Super Admin row may be sent for its two-factor requirement; the rest of it is ignored when read back.
+export function validatePermissions(rows: RolePermissions[]): string | null {
+  for (const row of rows) {
+    if (!USER_ROLES.includes(row?.role)) return `Unknown role: ${row?.role}`;
+    if (!BRANCH_SCOPES.includes(row.scope)) return `Unknown branch scope for ${row.role}: ${row.scope}`;
+    for (const [entity, actions] of Object.entries(row.actions || {})) {
+      const supported = ENTITY_ACTIONS[entity as PermissionEntity];
+      if (!supported) return `Unknown entity: ${entity}`;
+      const unknown = (actions || []).find(action => !supported.includes(action));
+      if (unknown) return `${entity} has no ${unknown} permission.`;
+    }
+  }
+  return null;
+}
+
+// What the signed-in user may do, checked the same way by the API server and the app
+export interface Access {
+  user: User;
+  scope: BranchScope;
+  branchIds: string[]; // The user's assigned branches (see assignedBranchIds)
+  can(entity: PermissionEntity, action: PermissionAction): boolean;
+  // Throws AccessDeniedError; `what` completes "Your role (...) is not allowed to ..."
+  require(entity: PermissionEntity, action: PermissionAction, what: string): void;
+  seesAllBranches: boolean;
+  // A branch-bound record is in scope for roles that see every branch, and for everyone else in their
+  // assigned branches. A user's own records (by employee ID) are in scope wherever they were made, since floating
+  // staff collect at other branches' centers.
+  inScope(branchId?: string, employeeId?: string): boolean;
+  requireScope(what: string, branchId?: string, employeeId?: string): void;
+  // Whether a record shows up in lists: in scope with VIEW, or the user's own without it
+  canSee(entity: PermissionEntity, branchId?: string, employeeId?: string): boolean;
+}
+
+export function accessFor(user: User, matrix: PermissionMatrix): Access {
+  const permissions = matrix[user.role] || { role: user.role, scope: 'BRANCH', actions: {} };
+  const seesAllBranches = permissions.scope === 'ALL';
+  const can = (entity: PermissionEntity, action: PermissionAction) =>
+    !ENTITY_ACTIONS[entity].includes(action) || !!permissions.actions[entity]?.includes(action);
+  const branchIds = assignedBranchIds(user);
+  const isOwn = (employeeId?: string) => !!employeeId && employeeId === user.employee_id;
+  const inScope = (branchId?: string, employeeId?: string) =>
+    seesAllBranches || (!!branchId && branchIds.includes(branchId)) || isOwn(employeeId);
+
+  return {
+    user,
+    scope: permissions.scope,
+    branchIds,
+    seesAllBranches,
+    can,
+    require: (entity, action, what) => {
+      if (!can(entity, action)) throw new AccessDeniedError('FORBIDDEN', `Your role (${user.role}) is not allowed to ${what}.`);
+    },
+    inScope,
+    requireScope: (what, branchId, employeeId) => {
+      if (!inScope(branchId, employeeId)) throw new AccessDeniedError('FORBIDDEN', `You can only ${what} in your own branches.`);
+    },
+    canSee: (entity, branchId, employeeId) => can(entity, 'VIEW') ? inScope(branchId, employeeId) : isOwn(employeeId)
+  };
+}
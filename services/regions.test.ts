@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, Region } from '../types';
+import { groupByRegion, groupByZone } from './regions';
+
+const REGIONS: Region[] = [
+  { id: 'r1', name: 'Sylhet', zone: 'North' },
+  { id: 'r2', name: 'Barisal' },
+  { id: 'r3', name: 'Rangpur', zone: 'North' },
+  { id: 'r4', name: 'Khulna', zone: 'East' },
+  { id: 'r5', name: 'Empty', zone: 'East' }
+];
+
+const branch = (id: string, region_id?: string): Branch => ({ id, name: id, region_id });
+
+const summary = (branches: Branch[]) =>
+  groupByRegion(branches, REGIONS).map(g => `${g.region?.id ?? '-'}:${g.branches.map(b => b.id).join(',')}`);
+
+test('groupByRegion orders regions by zone and name, with unzoned regions last', () => {
+  const branches = [branch('b1', 'r1'), branch('b2', 'r2'), branch('b3', 'r3'), branch('b4', 'r4'), branch('b5', 'r1')];
+  assert.deepEqual(summary(branches), ['r4:b4', 'r3:b3', 'r1:b1,b5', 'r2:b2']);
+});
+
+test('groupByRegion leaves out regions without branches', () => {
+  assert.deepEqual(summary([branch('b1', 'r4')]), ['r4:b1']);
+});
+
+test('groupByRegion puts branches without a region, or with one that is gone, in a last group', () => {
+  assert.deepEqual(summary([branch('b1'), branch('b2', 'r2'), branch('b3', 'gone')]), ['r2:b2', '-:b1,b3']);
+});
+
+test('groupByZone gathers region groups under their zones, keeping a zone named "No Zone" apart', () => {
+  const regions: Region[] = [...REGIONS, { id: 'r6', name: 'Odd', zone: 'No Zone' }];
+  const groups = groupByRegion([branch('b1', 'r1'), branch('b2', 'r2'), branch('b3', 'r3'), branch('b4', 'r6'), branch('b5')], regions);
+  assert.deepEqual(groupByZone(groups).map(z => [z.zone, z.groups.map(g => g.region?.id ?? '-')]), [
+    ['No Zone', ['r6']],
+    ['North', ['r3', 'r1']],
+    [null, ['r2', '-']]
+  ]);
+});
@@ -0,0 +1,40 @@
+import type { Branch, Region } from '../types';
+
+// The branches of one region; region is null for those that belong to none
+export interface RegionGroup {
+  region: Region | null;
+  branches: Branch[];
+}
+
+export const regionLabel = (region: Region | null) => region ? region.name : 'No Region';
+// For display only: regions are grouped on the zone itself, so a zone really named "No Zone" stays apart
+export const zoneLabel = (zone: string | null) => zone ?? 'No Zone';
+
+// Zones by name, then the regions in each by name; regions without a zone come last
+const byZoneAndName = (a: Region, b: Region) =>
+  Number(!a.zone) - Number(!b.zone) || (a.zone || '').localeCompare(b.zone || '') || a.name.localeCompare(b.name);
+
+/**
+ * The given branches grouped by region, ordered by zone and then region. Regions none of the branches
+ * belong to are left out; branches without a region (or naming one that is gone) come last, under null.
+ */
+export function groupByRegion(branches: Branch[], regions: Region[]): RegionGroup[] {
+  const groups = [...regions].sort(byZoneAndName)
+    .map(region => ({ region, branches: branches.filter(b => b.region_id === region.id) }))
+    .filter(group => group.branches.length > 0);
+  const grouped = new Set(groups.flatMap(group => group.branches.map(b => b.id)));
+  const rest = branches.filter(b => !grouped.has(b.id));
+  return rest.length > 0 ? [...groups, { region: null, branches: rest }] : groups;
+}
+
+// Region groups gathered under their zones, keeping the order above; null holds those without a zone
+export function groupByZone(groups: RegionGroup[]): { zone: string | null; groups: RegionGroup[] }[] {
+  const zones: { zone: string | null; groups: RegionGroup[] }[] = [];
+  for (const group of groups) {
+    const zone = group.region?.zone || null;
+    const found = zones.find(z => z.zone === zone);
+    if (found) found.groups.push(group);
+    else zones.push({ zone, groups: [group] });
+  }
+  return zones;
+}
@@ -0,0 +1,90 @@
+import type { SessionInfo } from '../types';
+
+// A session ends after this long without a request (idle) or this long after sign-in (absolute), whichever comes first
+export interface SessionTimeouts {
+  idleMinutes: number;
+  absoluteHours: number;
+}
+
+export const DEFAULT_SESSION_TIMEOUTS: SessionTimeouts = { idleMinutes: 30, absoluteHours: 12 };
+
+interface Session {
+  id: string;
+  userId: string;
+  createdAt: number;
+  lastSeenAt: number;
+  client?: string;
+}
+
+const newSessionId = () => Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Signed-in sessions, kept in memory: the API server holds one per browser, the local backend only its own.
+ * Each request that uses a session moves its idle timeout on; a timed-out session is forgotten on next use.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, Session>();
+
+  constructor(private timeouts: SessionTimeouts = DEFAULT_SESSION_TIMEOUTS) {}
+
+  private expiresAt(session: Session) {
+    return Math.min(
+      session.lastSeenAt + this.timeouts.idleMinutes * 60 * 1000,
+      session.createdAt + this.timeouts.absoluteHours * 3600 * 1000
+    );
+  }
+
+  private prune() {
+    const now = Date.now();
+    this.sessions.forEach((session, id) => {
+      if (this.expiresAt(session) <= now) this.sessions.delete(id);
+    });
+  }
+
+  // Returns the new session's ID
+  start(userId: string, client?: string): string {
+    this.prune();
+    const now = Date.now();
+    const session: Session = { id: newSessionId(), userId, createdAt: now, lastSeenAt: now, client };
+    this.sessions.set(session.id, session);
+    return session.id;
+  }
+
+  // The user ID of a live session, which now counts as active again; null when it is unknown, revoked or timed out
+  touch(sessionId: string): string | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    if (this.expiresAt(session) <= Date.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    session.lastSeenAt = Date.now();
+    return session.userId;
+  }
+
+  end(sessionId: string): boolean {
+    return this.sessions.delete(sessionId);
+  }
+
+  // Ends every session of a user except keepSessionId (e.g. the one that just changed the password)
+  endForUser(userId: string, keepSessionId?: string) {
+    this.sessions.forEach((session, id) => {
+      if (session.userId === userId && id !== keepSessionId) this.sessions.delete(id);
+    });
+  }
+
+  list(currentSessionId?: string): SessionInfo[] {
+    this.prune();
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+      .map(session => ({
+        id: session.id,
+        userId: session.userId,
+        createdAt: new Date(session.createdAt).toISOString(),
+        lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+        expiresAt: new Date(this.expiresAt(session)).toISOString(),
+        client: session.client,
+        current: session.id === currentSessionId
+      }));
+  }
+}
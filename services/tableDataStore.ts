@@ -0,0 +1,519 @@
+import type { Branch, Region, Employee, User, AccountOpening, Center, CenterCollectionRecord, CommissionStructure, Target, SalarySheet, SalaryEntry, RecordStatus, AuditEntry, PermissionMatrix, RolePermissions, LoginEvent } from '../types';
+import type { DataStore, DataTab } from './dataStore';
+import { RowConflictError } from './errors';
+import { IdKind, allocateIds, assertUnique } from './idService';
+import { SessionRegistry } from './sessionRegistry';
+import { resolvePermissions } from './permissions';
+import { findLockouts, signIn, unlockLogin } from './loginHistory';
+import { disableTwoFactor, enableTwoFactor, replaceRecoveryCodes, withTwoFactorPolicy } from './twoFactor';
+import { DEFAULT_ADMIN_ID, DEFAULT_ADMIN_PASSWORD, changePassword, hashPassword, storedPassword } from './passwordService';
+
+// One array of plain entity objects per Google Sheets tab
+export interface DataTables {
+  users: User[];
+  branches: Branch[];
+  employees: Employee[];
+  commissions: CommissionStructure[];
+  centers: Center[];
+  accounts: AccountOpening[];
+  collections: CenterCollectionRecord[];
+  targets: Target[];
+  salarySheets: SalarySheet[];
+  salaryEntries: SalaryEntry[];
+  auditLog: AuditEntry[];
+  counters: { key: string; value: number }[];
+  permissions: RolePermissions[];
+  loginHistory: LoginEvent[];
+  regions: Region[];
+}
+
+export type TableName = keyof DataTables;
+
+export const createEmptyTables = (): DataTables => ({
+  users: [],
+  branches: [],
+  employees: [],
+  commissions: [],
+  centers: [],
+  accounts: [],
+  collections: [],
+  targets: [],
+  salarySheets: [],
+  salaryEntries: [],
+  auditLog: [],
+  counters: [],
+  permissions: [],
+  loginHistory: [],
+  regions: []
+});
+
+const isActive = (row: { status?: string }) => row.status === 'ACTIVE';
+
+// Any table's records, read by field name where the code does not care which table it is
+export type StoredRow = Record<string, unknown>;
+export const rowsOf = (rows: object[]): StoredRow[] => rows as StoredRow[];
+
+// rowIndex only means something to the Sheets backend, and SalaryRow extras (employee, branch) and the
+// two-factor flags derived for users must not leak into storage
+const toStored = <T extends object>(row: T): T => {
+  const { rowIndex, employee, branch, twoFactorEnabled, mustSetUpTwoFactor, ...rest } = row as StoredRow;
+  return rest as T;
+};
+
+/**
+ * Shared DataStore logic for backends that keep whole tables as JSON.
+ * Subclasses only decide where the tables are read from and written to.
+ */
+export abstract class TableDataStore implements DataStore {
+  protected tables: DataTables = createEmptyTables();
+  private loadPromise: Promise<void> | null = null;
+  // Only this client signs in here; the session lives as long as the page (a reload signs out)
+  private sessions = new SessionRegistry();
+  private sessionId: string | null = null;
+  // Who signed in (as of sign-in or the last resumeSession), for the audit log
+  signedInUser: User | null = null;
+
+  protected abstract readTables(): Promise<Partial<DataTables> | null>;
+  protected abstract writeTables(tables: DataTables, changed: TableName): Promise<void>;
+
+  // --- INITIALIZATION ---
+
+  private async ensureLoaded() {
+    if (this.loadPromise) return this.loadPromise;
+    this.loadPromise = this.performLoad();
+    return this.loadPromise;
+  }
+
+  private async performLoad() {
+    const stored = await this.readTables();
+    this.tables = { ...createEmptyTables(), ...(stored || {}) };
+
+    // Same bootstrap as the Sheets backend: an empty database gets the default admin
+    if (this.tables.users.length === 0) {
+      this.tables.users.push({
+        id: DEFAULT_ADMIN_ID, name: 'Super Admin', username: 'admin', password: await hashPassword(DEFAULT_ADMIN_PASSWORD),
+        role: 'SUPER_ADMIN', status: 'ACTIVE', mustChangePassword: true
+      });
+      await this.writeTables(this.tables, 'users');
+    }
+  }
+
+  // Tables already live in memory; a refresh re-reads them from storage
+  async prefetch(_tabs: DataTab[], refresh = false) {
+    if (refresh) this.loadPromise = null;
+    await this.ensureLoaded();
+  }
+
+  // Tables are stored as whole records, so there are no columns to drift out of shape
+  async checkSchema(): Promise<string[]> {
+    return [];
+  }
+
+  // --- IDS ---
+
+  // Nothing else runs between reading and bumping the counter, so each reservation is atomic
+  async reserveSequence(key: string, count: number): Promise<number> {
+    await this.ensureLoaded();
+    let counter = this.tables.counters.find(c => c.key === key);
+    if (!counter) {
+      counter = { key, value: 0 };
+      this.tables.counters.push(counter);
+    }
+    const first = counter.value + 1;
+    counter.value += count;
+    await this.writeTables(this.tables, 'counters');
+    return first;
+  }
+
+  async reserveIds(kind: IdKind, count: number, branchId?: string) {
+    return allocateIds(this, kind, count, branchId);
+  }
+
+  // --- SESSION ---
+
+  // In the browser, the attempt is recorded with this browser's user agent
+  async authenticate(username: string, password: string, code?: string, client = typeof navigator === 'undefined' ? undefined : navigator.userAgent) {
+    const user = await signIn(this, username, password, code, client);
+    if (user) this.sessionId = this.sessions.start(user.id);
+    this.signedInUser = user && withTwoFactorPolicy(user, await this.getPermissions());
+    return this.signedInUser;
+  }
+
+  async changePassword(userId: string, currentPassword: string, newPassword: string) {
+    return changePassword(this, userId, currentPassword, newPassword);
+  }
+
+  async resumeSession() {
+    const userId = this.sessionId ? this.sessions.touch(this.sessionId) : null;
+    const user = userId ? (await this.getUsers()).find(u => u.id === userId) : null;
+    this.signedInUser = user ? withTwoFactorPolicy(user, await this.getPermissions()) : null;
+    return this.signedInUser;
+  }
+
+  async signOut() {
+    if (this.sessionId) this.sessions.end(this.sessionId);
+    this.sessionId = null;
+    this.signedInUser = null;
+  }
+
+  async getSessions() {
+    return this.sessions.list(this.sessionId || undefined);
+  }
+
+  async revokeSession(sessionId: string) {
+    if (sessionId === this.sessionId) {
+      this.sessionId = null;
+      this.signedInUser = null;
+    }
+    return this.sessions.end(sessionId);
+  }
+
+  async enableTwoFactor(userId: string, secret: string, code: string) {
+    return enableTwoFactor(this, userId, secret, code);
+  }
+
+  async replaceRecoveryCodes(userId: string) {
+    return replaceRecoveryCodes(this, userId);
+  }
+
+  async disableTwoFactor(userId: string, currentPassword?: string) {
+    return disableTwoFactor(this, userId, currentPassword);
+  }
+
+  // --- TABLE HELPERS ---
+
+  private async select<K extends TableName>(table: K): Promise<DataTables[K]> {
+    await this.ensureLoaded();
+    return rowsOf(this.tables[table]).map(row => ({ ...row })) as DataTables[K];
+  }
+
+  // Refuses IDs that are already stored (tables keyed by something else, like commissions, are not checked)
+  private async insert<K extends TableName>(table: K, rows: DataTables[K]): Promise<boolean> {
+    await this.ensureLoaded();
+    const stored = rowsOf(this.tables[table]);
+    const idsOf = (list: StoredRow[]) => list.map(row => row.id).filter((id): id is string => typeof id === 'string');
+    assertUnique(table, 'ID', idsOf(rowsOf(rows)), idsOf(stored));
+    const updatedAt = new Date().toISOString();
+    stored.push(...rowsOf(rows).map(row => ({ ...toStored(row), status: 'ACTIVE', updatedAt })));
+    await this.writeTables(this.tables, table);
+    return true;
+  }
+
+  // Same contract as the Sheets backend: a missing row or a changed updatedAt is a RowConflictError
+  private async modify<K extends TableName>(
+    table: K,
+    match: (row: DataTables[K][number]) => boolean,
+    update: (row: DataTables[K][number]) => DataTables[K][number],
+    recordId: string,
+    expectedVersion?: string
+  ): Promise<boolean> {
+    await this.ensureLoaded();
+    const rows = this.tables[table] as DataTables[K][number][];
+    const idx = rows.findIndex(match);
+    if (idx === -1) throw new RowConflictError(table, recordId, 'MISSING');
+    if (expectedVersion !== undefined && (rowsOf(rows)[idx].updatedAt || '') !== expectedVersion) {
+      throw new RowConflictError(table, recordId, 'MODIFIED');
+    }
+    rows[idx] = { ...toStored(update(rows[idx])), updatedAt: new Date().toISOString() };
+    await this.writeTables(this.tables, table);
+    return true;
+  }
+
+  // 1. SYSTEM USERS
+  async getUsers(includeInactive = false): Promise<User[]> {
+    const users = await this.select('users');
+    return users.filter(u => includeInactive || isActive(u)).map(u => ({
+      ...u,
+      twoFactorEnabled: !!u.totpSecret,
+      avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(u.name)}&background=random&color=fff`
+    }));
+  }
+
+  async addUser(user: User) {
+    return this.insert('users', [{ ...user, password: await storedPassword(user.password) }]);
+  }
+
+  async updateUser(user: User) {
+    const password = await storedPassword(user.password);
+    return this.modify('users', u => u.id === user.id, u => ({ ...user, password, status: user.status || u.status }), user.id, user.updatedAt);
+  }
+
+  // 2. BRANCHES
+  async getBranches(includeInactive = false): Promise<Branch[]> {
+    return (await this.select('branches')).filter(b => includeInactive || isActive(b));
+  }
+
+  async addBranch(branch: Branch) {
+    return this.insert('branches', [branch]);
+  }
+
+  async addBranches(branches: Branch[]) {
+    return this.insert('branches', branches);
+  }
+
+  async updateBranch(branch: Branch) {
+    return this.modify('branches', b => b.id === branch.id, b => ({ ...branch, status: branch.status || b.status }), branch.id, branch.updatedAt);
+  }
+
+  // 3. EMPLOYEES
+  async getEmployees(includeInactive = false): Promise<Employee[]> {
+    return (await this.select('employees')).filter(e => includeInactive || isActive(e));
+  }
+
+  async addEmployee(emp: Employee) {
+    return this.insert('employees', [emp]);
+  }
+
+  async addEmployees(employees: Employee[]) {
+    return this.insert('employees', employees);
+  }
+
+  async updateEmployee(emp: Employee) {
+    return this.modify('employees', e => e.id === emp.id, e => ({ ...emp, status: e.status }), emp.id, emp.updatedAt);
+  }
+
+  // 4. ACCOUNTS
+  async getAccounts(includeInactive = false): Promise<AccountOpening[]> {
+    return (await this.select('accounts')).filter(a => includeInactive || isActive(a));
+  }
+
+  async addAccount(acc: AccountOpening) {
+    return this.addAccounts([acc]);
+  }
+
+  async addAccounts(accounts: AccountOpening[]) {
+    const stored = await this.select('accounts');
+    assertUnique('accounts', 'AccountCode', accounts.map(a => a.account_code), stored.map(a => a.account_code));
+    return this.insert('accounts', accounts.map(acc => ({ ...acc, is_counted: false, counted_month: null, salary_sheet_id: null })));
+  }
+
+  async markAccountCounted(acc: AccountOpening, month: string, salarySheetId: string | null) {
+    return this.modify(
+      'accounts',
+      a => a.id === acc.id,
+      a => ({ ...a, is_counted: true, counted_month: month, salary_sheet_id: salarySheetId, uncount_reason: null }),
+      acc.account_code
+    );
+  }
+
+  async uncountAccount(acc: AccountOpening, reason: string) {
+    return this.modify(
+      'accounts',
+      a => a.id === acc.id,
+      a => ({ ...a, is_counted: false, counted_month: null, salary_sheet_id: null, uncount_reason: reason }),
+      acc.account_code
+    );
+  }
+
+  // 5. COLLECTIONS
+  async getCollections(): Promise<CenterCollectionRecord[]> {
+    return (await this.select('collections')).filter(isActive);
+  }
+
+  // Safe to resend: records whose ID is already stored are skipped (see collectionQueue)
+  async addCollections(records: CenterCollectionRecord[]) {
+    const stored = new Set((await this.select('collections')).map(r => r.id));
+    const fresh = records.filter(r => !stored.has(r.id));
+    if (fresh.length === 0) return true;
+    return this.insert('collections', fresh);
+  }
+
+  // Collections are kept as one record per ID here, so no Savings/Loan split to reconcile
+  async updateCollection(record: CenterCollectionRecord, reason: string) {
+    return this.modify(
+      'collections',
+      r => r.id === record.id && isActive(r),
+      r => ({ ...r, branchId: record.branchId, employeeId: record.employeeId, centerCode: record.centerCode, amount: record.amount, loanAmount: record.loanAmount, type: record.type, editReason: reason }),
+      record.id
+    );
+  }
+
+  async deleteCollection(record: CenterCollectionRecord) {
+    return this.modify('collections', r => r.id === record.id && isActive(r), r => ({ ...r, status: 'INACTIVE' }), record.id);
+  }
+
+  // 6. CENTERS
+  async getCenters(includeInactive = false): Promise<Center[]> {
+    return (await this.select('centers')).filter(c => includeInactive || isActive(c));
+  }
+
+  async addCenter(center: Center) {
+    return this.insert('centers', [center]);
+  }
+
+  async updateCenter(center: Center) {
+    return this.modify('centers', c => c.id === center.id, c => ({ ...center, status: c.status }), center.id, center.updatedAt);
+  }
+
+  // --- STATUS (SOFT DELETE) ---
+  async setUserStatus(user: User, status: RecordStatus) {
+    return this.modify('users', u => u.id === user.id, u => ({ ...u, status }), user.id);
+  }
+
+  async setBranchStatus(branch: Branch, status: RecordStatus) {
+    return this.modify('branches', b => b.id === branch.id, b => ({ ...b, status }), branch.id);
+  }
+
+  async setEmployeeStatus(emp: Employee, status: RecordStatus) {
+    return this.modify('employees', e => e.id === emp.id, e => ({ ...e, status }), emp.id);
+  }
+
+  async setCenterStatus(center: Center, status: RecordStatus) {
+    return this.modify('centers', c => c.id === center.id, c => ({ ...c, status }), center.id);
+  }
+
+  async setAccountStatus(acc: AccountOpening, status: RecordStatus) {
+    return this.modify('accounts', a => a.id === acc.id, a => ({ ...a, status }), acc.account_code);
+  }
+
+  // 7. COMMISSIONS
+  async getCommissions(): Promise<Record<string, CommissionStructure>> {
+    const map: Record<string, CommissionStructure> = {};
+    (await this.select('commissions')).filter(isActive).forEach(c => {
+      map[c.typeCode] = c;
+    });
+    return map;
+  }
+
+  async saveCommission(commission: CommissionStructure) {
+    await this.ensureLoaded();
+    const exists = this.tables.commissions.some(c => c.typeCode === commission.typeCode);
+    if (!exists) return this.insert('commissions', [commission]);
+    return this.modify(
+      'commissions',
+      c => c.typeCode === commission.typeCode,
+      () => ({ typeCode: commission.typeCode, own: commission.own, office: commission.office, status: 'ACTIVE' }),
+      commission.typeCode
+    );
+  }
+
+  async deactivateCommission(commission: CommissionStructure) {
+    await this.ensureLoaded();
+    if (!this.tables.commissions.some(c => c.typeCode === commission.typeCode)) return true;
+    return this.modify('commissions', c => c.typeCode === commission.typeCode, c => ({ ...c, status: 'INACTIVE' }), commission.typeCode);
+  }
+
+  // 8. TARGETS
+  async getTargets(): Promise<Target[]> {
+    return this.select('targets');
+  }
+
+  async saveTarget(target: Target) {
+    await this.ensureLoaded();
+    const exists = this.tables.targets.some(t => t.employeeId === target.employeeId && t.month === target.month);
+    if (!exists) return this.insert('targets', [target]);
+    return this.modify(
+      'targets',
+      t => t.employeeId === target.employeeId && t.month === target.month,
+      t => ({ ...target, id: t.id, status: 'ACTIVE' }),
+      target.id,
+      target.updatedAt
+    );
+  }
+
+  // 9. SALARY SHEETS
+  async getSalarySheets(): Promise<SalarySheet[]> {
+    return (await this.select('salarySheets')).filter(isActive);
+  }
+
+  async addSalarySheet(sheet: SalarySheet) {
+    return this.insert('salarySheets', [sheet]);
+  }
+
+  // 10. SALARY ENTRIES
+  async getSalaryEntries(salarySheetId?: string): Promise<SalaryEntry[]> {
+    return (await this.select('salaryEntries'))
+      .filter(e => isActive(e) && (!salarySheetId || e.salary_sheet_id === salarySheetId));
+  }
+
+  async addSalaryEntries(entries: SalaryEntry[]) {
+    return this.insert('salaryEntries', entries);
+  }
+
+  async updateSalaryEntry(entry: SalaryEntry) {
+    return this.modify('salaryEntries', e => e.id === entry.id, () => ({ ...entry, status: 'ACTIVE' }), entry.id);
+  }
+
+  // 11. AUDIT LOG
+  async getAuditLog(): Promise<AuditEntry[]> {
+    return this.select('auditLog');
+  }
+
+  // Entries are kept exactly as written: no status or version to manage
+  async addAuditEntries(entries: AuditEntry[]) {
+    await this.ensureLoaded();
+    this.tables.auditLog.push(...entries);
+    await this.writeTables(this.tables, 'auditLog');
+    return true;
+  }
+
+  // 13. PERMISSIONS
+  async getPermissions(): Promise<PermissionMatrix> {
+    return resolvePermissions(await this.select('permissions'));
+  }
+
+  async savePermissions(rows: RolePermissions[]) {
+    await this.ensureLoaded();
+    for (const row of rows) {
+      if (!this.tables.permissions.some(p => p.role === row.role)) {
+        await this.insert('permissions', [row]);
+      } else {
+        await this.modify('permissions', p => p.role === row.role, () => row, row.role, row.updatedAt);
+      }
+    }
+    return true;
+  }
+
+  // 14. LOGIN HISTORY
+  async getLoginHistory(): Promise<LoginEvent[]> {
+    return this.select('loginHistory');
+  }
+
+  // Kept exactly as written, like the audit log
+  async addLoginEvent(event: LoginEvent) {
+    await this.ensureLoaded();
+    this.tables.loginHistory.push(event);
+    await this.writeTables(this.tables, 'loginHistory');
+    return true;
+  }
+
+  async getLockouts() {
+    return findLockouts(await this.getLoginHistory());
+  }
+
+  async unlockLogin(username: string) {
+    return unlockLogin(this, username);
+  }
+
+  // 15. REGIONS
+  async getRegions(includeInactive = false): Promise<Region[]> {
+    return (await this.select('regions')).filter(r => includeInactive || isActive(r));
+  }
+
+  async addRegion(region: Region) {
+    return this.insert('regions', [region]);
+  }
+
+  async updateRegion(region: Region) {
+    return this.modify('regions', r => r.id === region.id, r => ({ ...region, status: region.status || r.status }), region.id, region.updatedAt);
+  }
+
+  async setRegionStatus(region: Region, status: RecordStatus) {
+    return this.modify('regions', r => r.id === region.id, r => ({ ...r, status }), region.id);
+  }
+
+  // 12. BACKUP
+  async exportTables(): Promise<DataTables> {
+    await this.ensureLoaded();
+    return JSON.parse(JSON.stringify(this.tables));
+  }
+
+  async restoreTables(tables: DataTables): Promise<boolean> {
+    await this.ensureLoaded();
+    this.tables = { ...createEmptyTables(), ...tables };
+    for (const table of Object.keys(this.tables) as TableName[]) {
+      await this.writeTables(this.tables, table);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTotpSecret, verifyTotp } from './twoFactor';
+
+// The RFC 6238 SHA-1 test key ("12345678901234567890") in base32, and its codes cut to 6 digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const AT_59 = 59 * 1000;
+
+test('verifyTotp accepts the RFC 6238 test vectors, giving the step of each', async () => {
+  assert.equal(await verifyTotp(SECRET, '287082', AT_59), 1);
+  assert.equal(await verifyTotp(SECRET, '081804', 1111111109 * 1000), 37037036);
+  assert.equal(await verifyTotp(SECRET, '005924', 1234567890 * 1000), 41152263);
+});
+
+test('verifyTotp accepts secrets and codes as apps and users write them', async () => {
+  assert.equal(await verifyTotp(SECRET.toLowerCase().replace(/(.{4})/g, '$1 '), '287 082', AT_59), 1);
+});
+
+test('verifyTotp allows one step of clock drift either way, and no more', async () => {
+  assert.equal(await verifyTotp(SECRET, '287082', AT_59 + 30 * 1000), 1);
+  assert.equal(await verifyTotp(SECRET, '287082', AT_59 + 60 * 1000), null);
+});
+
+test('verifyTotp refuses a code from a step already used', async () => {
+  assert.equal(await verifyTotp(SECRET, '287082', AT_59, 1), null);
+  assert.equal(await verifyTotp(SECRET, '287082', AT_59, 0), 1);
+});
+
+test('verifyTotp refuses wrong and malformed codes', async () => {
+  assert.equal(await verifyTotp(SECRET, '287083', AT_59), null);
+  assert.equal(await verifyTotp(SECRET, '28708', AT_59), null);
+  assert.equal(await verifyTotp(SECRET, 'abcdef', AT_59), null);
+  assert.equal(await verifyTotp(SECRET, '', AT_59), null);
+});
+
+test('generateTotpSecret makes distinct 160-bit base32 secrets', () => {
+  const secret = generateTotpSecret();
+  assert.match(secret, /^[A-Z2-7]{32}$/);
+  assert.notEqual(secret, generateTotpSecret());
+});
@@ -0,0 +1,164 @@
+import type { PermissionMatrix, User } from '../types';
+import { RowConflictError } from './errors';
+import { CredentialStore, verifyPassword } from './passwordService';
+
+// RFC 6238 as every authenticator app reads it by default: HMAC-SHA1, 6 digits, 30-second steps
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+// A code from the step before or after still counts, for clocks a little apart and codes typed near the end
+const WINDOW_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'SalaryManager';
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let text = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      text += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) text += BASE32[(value << (5 - bits)) & 31];
+  return text;
+}
+
+// Apps show secrets in groups and lower case; both are accepted
+function fromBase32(text: string): Uint8Array {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of text.toUpperCase().replace(/[\s=-]/g, '')) {
+    const index = BASE32.indexOf(char);
+    if (index === -1) throw new Error('The secret is not valid base32.');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+async function hotp(secret: Uint8Array, counter: number): Promise<string> {
+  const message = new Uint8Array(8);
+  new DataView(message.buffer).setBigUint64(0, BigInt(counter));
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hash = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = hash[hash.length - 1] & 15;
+  const binary = new DataView(hash.buffer).getUint32(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export const generateTotpSecret = () => toBase32(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+
+// What the QR code holds; scanning it adds the account to an authenticator app
+export const otpauthUrl = (secret: string, username: string) =>
+  `otpauth://totp/${encodeURIComponent(`${ISSUER}:${username}`)}?secret=${secret}&issuer=${ISSUER}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+/**
+ * The time step `code` was made for, or null when it is not a current code. Steps up to `lastStep` (the last
+ * one accepted for the user) are refused, so a code that got someone in cannot be replayed within its window.
+ */
+export async function verifyTotp(secret: string, code: string, now = Date.now(), lastStep = -1): Promise<number | null> {
+  const digits = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(digits)) return null;
+  const key = fromBase32(secret);
+  const step = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let drift = -WINDOW_STEPS; drift <= WINDOW_STEPS; drift++) {
+    if (step + drift > lastStep && await hotp(key, step + drift) === digits) return step + drift;
+  }
+  return null;
+}
+
+// --- RECOVERY CODES ---
+// Each works once, instead of an authenticator code. They are random enough that a plain SHA-256 is a safe
+// way to store them, and checking all of them stays quick.
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+async function hashRecoveryCode(code: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(hash), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Stored in the user's RecoveryCodes column, comma-separated
+async function newRecoveryCodes(): Promise<{ codes: string[]; stored: string }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const text = toBase32(crypto.getRandomValues(new Uint8Array(5))).toLowerCase();
+    return `${text.slice(0, 4)}-${text.slice(4)}`;
+  });
+  return { codes, stored: (await Promise.all(codes.map(hashRecoveryCode))).join(',') };
+}
+
+// --- POLICY ---
+
+// Whether the user's role requires two-factor sign-in and they have not set it up yet
+export const mustSetUpTwoFactor = (user: User, matrix: PermissionMatrix) =>
+  !user.totpSecret && !!matrix[user.role]?.requireTwoFactor;
+
+// The signed-in user as the app gets them: told whether setting up two-factor sign-in is still required
+export const withTwoFactorPolicy = (user: User, matrix: PermissionMatrix): User =>
+  ({ ...user, mustSetUpTwoFactor: mustSetUpTwoFactor(user, matrix) });
+
+// --- STORED STATE ---
+// The shared implementation of the DataStore two-factor methods, on top of getUsers and updateUser
+
+const findUser = async (store: CredentialStore, userId: string) => (await store.getUsers(true)).find(u => u.id === userId);
+
+/**
+ * The second sign-in step: a current code from the user's authenticator app, used once (its step is stored),
+ * or one of their unused recovery codes, which is struck off.
+ */
+export async function checkSecondFactor(store: CredentialStore, user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return true;
+  const step = await verifyTotp(user.totpSecret, code, Date.now(), user.totpLastStep);
+  if (step !== null) {
+    try {
+      return await store.updateUser({ ...user, totpLastStep: step });
+    } catch (err) {
+      // Another sign-in got in first, possibly with the same code
+      if (err instanceof RowConflictError) return false;
+      throw err;
+    }
+  }
+
+  const stored = (user.recoveryCodes || '').split(',').filter(Boolean);
+  const hash = await hashRecoveryCode(code);
+  if (!normalizeRecoveryCode(code) || !stored.includes(hash)) return false;
+  await store.updateUser({ ...user, recoveryCodes: stored.filter(h => h !== hash).join(',') });
+  return true;
+}
+
+// Turns it on once `code` shows the user's app holds `secret`; the new recovery codes, or null when it does not
+export async function enableTwoFactor(store: CredentialStore, userId: string, secret: string, code: string): Promise<string[] | null> {
+  const user = await findUser(store, userId);
+  const step = await verifyTotp(secret, code);
+  if (!user || step === null) return null;
+  const { codes, stored } = await newRecoveryCodes();
+  await store.updateUser({ ...user, totpSecret: secret, recoveryCodes: stored, totpLastStep: step });
+  return codes;
+}
+
+export async function replaceRecoveryCodes(store: CredentialStore, userId: string): Promise<string[] | null> {
+  const user = await findUser(store, userId);
+  if (!user?.totpSecret) return null;
+  const { codes, stored } = await newRecoveryCodes();
+  await store.updateUser({ ...user, recoveryCodes: stored });
+  return codes;
+}
+
+// Turning off one's own needs the current password; admins resetting someone else's leave it out
+export async function disableTwoFactor(store: CredentialStore, userId: string, currentPassword?: string): Promise<boolean> {
+  const user = await findUser(store, userId);
+  if (!user) return false;
+  if (currentPassword !== undefined && !(await verifyPassword(currentPassword, user.password))) return false;
+  return store.updateUser({ ...user, totpSecret: '', recoveryCodes: '' });
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { User } from '../types';
+import { validateUserChange } from './userValidation';
+
+const USERS: User[] = [
+  { id: 'u1', username: 'admin', name: 'Admin', role: 'SUPER_ADMIN', status: 'ACTIVE' },
+  { id: 'u2', username: 'Manager', name: 'Manager', role: 'MANAGER', branch_id: 'b1', status: 'ACTIVE' },
+  { id: 'u3', username: 'former', name: 'Former', role: 'USER', status: 'INACTIVE' }
+];
+
+test('validateUserChange allows a new user with a free username', () => {
+  assert.equal(validateUserChange(USERS, { username: 'field1', role: 'USER', branch_id: 'b1' }), null);
+});
+
+test('validateUserChange needs a username', () => {
+  assert.equal(validateUserChange(USERS, { username: '  ', role: 'USER' }), 'Username is required.');
+});
+
+test('validateUserChange refuses a username in use, ignoring case and spaces', () => {
+  assert.match(validateUserChange(USERS, { username: ' manager ', role: 'USER' })!, /already taken/);
+});
+
+test('validateUserChange points to the inactive user holding a username', () => {
+  assert.match(validateUserChange(USERS, { username: 'former', role: 'USER' })!, /belongs to an inactive user/);
+});
+
+test('validateUserChange lets a user keep their own username', () => {
+  assert.equal(validateUserChange(USERS, { username: 'Manager', role: 'MANAGER', branch_id: 'b1' }, 'u2'), null);
+});
+
+test('validateUserChange needs a branch for an Area Manager', () => {
+  assert.equal(validateUserChange(USERS, { username: 'area', role: 'AREA_MANAGER', branch_ids: [] }), 'An Area Manager needs at least one branch.');
+  assert.equal(validateUserChange(USERS, { username: 'area', role: 'AREA_MANAGER', branch_ids: ['b1', 'b2'] }), null);
+});
+
+test('validateUserChange keeps the last active Super Admin', () => {
+  assert.match(validateUserChange(USERS, { username: 'admin', role: 'ADMIN' }, 'u1')!, /last active Super Admin/);
+  const second: User = { id: 'u4', username: 'root', name: 'Root', role: 'SUPER_ADMIN', status: 'ACTIVE' };
+  assert.equal(validateUserChange([...USERS, second], { username: 'admin', role: 'ADMIN' }, 'u1'), null);
+});
@@ -0,0 +1,48 @@
+import { User, UserRole } from '../types';
+import { assignedBranchIds } from './permissions';
+
+const isActiveSuperAdmin = (u: User) => u.role === 'SUPER_ADMIN' && u.status === 'ACTIVE';
+
+// True when `userId` is the only active SUPER_ADMIN left, so demoting or deactivating it would lock everyone out
+export function isLastSuperAdmin(allUsers: User[], userId: string): boolean {
+  const target = allUsers.find(u => u.id === userId);
+  if (!target || !isActiveSuperAdmin(target)) return false;
+  return !allUsers.some(u => u.id !== userId && isActiveSuperAdmin(u));
+}
+
+// Checks a new or edited user against the full SystemUsers table (including inactive rows).
+// Returns an error message, or null when the change is allowed.
+export function validateUserChange(
+  allUsers: User[],
+  candidate: { username: string; role: UserRole; branch_id?: string; branch_ids?: string[] },
+  originalId?: string
+): string | null {
+  const username = candidate.username.trim().toLowerCase();
+  if (!username) return "Username is required.";
+
+  const clash = allUsers.find(u => u.id !== originalId && u.username.trim().toLowerCase() === username);
+  if (clash) {
+    return clash.status === 'ACTIVE'
+      ? `Username "${candidate.username}" is already taken.`
+      : `Username "${candidate.username}" belongs to an inactive user. Reactivate that user or pick another username.`;
+  }
+
+  if (candidate.role === 'AREA_MANAGER' && assignedBranchIds(candidate).length === 0) {
+    return "An Area Manager needs at least one branch.";
+  }
+
+  if (originalId && candidate.role !== 'SUPER_ADMIN' && isLastSuperAdmin(allUsers, originalId)) {
+    return "This is the last active Super Admin. Promote another user before changing this role.";
+  }
+
+  return null;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Checks a password a user picks for themselves. Returns an error message, or null when it is acceptable.
+export function validateNewPassword(newPassword: string, currentPassword: string): string | null {
+  if (newPassword.length < MIN_PASSWORD_LENGTH) return `The new password must be at least ${MIN_PASSWORD_LENGTH} characters long.`;
+  if (newPassword === currentPassword) return "The new password must be different from the current one.";
+  return null;
+}
@@ -1,14 +1,30 @@
 
 export interface SheetRow {
   rowIndex?: number; // Google Sheet Row Index for updates
+  updatedAt?: string; // UpdatedAt column; a write is refused if the stored value no longer matches
   status?: 'ACTIVE' | 'INACTIVE' | 'PENDING';
 }
 
+// Statuses that soft delete / reactivate can set
+export type RecordStatus = 'ACTIVE' | 'INACTIVE';
+
+// Entities that can be deactivated from the UI
+export type DeactivatableEntity = 'BRANCH' | 'USER' | 'EMPLOYEE' | 'CENTER' | 'ACCOUNT';
+
 export interface Branch extends SheetRow {
   id: string;
+  code?: string; // e.g. BR01; prefixes the IDs of the branch's employees and centers
   name: string;
   address?: string;
   phone?: string;
+  region_id?: string; // The region it reports under (see Region); unset when it belongs to none
+}
+
+// Groups branches for reporting. Regions sit under zones, which are only a name shared by the regions in them.
+export interface Region extends SheetRow {
+  id: string;
+  name: string;
+  zone?: string;
 }
 
 export type CommissionType = string;
@@ -107,6 +123,7 @@ export interface AccountOpening extends SheetRow {
   is_counted: boolean;
   counted_month: string | null;
   salary_sheet_id: string | null;
+  uncount_reason?: string | null; // Set when an admin reverts a counted account
 }
 
 export interface CenterCollectionRecord extends SheetRow {
@@ -118,6 +135,7 @@ export interface CenterCollectionRecord extends SheetRow {
   loanAmount?: number;
   type: 'OWN' | 'OFFICE';
   createdAt: string;
+  editReason?: string; // Why a synced record was last changed
 }
 
 export interface Center extends SheetRow {
@@ -137,15 +155,101 @@ export interface Target extends SheetRow {
   accountTarget: number;
 }
 
-export type UserRole = 'SUPER_ADMIN' | 'ADMIN' | 'OWNER' | 'MANAGER' | 'USER' | 'AUDITOR';
+export type UserRole = 'SUPER_ADMIN' | 'ADMIN' | 'OWNER' | 'AREA_MANAGER' | 'MANAGER' | 'USER' | 'AUDITOR';
 
 export interface User extends SheetRow {
   id: string;
   username: string;
   name: string;
   role: UserRole;
-  branch_id?: string;
+  branch_id?: string; // Home branch of a Manager or Field Officer
+  branch_ids?: string[]; // Further branches the user covers: an Area Manager's branches, or a Manager's extra ones
   employee_id?: string;
   avatar?: string;
-  password?: string;
+  password?: string; // Salted hash (see passwordService); plain text only in rows not yet migrated
+  mustChangePassword?: boolean; // Set for the default admin: nothing else is allowed until a new password is chosen
+  totpSecret?: string; // Base32 TOTP secret while two-factor sign-in is on; like the password, never sent to the browser
+  recoveryCodes?: string; // SHA-256 hashes of the unused recovery codes, comma-separated (see twoFactor)
+  totpLastStep?: number; // Time step of the last authenticator code accepted, so no code works twice; server-side like the secret
+  twoFactorEnabled?: boolean; // Derived from totpSecret on read, so clients can see it without the secret
+  mustSetUpTwoFactor?: boolean; // Set on the signed-in user when their role requires two-factor sign-in and it is off
+}
+
+// A signed-in session, as listed for admins under Active Sessions
+export interface SessionInfo {
+  id: string;
+  userId: string;
+  createdAt: string;
+  lastSeenAt: string; // Last request made with it
+  expiresAt: string; // The idle or the absolute timeout, whichever comes first
+  client?: string; // Browser (user agent) it was started from
+  current?: boolean; // The session of whoever asked for the list
+}
+
+// --- LOGIN HISTORY ---
+
+// FAILED covers unknown usernames as well as wrong passwords. LOCKED_OUT is an attempt refused without checking
+// the password, UNLOCKED a Super Admin lifting a lockout.
+export type LoginOutcome = 'SUCCESS' | 'FAILED' | 'LOCKED_OUT' | 'UNLOCKED';
+
+// One row of the LoginHistory tab
+export interface LoginEvent {
+  id: string;
+  timestamp: string;
+  username: string; // As typed, so guesses at usernames that do not exist are kept too
+  userId?: string; // The account the username belongs to, if any
+  outcome: LoginOutcome;
+  client?: string; // Browser (user agent) of the attempt; who unlocked is in the audit log
+}
+
+// A username that is locked out right now
+export interface LoginLockout {
+  username: string;
+  userId?: string;
+  failedAttempts: number; // Since the last successful sign-in or unlock
+  lastFailedAt: string;
+  lockedUntil: string;
+}
+
+// --- PERMISSIONS ---
+
+// What a role may do is kept per entity (see services/permissions.ts for the defaults)
+export type PermissionEntity =
+  | 'USER' | 'BRANCH' | 'EMPLOYEE' | 'ACCOUNT' | 'COLLECTION' | 'CENTER' | 'COMMISSION'
+  | 'TARGET' | 'SALARY' | 'AUDIT_LOG' | 'DATA_HEALTH' | 'BACKUP' | 'SESSION' | 'LOGIN';
+
+export type PermissionAction = 'VIEW' | 'CREATE' | 'EDIT' | 'DELETE' | 'APPROVE';
+
+// ALL: every branch. BRANCH: the user's assigned branches (see assignedBranchIds), plus records made under their own employee ID anywhere
+export type BranchScope = 'ALL' | 'BRANCH';
+
+// One row of the Permissions tab
+export interface RolePermissions extends SheetRow {
+  role: UserRole;
+  scope: BranchScope;
+  actions: Partial<Record<PermissionEntity, PermissionAction[]>>;
+  requireTwoFactor?: boolean; // Users of the role must set up two-factor sign-in before anything else
+}
+
+export type PermissionMatrix = Record<UserRole, RolePermissions>;
+
+// --- AUDIT LOG ---
+
+export type AuditEntity =
+  | 'USER' | 'BRANCH' | 'REGION' | 'EMPLOYEE' | 'ACCOUNT' | 'COLLECTION' | 'CENTER'
+  | 'COMMISSION' | 'TARGET' | 'SALARY_SHEET' | 'SALARY_ENTRY' | 'PERMISSION' | 'LOGIN';
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DEACTIVATE' | 'REACTIVATE' | 'DELETE' | 'COUNT' | 'UNCOUNT' | 'UNLOCK';
+
+// One changed record. Before/after are JSON snapshots ('' when there is none, e.g. before a CREATE)
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  userId: string; // 'SYSTEM' for changes made without a signed-in user (scripts)
+  role: UserRole | 'SYSTEM';
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before: string;
+  after: string;
 }
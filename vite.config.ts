@@ -8,11 +8,18 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API server (npm run api) holds the Google credentials; the browser only ever calls /api
+        proxy: {
+          // xfwd passes each browser's address on, so the API server's sign-in limit counts them apart
+          '/api': { target: `http://localhost:${env.API_PORT || 8788}`, xfwd: true },
+        },
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.REACT_APP_DATA_BACKEND': JSON.stringify(env.REACT_APP_DATA_BACKEND),
+        'process.env.REACT_APP_API_BASE_URL': JSON.stringify(env.REACT_APP_API_BASE_URL)
       },
       resolve: {
         alias: {